@@ -11,6 +11,8 @@ import TranscriptionHistory from "./pages/TranscriptionHistory";
 import ChangePassword from "./pages/ChangePassword";
 import Profile from "./pages/Profile";
 import NotificationSettings from "./pages/NotificationSettings";
+import NotificationInbox from "./pages/NotificationInbox";
+import WebhookSettings from "./pages/WebhookSettings";
 import AdminActivityDashboard from "./pages/AdminActivityDashboard";
 import AdminTranscriptionAnalytics from "./pages/AdminTranscriptionAnalytics";
 import NotFound from "./pages/NotFound";
@@ -32,6 +34,8 @@ const App = () => (
             <Route path="/change-password" element={<ChangePassword />} />
             <Route path="/profile" element={<Profile />} />
             <Route path="/notifications" element={<NotificationSettings />} />
+            <Route path="/notifications/inbox" element={<NotificationInbox />} />
+            <Route path="/webhooks" element={<WebhookSettings />} />
             <Route path="/admin/activity" element={<AdminActivityDashboard />} />
             <Route path="/admin/analytics" element={<AdminTranscriptionAnalytics />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
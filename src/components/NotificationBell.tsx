@@ -1,4 +1,4 @@
-import { Bell } from "lucide-react";
+import { Bell, Check, CheckCheck, Circle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -11,27 +11,32 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useRealtimeNotifications } from "@/contexts/RealtimeNotificationsContext";
+import { AppNotification, getNotificationIcon } from "@/lib/notifications";
 import { formatDistanceToNow } from "date-fns";
 import { useNavigate } from "react-router-dom";
+import { cn } from "@/lib/utils";
 
 export const NotificationBell = () => {
-  const { recentActivities, unreadCount, markAsRead } = useRealtimeNotifications();
+  const { notifications, unreadCount, markAsRead, markAsUnread, markAllAsRead } = useRealtimeNotifications();
   const navigate = useNavigate();
 
-  const handleOpenChange = (open: boolean) => {
-    if (open) {
-      markAsRead();
+  const handleOpen = (notification: AppNotification) => {
+    if (!notification.read_at) {
+      markAsRead(notification.id);
+    }
+    if (notification.link) {
+      navigate(notification.link);
     }
   };
 
   return (
-    <DropdownMenu onOpenChange={handleOpenChange}>
+    <DropdownMenu>
       <DropdownMenuTrigger asChild>
         <Button variant="ghost" size="icon" className="relative">
           <Bell className="h-5 w-5" />
           {unreadCount > 0 && (
-            <Badge 
-              variant="destructive" 
+            <Badge
+              variant="destructive"
               className="absolute -top-1 -right-1 h-5 w-5 flex items-center justify-center p-0 text-xs"
             >
               {unreadCount > 9 ? "9+" : unreadCount}
@@ -40,38 +45,76 @@ export const NotificationBell = () => {
         </Button>
       </DropdownMenuTrigger>
       <DropdownMenuContent align="end" className="w-80">
-        <DropdownMenuLabel>Recent Activity</DropdownMenuLabel>
+        <div className="flex items-center justify-between pr-2">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={unreadCount === 0}
+            onClick={() => markAllAsRead()}
+          >
+            <CheckCheck className="h-3 w-3 mr-1" />
+            Mark all as read
+          </Button>
+        </div>
         <DropdownMenuSeparator />
         <ScrollArea className="h-[300px]">
-          {recentActivities.length === 0 ? (
+          {notifications.length === 0 ? (
             <div className="flex items-center justify-center h-32 text-sm text-muted-foreground">
-              No recent activity
+              No notifications
             </div>
           ) : (
-            recentActivities.map((activity) => (
-              <DropdownMenuItem
-                key={activity.id}
-                className="flex flex-col items-start p-3 cursor-pointer"
-              >
-                <div className="flex items-center gap-2 w-full">
-                  <Badge variant="outline" className="text-xs">
-                    {activity.action_type}
-                  </Badge>
-                  <span className="text-xs text-muted-foreground ml-auto">
-                    {formatDistanceToNow(new Date(activity.created_at), { addSuffix: true })}
-                  </span>
-                </div>
-                <p className="text-sm mt-1">{activity.action_description}</p>
-              </DropdownMenuItem>
-            ))
+            notifications.map((notification) => {
+              const Icon = getNotificationIcon(notification.type);
+              const unread = !notification.read_at;
+
+              return (
+                <DropdownMenuItem
+                  key={notification.id}
+                  className={cn("flex items-start gap-2 p-3 cursor-pointer", unread && "bg-primary/5")}
+                  onClick={() => handleOpen(notification)}
+                >
+                  <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                  <div className="flex-1 min-w-0">
+                    <p className={cn("text-sm", unread && "font-medium")}>{notification.title}</p>
+                    <span className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                    </span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 shrink-0"
+                    title={unread ? "Mark as read" : "Mark as unread"}
+                    onClick={(e) => {
+                      // Toggle without opening the notification or closing the menu
+                      e.preventDefault();
+                      e.stopPropagation();
+                      if (unread) {
+                        markAsRead(notification.id);
+                      } else {
+                        markAsUnread(notification.id);
+                      }
+                    }}
+                  >
+                    {unread ? (
+                      <Circle className="h-2.5 w-2.5 fill-primary text-primary" />
+                    ) : (
+                      <Check className="h-3 w-3 text-muted-foreground" />
+                    )}
+                  </Button>
+                </DropdownMenuItem>
+              );
+            })
           )}
         </ScrollArea>
         <DropdownMenuSeparator />
         <DropdownMenuItem
           className="cursor-pointer text-center justify-center"
-          onClick={() => navigate("/profile")}
+          onClick={() => navigate("/notifications/inbox")}
         >
-          View All Activity
+          View All Notifications
         </DropdownMenuItem>
       </DropdownMenuContent>
     </DropdownMenu>
@@ -0,0 +1,77 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, CheckCircle2, XCircle } from "lucide-react";
+import { format } from "date-fns";
+
+interface QueueAttempt {
+  id: string;
+  attempt_number: number;
+  succeeded: boolean;
+  error_message: string | null;
+  error_class: string | null;
+  started_at: string | null;
+  finished_at: string;
+}
+
+interface QueueAttemptHistoryProps {
+  queueItemId: string;
+  // Reloads the history when the item records another attempt
+  attemptCount: number;
+}
+
+export function QueueAttemptHistory({ queueItemId, attemptCount }: QueueAttemptHistoryProps) {
+  const [attempts, setAttempts] = useState<QueueAttempt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchAttempts = async () => {
+      const { data, error } = await supabase
+        .from('transcription_queue_attempts')
+        .select('*')
+        .eq('queue_item_id', queueItemId)
+        .order('attempt_number', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching queue attempts:', error);
+      } else {
+        setAttempts(data || []);
+      }
+      setIsLoading(false);
+    };
+
+    fetchAttempts();
+  }, [queueItemId, attemptCount]);
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+  }
+
+  if (attempts.length === 0) {
+    return <p className="text-xs text-muted-foreground">No finished attempts yet</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {attempts.map((attempt) => (
+        <div key={attempt.id} className="flex items-start gap-2 text-xs">
+          {attempt.succeeded ? (
+            <CheckCircle2 className="h-3 w-3 mt-0.5 text-green-600 flex-shrink-0" />
+          ) : (
+            <XCircle className="h-3 w-3 mt-0.5 text-red-600 flex-shrink-0" />
+          )}
+          <span className="font-medium whitespace-nowrap">#{attempt.attempt_number}</span>
+          <span className="text-muted-foreground whitespace-nowrap">
+            {format(new Date(attempt.finished_at), 'MMM dd, HH:mm:ss')}
+          </span>
+          {attempt.error_class && (
+            <Badge variant="outline" className="text-[10px] px-1 py-0">{attempt.error_class}</Badge>
+          )}
+          {attempt.error_message && (
+            <span className="text-muted-foreground line-clamp-2">{attempt.error_message}</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Mic, Square, Loader2, Copy, Download } from "lucide-react";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
+import { queueAudioTranscription } from "@/lib/transcriptionQueue";
+import { useQueueItem } from "@/hooks/useQueueItem";
 
 export function QuickRecorder() {
   const [isRecording, setIsRecording] = useState(false);
@@ -11,6 +13,22 @@ export function QuickRecorder() {
   const [transcription, setTranscription] = useState<string>("");
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
+  const [queuedItemId, setQueuedItemId] = useState<string | null>(null);
+  const queuedItem = useQueueItem(queuedItemId);
+
+  // Recordings are transcribed by the queue; pick the text up once the job finishes
+  useEffect(() => {
+    if (!queuedItem) return;
+
+    if (queuedItem.status === 'completed') {
+      setTranscription(queuedItem.result_text ?? "");
+      setQueuedItemId(null);
+      toast.success("Transcription complete!");
+    } else if (queuedItem.status === 'failed' || queuedItem.status === 'dead_letter') {
+      setQueuedItemId(null);
+      toast.error(queuedItem.error_message || "Failed to transcribe audio");
+    }
+  }, [queuedItem]);
 
   const startRecording = async () => {
     try {
@@ -68,24 +86,12 @@ export function QuickRecorder() {
       const checksum = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
       const fileName = `recording-${Date.now()}.webm`;
 
-      const formData = new FormData();
-      formData.append("audio", audioBlob, fileName);
-      formData.append("filename", fileName);
-      formData.append("checksum", checksum);
-
-      const { data, error } = await supabase.functions.invoke("transcribe-audio", {
-        body: formData,
+      const queueItemId = await queueAudioTranscription(audioBlob, {
+        fileName,
+        fileChecksum: checksum,
+        sourceType: "recording",
       });
-
-      if (error) throw error;
-
-      if (data.cached) {
-        toast.info("Found existing transcription");
-      } else {
-        toast.success("Transcription complete!");
-      }
-
-      setTranscription(data.transcription);
+      setQueuedItemId(queueItemId);
     } catch (error) {
       console.error("Error processing recording:", error);
       toast.error("Failed to transcribe audio");
@@ -149,7 +155,16 @@ export function QuickRecorder() {
           {isProcessing && (
             <div className="flex flex-col items-center gap-2">
               <Loader2 className="h-12 w-12 animate-spin text-primary" />
-              <p className="text-sm text-muted-foreground">Transcribing...</p>
+              <p className="text-sm text-muted-foreground">Uploading...</p>
+            </div>
+          )}
+
+          {queuedItem && !isProcessing && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {queuedItem.status === 'processing'
+                ? `Transcribing in the background... ${queuedItem.progress ?? 0}%`
+                : "Waiting in the transcription queue..."}
             </div>
           )}
         </CardContent>
@@ -0,0 +1,130 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { DatabaseZap, ExternalLink, Loader2, Sparkles } from "lucide-react";
+import { indexMissingTranscriptions, searchPassages, SemanticPassage } from "@/lib/semanticSearch";
+
+interface SemanticSearchResultsProps {
+  query: string;
+  onOpenPassage: (transcriptionId: string, startTime: number | null) => void;
+}
+
+const formatPassageTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Shows the transcript passages closest in meaning to a natural language query,
+ * each linking into its transcription at the point the passage starts.
+ */
+export function SemanticSearchResults({ query, onOpenPassage }: SemanticSearchResultsProps) {
+  const [passages, setPassages] = useState<SemanticPassage[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isIndexing, setIsIndexing] = useState(false);
+  const [indexProgress, setIndexProgress] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setPassages([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const results = await searchPassages(query.trim());
+        if (!cancelled) setPassages(results);
+      } catch (error) {
+        console.error('Error running semantic search:', error);
+        if (!cancelled) toast.error('Semantic search failed');
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  const handleIndexMissing = async () => {
+    setIsIndexing(true);
+    try {
+      const indexed = await indexMissingTranscriptions((done, remaining) =>
+        setIndexProgress(`Indexed ${done}, ${remaining} remaining`)
+      );
+      toast.success(indexed > 0 ? `Indexed ${indexed} transcription${indexed !== 1 ? 's' : ''}` : 'All transcriptions are already indexed');
+    } catch (error) {
+      console.error('Error indexing transcriptions:', error);
+      toast.error('Failed to index transcriptions');
+    } finally {
+      setIsIndexing(false);
+      setIndexProgress(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Sparkles className="h-5 w-5" />
+              Semantic Matches
+            </CardTitle>
+            <CardDescription>
+              {query.trim() ? `Passages closest in meaning to "${query.trim()}"` : 'Describe what was said to find matching passages'}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleIndexMissing} disabled={isIndexing}>
+            {isIndexing ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <DatabaseZap className="mr-2 h-4 w-4" />
+            )}
+            {indexProgress || 'Index missing transcripts'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isSearching ? (
+          <p className="text-sm text-muted-foreground flex items-center gap-2">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Searching...
+          </p>
+        ) : query.trim() && passages.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No matching passages found</p>
+        ) : (
+          passages.map(passage => (
+            <div key={`${passage.transcription_id}-${passage.chunk_index}`} className="border rounded-md p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="font-medium text-sm truncate">{passage.file_title}</span>
+                  {passage.start_time !== null && (
+                    <Badge variant="outline" className="text-xs">{formatPassageTime(passage.start_time)}</Badge>
+                  )}
+                  <Badge variant="secondary" className="text-xs">{Math.round(passage.similarity * 100)}% match</Badge>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onOpenPassage(passage.transcription_id, passage.start_time)}
+                >
+                  <ExternalLink className="mr-2 h-4 w-4" />
+                  Open
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground line-clamp-4">{passage.content}</p>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,119 @@
+import { forwardRef, useEffect, useRef, useState, ReactNode } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+import { SubtitleSegment } from "@/lib/exportUtils";
+
+const AUDIO_BUCKET = "audio-uploads";
+const SIGNED_URL_EXPIRY_SECONDS = 60 * 60;
+
+interface TranscriptPlayerProps {
+  filePath?: string | null;
+  segments: SubtitleSegment[];
+  text: string;
+  renderText?: (text: string) => ReactNode;
+  // Position to open at, e.g. where a search result starts; playback isn't started automatically
+  initialTime?: number | null;
+}
+
+const formatPlaybackTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Plays the stored audio for a transcription and highlights the segment being spoken.
+ * Clicking a segment seeks playback to its start time. Without segments the plain text is shown.
+ */
+export const TranscriptPlayer = forwardRef<HTMLAudioElement, TranscriptPlayerProps>(
+  ({ filePath, segments, text, renderText, initialTime }, audioRef) => {
+    const [audioUrl, setAudioUrl] = useState<string | null>(null);
+    const [currentTime, setCurrentTime] = useState(0);
+    const activeSegmentRef = useRef<HTMLSpanElement>(null);
+
+    useEffect(() => {
+      setAudioUrl(null);
+      setCurrentTime(initialTime ?? 0);
+      if (!filePath) return;
+
+      let cancelled = false;
+      const loadAudio = async () => {
+        const { data, error } = await supabase.storage
+          .from(AUDIO_BUCKET)
+          .createSignedUrl(filePath, SIGNED_URL_EXPIRY_SECONDS);
+
+        if (error) {
+          console.error('Error loading audio:', error);
+          return;
+        }
+        if (!cancelled) setAudioUrl(data.signedUrl);
+      };
+
+      loadAudio();
+      return () => {
+        cancelled = true;
+      };
+    }, [filePath, initialTime]);
+
+    const activeIndex = segments.findIndex(
+      segment => currentTime >= segment.start_time && currentTime < segment.end_time
+    );
+
+    useEffect(() => {
+      activeSegmentRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }, [activeIndex]);
+
+    const seekTo = (seconds: number) => {
+      const audio = audioRef && typeof audioRef !== 'function' ? audioRef.current : null;
+      if (!audio) return;
+      audio.currentTime = seconds;
+      setCurrentTime(seconds);
+      audio.play().catch(error => console.error('Error starting playback:', error));
+    };
+
+    return (
+      <div className="space-y-3">
+        {audioUrl && (
+          <audio
+            ref={audioRef}
+            src={audioUrl}
+            controls
+            preload="metadata"
+            className="w-full"
+            onLoadedMetadata={e => {
+              if (initialTime) e.currentTarget.currentTime = initialTime;
+            }}
+            onTimeUpdate={e => setCurrentTime(e.currentTarget.currentTime)}
+            onSeeked={e => setCurrentTime(e.currentTarget.currentTime)}
+          />
+        )}
+        <div className="p-4 bg-muted rounded-md max-h-96 overflow-y-auto">
+          <p className="text-sm whitespace-pre-wrap">
+            {segments.length === 0 && (renderText ? renderText(text) : text)}
+            {segments.map((segment, index) => (
+              <span key={index}>
+                {segment.speaker && segment.speaker !== segments[index - 1]?.speaker && (
+                  <span className={cn("block font-semibold", index > 0 && "mt-3")}>{segment.speaker}</span>
+                )}
+                <span
+                  ref={index === activeIndex ? activeSegmentRef : undefined}
+                  title={formatPlaybackTime(segment.start_time)}
+                  onClick={() => seekTo(segment.start_time)}
+                  className={cn(
+                    "rounded px-0.5 transition-colors",
+                    audioUrl && "cursor-pointer hover:bg-primary/10",
+                    index === activeIndex && "bg-primary/20"
+                  )}
+                >
+                  {renderText ? renderText(segment.text) : segment.text}{' '}
+                </span>
+              </span>
+            ))}
+          </p>
+        </div>
+      </div>
+    );
+  }
+);
+
+TranscriptPlayer.displayName = "TranscriptPlayer";
@@ -0,0 +1,233 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { History, RotateCcw, Clock } from "lucide-react";
+import { diffWords } from "diff";
+import { logTranscriptRestore } from "@/lib/activityLogger";
+
+interface TranscriptRevision {
+  id: string;
+  transcription_id: string;
+  version_number: number;
+  transcription_text: string;
+  created_at: string;
+  created_by: string;
+  change_summary?: string | null;
+}
+
+interface TranscriptRevisionHistoryProps {
+  transcriptionId: string;
+  fileTitle: string;
+  currentText: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestore: (text: string) => void;
+}
+
+export function TranscriptRevisionHistory({
+  transcriptionId,
+  fileTitle,
+  currentText,
+  open,
+  onOpenChange,
+  onRestore,
+}: TranscriptRevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<TranscriptRevision[]>([]);
+  const [selectedRevision, setSelectedRevision] = useState<TranscriptRevision | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchRevisions = useCallback(async () => {
+    setLoading(true);
+    const { data: { user } } = await supabase.auth.getUser();
+    setCurrentUserId(user?.id ?? null);
+
+    const { data, error } = await supabase
+      .from('transcription_revisions')
+      .select('*')
+      .eq('transcription_id', transcriptionId)
+      .order('version_number', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching revisions:', error);
+      toast.error('Failed to load revision history');
+      setLoading(false);
+      return;
+    }
+
+    setRevisions(data || []);
+    setLoading(false);
+  }, [transcriptionId]);
+
+  useEffect(() => {
+    if (open && transcriptionId) {
+      setSelectedRevision(null);
+      fetchRevisions();
+    }
+  }, [open, transcriptionId, fetchRevisions]);
+
+  const handleRestore = async (revision: TranscriptRevision) => {
+    const { error } = await supabase
+      .from('transcription_logs')
+      .update({ transcription_text: revision.transcription_text })
+      .eq('id', transcriptionId);
+
+    if (error) {
+      console.error('Error restoring revision:', error);
+      toast.error('Failed to restore revision');
+      return;
+    }
+
+    await logTranscriptRestore(transcriptionId, fileTitle, revision.version_number);
+    toast.success(`Restored to revision ${revision.version_number}`);
+    onRestore(revision.transcription_text);
+    onOpenChange(false);
+  };
+
+  // The text that replaced a revision is the next newer revision, or the current transcript
+  const getReplacementText = (revision: TranscriptRevision) => {
+    const index = revisions.findIndex(r => r.id === revision.id);
+    return index > 0 ? revisions[index - 1].transcription_text : currentText;
+  };
+
+  const getAuthorLabel = (userId: string) =>
+    userId === currentUserId ? 'You' : `User ${userId.slice(0, 8)}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[80vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Revision History: {fileTitle}
+          </DialogTitle>
+          <DialogDescription>
+            View and restore previous versions of this transcript
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 grid grid-cols-2 gap-4 overflow-hidden">
+          {/* Revision List */}
+          <div className="border-r pr-4">
+            <h3 className="text-sm font-medium mb-3">Revisions</h3>
+            <ScrollArea className="h-[calc(80vh-200px)]">
+              {loading ? (
+                <div className="flex items-center justify-center py-8">
+                  <p className="text-sm text-muted-foreground">Loading revisions...</p>
+                </div>
+              ) : revisions.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-8 text-center">
+                  <Clock className="h-12 w-12 text-muted-foreground mb-2" />
+                  <p className="text-sm text-muted-foreground">No revision history yet</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Revisions are created when you edit this transcript
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {/* Current version */}
+                  <div
+                    className={`p-3 border rounded-lg cursor-pointer transition-colors ${
+                      selectedRevision === null ? 'bg-primary/10 border-primary' : 'hover:bg-muted/50'
+                    }`}
+                    onClick={() => setSelectedRevision(null)}
+                  >
+                    <div className="flex items-center justify-between mb-2">
+                      <Badge variant="default">Current</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground truncate">{currentText}</p>
+                  </div>
+
+                  {/* Historical revisions */}
+                  {revisions.map((revision) => (
+                    <div
+                      key={revision.id}
+                      className={`p-3 border rounded-lg cursor-pointer transition-colors ${
+                        selectedRevision?.id === revision.id ? 'bg-primary/10 border-primary' : 'hover:bg-muted/50'
+                      }`}
+                      onClick={() => setSelectedRevision(revision)}
+                    >
+                      <div className="flex items-center justify-between mb-2">
+                        <Badge variant="outline">v{revision.version_number}</Badge>
+                        <span className="text-xs text-muted-foreground">
+                          {format(new Date(revision.created_at), 'MMM d, yyyy HH:mm')}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Replaced by {getAuthorLabel(revision.created_by)}
+                      </p>
+                      {revision.change_summary && (
+                        <p className="text-xs text-muted-foreground mt-1">{revision.change_summary}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+
+          {/* Revision Details */}
+          <div>
+            <h3 className="text-sm font-medium mb-3">Details</h3>
+            <ScrollArea className="h-[calc(80vh-200px)]">
+              {selectedRevision === null ? (
+                <div className="space-y-4">
+                  <div>
+                    <h4 className="text-sm font-medium mb-2">Current Version</h4>
+                    <p className="text-sm text-muted-foreground mb-4">This is the active version of the transcript</p>
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap">{currentText}</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <div>
+                    <h4 className="text-sm font-medium mb-2">Revision {selectedRevision.version_number}</h4>
+                    <p className="text-xs text-muted-foreground">
+                      Replaced {format(new Date(selectedRevision.created_at), 'MMM d, yyyy HH:mm')} by {getAuthorLabel(selectedRevision.created_by)}
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium">Changes Made in This Edit:</h4>
+                    <div className="p-3 bg-muted/50 rounded text-sm leading-relaxed whitespace-pre-wrap">
+                      {diffWords(selectedRevision.transcription_text, getReplacementText(selectedRevision)).map((part, idx) => (
+                        <span
+                          key={idx}
+                          className={
+                            part.added
+                              ? 'bg-green-200 dark:bg-green-900 px-0.5 rounded'
+                              : part.removed
+                              ? 'bg-red-200 dark:bg-red-900 px-0.5 rounded line-through'
+                              : ''
+                          }
+                        >
+                          {part.value}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="flex gap-2 pt-4">
+                    <Button
+                      size="sm"
+                      onClick={() => handleRestore(selectedRevision)}
+                      className="flex-1"
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Restore This Revision
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Download, Languages, Loader2, Trash2 } from "lucide-react";
+import { logTranscriptTranslate } from "@/lib/activityLogger";
+import { getLanguageName, TRANSLATION_LANGUAGES } from "@/lib/languages";
+
+interface TranscriptTranslation {
+  id: string;
+  transcription_id: string;
+  target_language: string;
+  translated_text: string | null;
+  status: string;
+  error_message: string | null;
+  updated_at: string;
+}
+
+interface TranscriptTranslationsProps {
+  transcriptionId: string;
+  fileTitle: string;
+}
+
+/**
+ * Lists the translations attached to a transcription and translates it into further languages.
+ */
+export function TranscriptTranslations({ transcriptionId, fileTitle }: TranscriptTranslationsProps) {
+  const [translations, setTranslations] = useState<TranscriptTranslation[]>([]);
+  const [targetLanguage, setTargetLanguage] = useState("es");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isTranslating, setIsTranslating] = useState(false);
+
+  const fetchTranslations = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('transcription_translations')
+      .select('*')
+      .eq('transcription_id', transcriptionId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching translations:', error);
+      toast.error('Failed to load translations');
+      return;
+    }
+
+    setTranslations(data || []);
+  }, [transcriptionId]);
+
+  useEffect(() => {
+    setExpandedId(null);
+    fetchTranslations();
+  }, [fetchTranslations]);
+
+  const handleTranslate = async () => {
+    setIsTranslating(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('translate-transcription', {
+        body: { transcriptionId, targetLanguage },
+      });
+
+      if (error) throw error;
+      if (data.error) throw new Error(data.error);
+
+      await logTranscriptTranslate(transcriptionId, fileTitle, targetLanguage);
+      toast.success(`Translated to ${getLanguageName(targetLanguage)}`);
+      setExpandedId(data.translationId);
+    } catch (error) {
+      console.error('Error translating transcript:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to translate transcript');
+    } finally {
+      setIsTranslating(false);
+      fetchTranslations();
+    }
+  };
+
+  const handleDelete = async (translation: TranscriptTranslation) => {
+    const { error } = await supabase
+      .from('transcription_translations')
+      .delete()
+      .eq('id', translation.id);
+
+    if (error) {
+      console.error('Error deleting translation:', error);
+      toast.error('Failed to delete translation');
+      return;
+    }
+
+    setTranslations(prev => prev.filter(t => t.id !== translation.id));
+    toast.success('Translation deleted');
+  };
+
+  const handleDownload = (translation: TranscriptTranslation) => {
+    if (!translation.translated_text) return;
+
+    const blob = new Blob([translation.translated_text], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${fileTitle.replace(/[^a-z0-9]/gi, "_")}_${translation.target_language}.txt`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-semibold">Translations</Label>
+      <div className="flex gap-2">
+        <Select value={targetLanguage} onValueChange={setTargetLanguage} disabled={isTranslating}>
+          <SelectTrigger className="w-56" aria-label="Target language">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TRANSLATION_LANGUAGES.map(language => (
+              <SelectItem key={language.code} value={language.code}>
+                {language.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={handleTranslate} disabled={isTranslating}>
+          {isTranslating ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Languages className="mr-2 h-4 w-4" />
+          )}
+          {translations.some(t => t.target_language === targetLanguage) ? 'Re-translate' : 'Translate'}
+        </Button>
+      </div>
+
+      {translations.map(translation => (
+        <div key={translation.id} className="border rounded-md">
+          <div className="flex items-center justify-between p-2">
+            <button
+              type="button"
+              className="flex items-center gap-2 text-sm font-medium"
+              onClick={() => setExpandedId(expandedId === translation.id ? null : translation.id)}
+            >
+              {getLanguageName(translation.target_language)}
+              {translation.status !== 'completed' && (
+                <Badge variant={translation.status === 'failed' ? 'destructive' : 'secondary'}>
+                  {translation.status}
+                </Badge>
+              )}
+            </button>
+            <div className="flex gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDownload(translation)}
+                disabled={!translation.translated_text}
+                aria-label={`Download ${getLanguageName(translation.target_language)} translation`}
+              >
+                <Download className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDelete(translation)}
+                aria-label={`Delete ${getLanguageName(translation.target_language)} translation`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          {expandedId === translation.id && (
+            <div className="px-3 pb-3">
+              {translation.status === 'failed' ? (
+                <p className="text-sm text-destructive">{translation.error_message}</p>
+              ) : (
+                <p className="text-sm whitespace-pre-wrap max-h-64 overflow-y-auto">{translation.translated_text}</p>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -6,37 +6,79 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
 import { 
   Loader2, Pause, Play, Trash2, Eye, CheckCircle2, 
-  XCircle, Clock, AlertCircle, RefreshCw 
+  XCircle, Clock, AlertCircle, RefreshCw, Skull, History, CalendarClock, GripVertical 
 } from "lucide-react";
 import { format } from "date-fns";
+import { deleteQueueItem, runQueueWorker, QueueSourceType } from "@/lib/transcriptionQueue";
+import { QueueAttemptHistory } from "@/components/QueueAttemptHistory";
 
 interface QueueItem {
   id: string;
-  video_id: string;
-  video_url: string;
+  source_type: QueueSourceType;
+  source_ref: string;
+  video_id: string | null;
+  video_url: string | null;
   video_title: string;
   video_thumbnail: string | null;
   channel_title: string | null;
   language: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'paused';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'paused' | 'dead_letter';
   progress: number;
   error_message: string | null;
   result_text: string | null;
   result_duration: number | null;
   result_language: string | null;
+  target_language: string | null;
+  transcription_log_id: string | null;
+  attempt_count: number;
+  next_attempt_at: string | null;
+  last_error_class: 'transient' | 'permanent' | null;
+  priority: number;
+  queue_position: number;
+  not_before: string | null;
   created_at: string;
   started_at: string | null;
   completed_at: string | null;
 }
 
+const SOURCE_LABELS: Record<QueueSourceType, string> = {
+  youtube: 'YouTube',
+  upload: 'Upload',
+  recording: 'Recording',
+  translation: 'Translation',
+  rerun: 'Re-run',
+};
+
+// Higher priorities are claimed before the user's other items; the database accepts only these values
+const PRIORITY_OPTIONS = [
+  { value: 10, label: 'Urgent' },
+  { value: 5, label: 'High' },
+  { value: 0, label: 'Normal' },
+  { value: -5, label: 'Low' },
+];
+
+const getPriorityLabel = (priority: number) =>
+  PRIORITY_OPTIONS.find(option => option.value === priority)?.label ?? `Priority ${priority}`;
+
+// Pending items in the order the worker will claim them
+const compareQueueOrder = (a: QueueItem, b: QueueItem) =>
+  b.priority - a.priority || a.queue_position - b.queue_position;
+
 export function TranscriptionQueueManager() {
   const [queueItems, setQueueItems] = useState<QueueItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [activeTab, setActiveTab] = useState<'all' | 'pending' | 'processing' | 'completed' | 'failed'>('all');
+  const [activeTab, setActiveTab] = useState<'all' | QueueItem['status']>('all');
+  const [expandedAttempts, setExpandedAttempts] = useState<string | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [scheduleDrafts, setScheduleDrafts] = useState<Record<string, string>>({});
 
   useEffect(() => {
     fetchQueueItems();
@@ -80,108 +122,22 @@ export function TranscriptionQueueManager() {
     }
   };
 
+  // Items are processed server-side on a schedule; this just starts the worker straight away
   const processQueue = async () => {
-    const pendingItems = queueItems.filter(item => item.status === 'pending');
-    
-    if (pendingItems.length === 0) {
-      toast.info('No pending items to process');
-      return;
-    }
-
     setIsProcessing(true);
-    toast.info(`Starting to process ${pendingItems.length} video${pendingItems.length > 1 ? 's' : ''}...`);
-
-    for (const item of pendingItems) {
-      // Check if processing has been paused
-      const { data: currentItem } = await supabase
-        .from('transcription_queue')
-        .select('status')
-        .eq('id', item.id)
-        .single();
-
-      if (currentItem?.status === 'paused') {
-        console.log(`Skipping paused item: ${item.id}`);
-        continue;
-      }
-
-      try {
-        // Update status to processing
-        await supabase
-          .from('transcription_queue')
-          .update({ 
-            status: 'processing', 
-            started_at: new Date().toISOString(),
-            progress: 10
-          })
-          .eq('id', item.id);
-
-        // Simulate progress updates
-        const progressInterval = setInterval(async () => {
-          const { data: check } = await supabase
-            .from('transcription_queue')
-            .select('status, progress')
-            .eq('id', item.id)
-            .single();
-
-          if (check?.status === 'processing' && check.progress < 90) {
-            await supabase
-              .from('transcription_queue')
-              .update({ progress: Math.min(check.progress + 15, 90) })
-              .eq('id', item.id);
-          }
-        }, 1000);
-
-        // Call the transcription edge function
-        const { data, error } = await supabase.functions.invoke('transcribe-youtube', {
-          body: {
-            youtubeUrl: item.video_url,
-            language: item.language,
-            downloadVideo: false
-          }
-        });
-
-        clearInterval(progressInterval);
-
-        if (error) throw error;
-        if (data.error) throw new Error(data.error);
-
-        // Update with completed status
-        await supabase
-          .from('transcription_queue')
-          .update({
-            status: 'completed',
-            progress: 100,
-            completed_at: new Date().toISOString(),
-            result_text: data.text,
-            result_duration: data.duration,
-            result_language: data.language,
-            transcription_log_id: data.logId
-          })
-          .eq('id', item.id);
-
-        toast.success(`Completed: ${item.video_title.substring(0, 50)}...`);
-
-      } catch (error: any) {
-        console.error(`Error processing ${item.id}:`, error);
-        
-        await supabase
-          .from('transcription_queue')
-          .update({
-            status: 'failed',
-            progress: 0,
-            error_message: error.message || 'Transcription failed'
-          })
-          .eq('id', item.id);
-
-        toast.error(`Failed: ${item.video_title.substring(0, 50)}...`);
+    try {
+      const claimed = await runQueueWorker();
+      if (claimed > 0) {
+        toast.success(`Started processing ${claimed} item${claimed > 1 ? 's' : ''}`);
+      } else {
+        toast.info('The worker is already busy; pending items will start as soon as it has room');
       }
-
-      // Small delay between videos
-      await new Promise(resolve => setTimeout(resolve, 1000));
+    } catch (error) {
+      console.error('Error starting queue worker:', error);
+      toast.error('Failed to start the queue worker');
+    } finally {
+      setIsProcessing(false);
     }
-
-    setIsProcessing(false);
-    toast.success('Queue processing complete!');
   };
 
   const pauseItem = async (id: string) => {
@@ -189,7 +145,8 @@ export function TranscriptionQueueManager() {
       await supabase
         .from('transcription_queue')
         .update({ status: 'paused' })
-        .eq('id', id);
+        .eq('id', id)
+        .eq('status', 'pending');
       
       toast.success('Item paused');
     } catch (error: any) {
@@ -202,7 +159,8 @@ export function TranscriptionQueueManager() {
       await supabase
         .from('transcription_queue')
         .update({ status: 'pending' })
-        .eq('id', id);
+        .eq('id', id)
+        .eq('status', 'paused');
       
       toast.success('Item resumed');
     } catch (error: any) {
@@ -210,6 +168,7 @@ export function TranscriptionQueueManager() {
     }
   };
 
+  // A manual retry starts the item over with a fresh set of attempts
   const retryItem = async (id: string) => {
     try {
       await supabase
@@ -217,9 +176,13 @@ export function TranscriptionQueueManager() {
         .update({ 
           status: 'pending',
           progress: 0,
-          error_message: null
+          error_message: null,
+          attempt_count: 0,
+          next_attempt_at: null,
+          last_error_class: null
         })
-        .eq('id', id);
+        .eq('id', id)
+        .in('status', ['failed', 'dead_letter']);
       
       toast.success('Item added back to queue');
     } catch (error: any) {
@@ -227,12 +190,82 @@ export function TranscriptionQueueManager() {
     }
   };
 
-  const deleteItem = async (id: string) => {
+  const setItemPriority = async (id: string, priority: number) => {
     try {
-      await supabase
+      const { error } = await supabase
         .from('transcription_queue')
-        .delete()
+        .update({ priority })
+        .eq('id', id);
+
+      if (error) throw error;
+      toast.success(`Priority set to ${getPriorityLabel(priority)}`);
+    } catch (error) {
+      console.error('Error updating priority:', error);
+      toast.error('Failed to update priority');
+    }
+  };
+
+  // not_before holds the item back from the worker until then; null starts it as soon as possible
+  const setItemSchedule = async (id: string, notBefore: string | null) => {
+    try {
+      const { error } = await supabase
+        .from('transcription_queue')
+        .update({ not_before: notBefore })
         .eq('id', id);
+
+      if (error) throw error;
+      toast.success(notBefore ? `Scheduled for ${format(new Date(notBefore), 'MMM dd, HH:mm')}` : 'Schedule cleared');
+    } catch (error) {
+      console.error('Error updating schedule:', error);
+      toast.error('Failed to update schedule');
+    }
+  };
+
+  /**
+   * Move a pending item to where another was dropped. The item takes the target's priority and a
+   * queue position between its new neighbours, so only the dragged row is written.
+   */
+  const moveItem = async (id: string, targetId: string) => {
+    const pending = queueItems.filter(i => i.status === 'pending').sort(compareQueueOrder);
+    const fromIndex = pending.findIndex(i => i.id === id);
+    const toIndex = pending.findIndex(i => i.id === targetId);
+    if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) return;
+
+    const target = pending[toIndex];
+    const rest = pending.filter(i => i.id !== id);
+    const insertAt = rest.findIndex(i => i.id === targetId) + (fromIndex < toIndex ? 1 : 0);
+    const before = rest[insertAt - 1];
+    const after = rest[insertAt];
+
+    // Neighbours in another priority don't bound the position within the target's priority
+    const lower = before && before.priority === target.priority ? before.queue_position : undefined;
+    const upper = after && after.priority === target.priority ? after.queue_position : undefined;
+    const queuePosition =
+      lower !== undefined && upper !== undefined ? (lower + upper) / 2
+      : lower !== undefined ? lower + 1
+      : upper !== undefined ? upper - 1
+      : target.queue_position;
+
+    const moved = { priority: target.priority, queue_position: queuePosition };
+    setQueueItems(items => items.map(i => (i.id === id ? { ...i, ...moved } : i)));
+
+    try {
+      const { error } = await supabase
+        .from('transcription_queue')
+        .update(moved)
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error reordering queue:', error);
+      toast.error('Failed to reorder queue');
+      fetchQueueItems();
+    }
+  };
+
+  const deleteItem = async (id: string) => {
+    try {
+      await deleteQueueItem(id);
       
       toast.success('Item deleted');
     } catch (error: any) {
@@ -255,7 +288,8 @@ export function TranscriptionQueueManager() {
 
   const getFilteredItems = () => {
     if (activeTab === 'all') return queueItems;
-    return queueItems.filter(item => item.status === activeTab);
+    const items = queueItems.filter(item => item.status === activeTab);
+    return activeTab === 'pending' ? items.sort(compareQueueOrder) : items;
   };
 
   const getStatusBadge = (status: QueueItem['status']) => {
@@ -270,6 +304,8 @@ export function TranscriptionQueueManager() {
         return <Badge variant="destructive" className="gap-1"><XCircle className="h-3 w-3" /> Failed</Badge>;
       case 'paused':
         return <Badge variant="outline" className="gap-1"><Pause className="h-3 w-3" /> Paused</Badge>;
+      case 'dead_letter':
+        return <Badge variant="destructive" className="gap-1"><Skull className="h-3 w-3" /> Dead Letter</Badge>;
     }
   };
 
@@ -280,6 +316,7 @@ export function TranscriptionQueueManager() {
       completed: queueItems.filter(i => i.status === 'completed').length,
       failed: queueItems.filter(i => i.status === 'failed').length,
       paused: queueItems.filter(i => i.status === 'paused').length,
+      deadLetter: queueItems.filter(i => i.status === 'dead_letter').length,
     };
   };
 
@@ -303,7 +340,7 @@ export function TranscriptionQueueManager() {
           <div>
             <CardTitle>Transcription Queue Manager</CardTitle>
             <CardDescription>
-              Monitor and manage all transcription jobs
+              Jobs run in the background, whether or not this page is open
             </CardDescription>
           </div>
           <div className="flex gap-2">
@@ -311,7 +348,6 @@ export function TranscriptionQueueManager() {
               variant="outline"
               size="sm"
               onClick={fetchQueueItems}
-              disabled={isProcessing}
             >
               <RefreshCw className="h-4 w-4 mr-2" />
               Refresh
@@ -324,12 +360,12 @@ export function TranscriptionQueueManager() {
               {isProcessing ? (
                 <>
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  Processing...
+                  Starting...
                 </>
               ) : (
                 <>
                   <Play className="h-4 w-4 mr-2" />
-                  Process Queue ({stats.pending})
+                  Process Now ({stats.pending})
                 </>
               )}
             </Button>
@@ -338,7 +374,6 @@ export function TranscriptionQueueManager() {
                 variant="outline"
                 size="sm"
                 onClick={clearCompleted}
-                disabled={isProcessing}
               >
                 Clear Completed
               </Button>
@@ -347,7 +382,7 @@ export function TranscriptionQueueManager() {
         </div>
 
         {/* Stats */}
-        <div className="grid grid-cols-5 gap-3 mt-4">
+        <div className="grid grid-cols-6 gap-3 mt-4">
           <Card className="bg-muted/50">
             <CardContent className="p-3 text-center">
               <div className="text-2xl font-bold">{stats.pending}</div>
@@ -378,34 +413,61 @@ export function TranscriptionQueueManager() {
               <div className="text-xs text-muted-foreground">Paused</div>
             </CardContent>
           </Card>
+          <Card className="bg-red-500/10">
+            <CardContent className="p-3 text-center">
+              <div className="text-2xl font-bold text-red-600">{stats.deadLetter}</div>
+              <div className="text-xs text-muted-foreground">Dead Letter</div>
+            </CardContent>
+          </Card>
         </div>
       </CardHeader>
 
       <CardContent>
-        <Tabs value={activeTab} onValueChange={(v: any) => setActiveTab(v)}>
-          <TabsList className="grid w-full grid-cols-6">
+        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as typeof activeTab)}>
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="all">All ({queueItems.length})</TabsTrigger>
             <TabsTrigger value="pending">Pending ({stats.pending})</TabsTrigger>
             <TabsTrigger value="processing">Processing ({stats.processing})</TabsTrigger>
             <TabsTrigger value="completed">Completed ({stats.completed})</TabsTrigger>
             <TabsTrigger value="failed">Failed ({stats.failed})</TabsTrigger>
             <TabsTrigger value="paused">Paused ({stats.paused})</TabsTrigger>
+            <TabsTrigger value="dead_letter">Dead Letter ({stats.deadLetter})</TabsTrigger>
           </TabsList>
 
-          {['all', 'pending', 'processing', 'completed', 'failed', 'paused'].map((tab) => (
+          {['all', 'pending', 'processing', 'completed', 'failed', 'paused', 'dead_letter'].map((tab) => (
             <TabsContent key={tab} value={tab} className="mt-4">
               {filteredItems.length === 0 ? (
                 <div className="text-center py-12 text-muted-foreground">
                   <AlertCircle className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                  <p>No {tab === 'all' ? '' : tab} items in queue</p>
+                  <p>No {tab === 'all' ? '' : tab.replace('_', ' ')} items in queue</p>
                 </div>
               ) : (
                 <ScrollArea className="h-[500px]">
                   <div className="space-y-3">
                     {filteredItems.map((item) => (
-                      <Card key={item.id} className="overflow-hidden">
+                      <Card
+                        key={item.id}
+                        className={`overflow-hidden ${draggedId === item.id ? 'opacity-50' : ''}`}
+                        draggable={tab === 'pending'}
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = 'move';
+                          setDraggedId(item.id);
+                        }}
+                        onDragOver={(e) => {
+                          if (tab === 'pending' && draggedId) e.preventDefault();
+                        }}
+                        onDrop={(e) => {
+                          e.preventDefault();
+                          if (draggedId) moveItem(draggedId, item.id);
+                          setDraggedId(null);
+                        }}
+                        onDragEnd={() => setDraggedId(null)}
+                      >
                         <CardContent className="p-4">
                           <div className="flex gap-4">
+                            {tab === 'pending' && (
+                              <GripVertical className="h-5 w-5 self-center flex-shrink-0 cursor-grab text-muted-foreground" />
+                            )}
                             {item.video_thumbnail && (
                               <img 
                                 src={item.video_thumbnail} 
@@ -418,11 +480,20 @@ export function TranscriptionQueueManager() {
                               <div className="flex items-start justify-between gap-2 mb-2">
                                 <div className="flex-1">
                                   <h4 className="font-medium line-clamp-1">{item.video_title}</h4>
-                                  {item.channel_title && (
-                                    <p className="text-sm text-muted-foreground">{item.channel_title}</p>
+                                  <p className="text-sm text-muted-foreground">
+                                    {item.source_type === 'youtube' && item.channel_title
+                                      ? item.channel_title
+                                      : SOURCE_LABELS[item.source_type]}
+                                  </p>
+                                </div>
+                                <div className="flex gap-1">
+                                  {item.priority !== 0 && (
+                                    <Badge variant={item.priority > 0 ? 'default' : 'outline'}>
+                                      {getPriorityLabel(item.priority)}
+                                    </Badge>
                                   )}
+                                  {getStatusBadge(item.status)}
                                 </div>
-                                {getStatusBadge(item.status)}
                               </div>
 
                               {item.status === 'processing' && (
@@ -436,7 +507,28 @@ export function TranscriptionQueueManager() {
                               )}
 
                               {item.error_message && (
-                                <p className="text-sm text-red-600 mb-2">{item.error_message}</p>
+                                <p className="text-sm text-red-600 mb-2">
+                                  {item.last_error_class === 'permanent' && 'Permanent error: '}
+                                  {item.error_message}
+                                </p>
+                              )}
+
+                              {item.status === 'pending' && item.next_attempt_at && (
+                                <p className="text-xs text-muted-foreground mb-2">
+                                  Attempt {item.attempt_count + 1} scheduled for {format(new Date(item.next_attempt_at), 'MMM dd, HH:mm')}
+                                </p>
+                              )}
+
+                              {(item.status === 'pending' || item.status === 'paused') && item.not_before && new Date(item.not_before) > new Date() && (
+                                <p className="text-xs text-muted-foreground mb-2">
+                                  Starts after {format(new Date(item.not_before), 'MMM dd, HH:mm')}
+                                </p>
+                              )}
+
+                              {expandedAttempts === item.id && (
+                                <div className="mb-2 rounded border p-2">
+                                  <QueueAttemptHistory queueItemId={item.id} attemptCount={item.attempt_count} />
+                                </div>
                               )}
 
                               <div className="flex items-center justify-between">
@@ -448,12 +540,85 @@ export function TranscriptionQueueManager() {
                                 </div>
 
                                 <div className="flex gap-2">
+                                  {(item.status === 'pending' || item.status === 'paused') && (
+                                    <>
+                                      <Select
+                                        value={String(item.priority)}
+                                        onValueChange={(value) => setItemPriority(item.id, Number(value))}
+                                      >
+                                        <SelectTrigger className="h-9 w-[110px]">
+                                          <SelectValue>{getPriorityLabel(item.priority)}</SelectValue>
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                          {PRIORITY_OPTIONS.map((option) => (
+                                            <SelectItem key={option.value} value={String(option.value)}>
+                                              {option.label}
+                                            </SelectItem>
+                                          ))}
+                                        </SelectContent>
+                                      </Select>
+                                      <Popover
+                                        onOpenChange={(open) => {
+                                          if (open) {
+                                            setScheduleDrafts(drafts => ({
+                                              ...drafts,
+                                              [item.id]: item.not_before ? format(new Date(item.not_before), "yyyy-MM-dd'T'HH:mm") : '',
+                                            }));
+                                          }
+                                        }}
+                                      >
+                                        <PopoverTrigger asChild>
+                                          <Button variant="ghost" size="sm" title="Schedule">
+                                            <CalendarClock className="h-4 w-4" />
+                                          </Button>
+                                        </PopoverTrigger>
+                                        <PopoverContent className="w-72 space-y-3" align="end">
+                                          <div className="space-y-2">
+                                            <Label htmlFor={`not-before-${item.id}`}>Don't start before</Label>
+                                            <Input
+                                              id={`not-before-${item.id}`}
+                                              type="datetime-local"
+                                              value={scheduleDrafts[item.id] ?? ''}
+                                              onChange={(e) => setScheduleDrafts(drafts => ({ ...drafts, [item.id]: e.target.value }))}
+                                            />
+                                          </div>
+                                          <div className="flex justify-end gap-2">
+                                            <Button
+                                              variant="outline"
+                                              size="sm"
+                                              disabled={!item.not_before}
+                                              onClick={() => setItemSchedule(item.id, null)}
+                                            >
+                                              Clear
+                                            </Button>
+                                            <Button
+                                              size="sm"
+                                              disabled={!scheduleDrafts[item.id]}
+                                              onClick={() => setItemSchedule(item.id, new Date(scheduleDrafts[item.id]).toISOString())}
+                                            >
+                                              Save
+                                            </Button>
+                                          </div>
+                                        </PopoverContent>
+                                      </Popover>
+                                    </>
+                                  )}
+                                  {item.attempt_count > 0 && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => setExpandedAttempts(expandedAttempts === item.id ? null : item.id)}
+                                      title="Attempt history"
+                                    >
+                                      <History className="h-4 w-4 mr-1" />
+                                      {item.attempt_count}
+                                    </Button>
+                                  )}
                                   {item.status === 'pending' && (
                                     <Button
                                       variant="ghost"
                                       size="sm"
                                       onClick={() => pauseItem(item.id)}
-                                      disabled={isProcessing}
                                     >
                                       <Pause className="h-4 w-4" />
                                     </Button>
@@ -463,17 +628,15 @@ export function TranscriptionQueueManager() {
                                       variant="ghost"
                                       size="sm"
                                       onClick={() => resumeItem(item.id)}
-                                      disabled={isProcessing}
                                     >
                                       <Play className="h-4 w-4" />
                                     </Button>
                                   )}
-                                  {item.status === 'failed' && (
+                                  {(item.status === 'failed' || item.status === 'dead_letter') && (
                                     <Button
                                       variant="ghost"
                                       size="sm"
                                       onClick={() => retryItem(item.id)}
-                                      disabled={isProcessing}
                                     >
                                       <RefreshCw className="h-4 w-4" />
                                     </Button>
@@ -494,7 +657,7 @@ export function TranscriptionQueueManager() {
                                     variant="ghost"
                                     size="sm"
                                     onClick={() => deleteItem(item.id)}
-                                    disabled={isProcessing && item.status === 'processing'}
+                                    disabled={item.status === 'processing'}
                                   >
                                     <Trash2 className="h-4 w-4" />
                                   </Button>
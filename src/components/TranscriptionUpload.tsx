@@ -13,9 +13,18 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { toast } from "sonner";
 import { Upload, FileAudio, Loader2, Youtube, AlertTriangle, Shield, Eye, History, CheckCircle2, XCircle, Subtitles, AlertCircle, Search, ExternalLink } from "lucide-react";
 import { calculateFileChecksum } from "@/lib/checksumUtils";
+import { WHISPER_MAX_UPLOAD_BYTES } from "@/lib/audioChunking";
+import { queueAudioTranscription } from "@/lib/transcriptionQueue";
+import { extractVideoId, isYouTubeCollectionUrl } from "@/lib/youtubeUrls";
+import { getLanguageName, TRANSLATION_LANGUAGES } from "@/lib/languages";
 import { format } from "date-fns";
 import { useTranscriptionProgress } from "@/hooks/useTranscriptionProgress";
 import { useBatchTranscriptionProgress } from "@/hooks/useBatchTranscriptionProgress";
+import { useQueueItem } from "@/hooks/useQueueItem";
+import { YouTubeImport } from "@/components/YouTubeImport";
+
+// Larger files are transcribed in chunks, but still have to be decoded in the browser
+const MAX_UPLOAD_BYTES = 500 * 1024 * 1024;
 
 interface TranscriptionResult {
   text: string;
@@ -41,6 +50,7 @@ export function TranscriptionUpload() {
   const [progress, setProgress] = useState(0);
   const [result, setResult] = useState<TranscriptionResult | null>(null);
   const [mode, setMode] = useState<'transcribe' | 'translate'>('transcribe');
+  const [targetLanguage, setTargetLanguage] = useState("en");
   const [captionStatus, setCaptionStatus] = useState<{
     checking: boolean;
     available: boolean | null;
@@ -70,13 +80,10 @@ export function TranscriptionUpload() {
     message: string;
   }>>([]);
   const [forceTranscribe, setForceTranscribe] = useState(false);
+  const [queuedItemId, setQueuedItemId] = useState<string | null>(null);
+  const queuedItem = useQueueItem(queuedItemId);
   
   // Extract video ID for progress tracking
-  const extractVideoId = (url: string): string | null => {
-    const match = url.match(/(?:youtube\.com\/watch\?v=|youtu\.be\/)([^&\n?#]+)/);
-    return match ? match[1] : null;
-  };
-  
   const currentVideoId = youtubeUrl ? extractVideoId(youtubeUrl) : null;
   const progressUpdate = useTranscriptionProgress(currentVideoId);
 
@@ -96,12 +103,33 @@ export function TranscriptionUpload() {
     }
   }, [progressUpdate, isProcessing]);
 
+  // Uploads run in the transcription queue; show the result once the queued job finishes
+  useEffect(() => {
+    if (!queuedItem) return;
+
+    if (queuedItem.status === 'completed') {
+      setResult({
+        text: queuedItem.result_text ?? '',
+        duration: queuedItem.result_duration ?? undefined,
+        language: queuedItem.result_language ?? undefined,
+        logId: queuedItem.transcription_log_id ?? undefined,
+      });
+      setQueuedItemId(null);
+      toast.success(queuedItem.target_language
+        ? 'Translation completed successfully!'
+        : 'Transcription completed successfully!');
+    } else if (queuedItem.status === 'failed' || queuedItem.status === 'dead_letter') {
+      setQueuedItemId(null);
+      toast.error(queuedItem.error_message || 'Failed to transcribe audio');
+    }
+  }, [queuedItem]);
+
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
-      // Check file size (max 25MB for Whisper API)
-      if (selectedFile.size > 25 * 1024 * 1024) {
-        toast.error("File size must be less than 25MB");
+      // Check file size (files over Whisper's 25MB limit are transcribed in chunks)
+      if (selectedFile.size > MAX_UPLOAD_BYTES) {
+        toast.error("File size must be less than 500MB");
         return;
       }
       
@@ -115,6 +143,10 @@ export function TranscriptionUpload() {
         return;
       }
 
+      if (selectedFile.size > WHISPER_MAX_UPLOAD_BYTES) {
+        toast.info("Large file - it will be transcribed in parts");
+      }
+
       setFile(selectedFile);
       setResult(null);
       setDuplicateWarning(null);
@@ -194,54 +226,28 @@ export function TranscriptionUpload() {
       }
     }
 
+    if (file.size > WHISPER_MAX_UPLOAD_BYTES && mode === 'translate') {
+      toast.error("Translation is limited to files under 25MB");
+      return;
+    }
+
     setIsProcessing(true);
-    setProgress(0);
     setResult(null);
 
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        toast.error("You must be logged in to transcribe files");
-        return;
+      // Large files are split into parts before queueing, which can take a while in the browser
+      if (file.size > WHISPER_MAX_UPLOAD_BYTES) {
+        toast.info("Splitting audio into parts...");
       }
 
-      // Simulate progress
-      const progressInterval = setInterval(() => {
-        setProgress((prev) => Math.min(prev + 10, 90));
-      }, 500);
-
-      const formData = new FormData();
-      formData.append("file", file);
-      formData.append("fileName", file.name);
-      formData.append("fileChecksum", fileChecksum);
-
-      const functionName = mode === 'translate' ? 'translate-audio' : 'transcribe-audio';
-      const { data, error } = await supabase.functions.invoke(functionName, {
-        body: formData,
+      const queueItemId = await queueAudioTranscription(file, {
+        fileName: file.name,
+        fileChecksum,
+        targetLanguage: mode === 'translate' ? targetLanguage : undefined,
       });
 
-      clearInterval(progressInterval);
-      setProgress(100);
-
-      if (error) {
-        throw error;
-      }
-
-      if (data.error) {
-        throw new Error(data.error);
-      }
-
-      setResult({
-        text: data.text,
-        duration: data.duration,
-        language: data.language,
-        logId: data.logId,
-      });
-
-      const successMessage = mode === 'translate' 
-        ? 'Translation completed successfully!' 
-        : 'Transcription completed successfully!';
-      toast.success(successMessage);
+      setQueuedItemId(queueItemId);
+      toast.success('Added to the transcription queue');
     } catch (error: any) {
       console.error('Processing error:', error);
       const errorMessage = mode === 'translate' 
@@ -250,62 +256,32 @@ export function TranscriptionUpload() {
       toast.error(error.message || errorMessage);
     } finally {
       setIsProcessing(false);
-      setProgress(0);
     }
   };
 
-  const getLanguageName = (code: string): string => {
-    const languageNames: { [key: string]: string } = {
-      'en': 'English',
-      'es': 'Spanish',
-      'fr': 'French',
-      'de': 'German',
-      'it': 'Italian',
-      'pt': 'Portuguese',
-      'ru': 'Russian',
-      'ja': 'Japanese',
-      'ko': 'Korean',
-      'zh': 'Chinese (Simplified)',
-      'zh-Hans': 'Chinese (Simplified)',
-      'zh-Hant': 'Chinese (Traditional)',
-      'ar': 'Arabic',
-      'hi': 'Hindi',
-      'nl': 'Dutch',
-      'pl': 'Polish',
-      'tr': 'Turkish',
-      'sv': 'Swedish',
-      'da': 'Danish',
-      'fi': 'Finnish',
-      'no': 'Norwegian',
-      'cs': 'Czech',
-      'el': 'Greek',
-      'he': 'Hebrew',
-      'id': 'Indonesian',
-      'th': 'Thai',
-      'vi': 'Vietnamese',
-      'uk': 'Ukrainian',
-      'ro': 'Romanian',
-      'hu': 'Hungarian',
-      'bg': 'Bulgarian',
-    };
-    return languageNames[code] || code.toUpperCase();
-  };
-
   const addDebugLog = (type: 'info' | 'success' | 'error' | 'warning', message: string) => {
     const timestamp = new Date().toLocaleTimeString();
     setDebugLogs(prev => [...prev, { timestamp, type, message }]);
   };
 
   const checkCaptionAvailability = async (url: string) => {
+    if (isYouTubeCollectionUrl(url)) {
+      setCaptionStatus({
+        checking: false,
+        available: null,
+        message: "This is a playlist or channel link. Use Import Playlist or Channel above to choose which videos to transcribe",
+      });
+      return;
+    }
+
     // Extract video ID from URL
-    const videoIdMatch = url.match(/(?:youtube\.com\/watch\?v=|youtu\.be\/)([^&\n?#]+)/);
-    if (!videoIdMatch) {
+    const videoId = extractVideoId(url);
+    if (!videoId) {
       setCaptionStatus({ checking: false, available: null, message: "Invalid YouTube URL" });
       addDebugLog('error', 'Invalid YouTube URL format');
       return;
     }
 
-    const videoId = videoIdMatch[1];
     setDebugLogs([]); // Clear previous logs
     addDebugLog('info', `Starting caption check for video: ${videoId}`);
     addDebugLog('info', `Video URL: ${url}`);
@@ -511,12 +487,10 @@ export function TranscriptionUpload() {
     let cleanedUrl = url.trim();
     
     // If there are multiple URLs or fragments, extract just the first valid YouTube URL
-    const youtubePattern = /(https?:\/\/)?(www\.)?(youtube\.com\/watch\?v=|youtu\.be\/)([a-zA-Z0-9_-]{11})/;
-    const match = cleanedUrl.match(youtubePattern);
+    const videoId = cleanedUrl.split(/\s+/).map(extractVideoId).find(Boolean);
     
-    if (match) {
+    if (videoId) {
       // Reconstruct a clean YouTube URL from the matched video ID
-      const videoId = match[4];
       cleanedUrl = `https://www.youtube.com/watch?v=${videoId}`;
     }
     
@@ -690,14 +664,16 @@ export function TranscriptionUpload() {
     }
 
     // Validate and clean the URL one more time before submission
-    const videoIdMatch = youtubeUrl.match(/(?:youtube\.com\/watch\?v=|youtu\.be\/)([a-zA-Z0-9_-]{11})/);
-    if (!videoIdMatch) {
-      toast.error("Invalid YouTube URL format. Please enter a valid YouTube video URL.");
+    const videoId = extractVideoId(youtubeUrl);
+    if (!videoId) {
+      toast.error(isYouTubeCollectionUrl(youtubeUrl)
+        ? "This is a playlist or channel URL. Use Import Playlist or Channel to choose videos."
+        : "Invalid YouTube URL format. Please enter a valid YouTube video URL.");
       return;
     }
     
     // Ensure we're using a clean URL
-    const cleanUrl = `https://www.youtube.com/watch?v=${videoIdMatch[1]}`;
+    const cleanUrl = `https://www.youtube.com/watch?v=${videoId}`;
     if (cleanUrl !== youtubeUrl) {
       console.log("URL was cleaned from:", youtubeUrl, "to:", cleanUrl);
       setYoutubeUrl(cleanUrl);
@@ -755,11 +731,10 @@ export function TranscriptionUpload() {
         }
 
         // Extract and validate video ID one more time before API call
-        const videoIdMatch = youtubeUrl.match(/(?:youtube\.com\/watch\?v=|youtu\.be\/)([a-zA-Z0-9_-]{11})/);
-        if (!videoIdMatch) {
+        const videoId = extractVideoId(youtubeUrl);
+        if (!videoId) {
           throw new Error("Invalid YouTube URL");
         }
-        const videoId = videoIdMatch[1];
         const cleanUrl = `https://www.youtube.com/watch?v=${videoId}`;
 
         const progressInterval = setInterval(() => {
@@ -861,6 +836,7 @@ export function TranscriptionUpload() {
     setYoutubeUrl("");
     setResult(null);
     setProgress(0);
+    setQueuedItemId(null);
     setMode('transcribe');
     setCaptionStatus({ checking: false, available: null });
     setSelectedLanguage("en");
@@ -906,7 +882,7 @@ export function TranscriptionUpload() {
 
             <TabsContent value="file" className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="audio-file">Select File (Max 25MB)</Label>
+                <Label htmlFor="audio-file">Select File (Max 500MB)</Label>
                 <div className="flex gap-2">
                   <Input
                     id="audio-file"
@@ -1060,25 +1036,57 @@ export function TranscriptionUpload() {
                       disabled={isProcessing}
                       className="flex-1"
                     >
-                      Translate to English
+                      Translate
                     </Button>
                   </div>
                   <p className="text-xs text-muted-foreground">
                     {mode === 'transcribe' 
                       ? 'Keep the original language' 
-                      : 'Translate any language to English'}
+                      : `Translate any language to ${getLanguageName(targetLanguage)}`}
                   </p>
                 </div>
+
+                {mode === 'translate' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="target-language">Target Language</Label>
+                    <Select value={targetLanguage} onValueChange={setTargetLanguage} disabled={isProcessing}>
+                      <SelectTrigger id="target-language">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TRANSLATION_LANGUAGES.map(language => (
+                          <SelectItem key={language.code} value={language.code}>
+                            {language.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {targetLanguage !== 'en' && (
+                      <p className="text-xs text-muted-foreground">
+                        The audio is transcribed first, then the transcript is translated and kept alongside it
+                      </p>
+                    )}
+                  </div>
+                )}
               </>
               )}
 
-              {isProcessing && (
+              {queuedItem && (
                 <div className="space-y-2">
                   <div className="flex items-center gap-2">
                     <Loader2 className="h-4 w-4 animate-spin" />
-                    <span className="text-sm text-muted-foreground">Processing transcription...</span>
+                    <span className="text-sm text-muted-foreground">
+                      {queuedItem.status === 'processing'
+                        ? 'Processing transcription...'
+                        : queuedItem.next_attempt_at
+                          ? 'Waiting to retry...'
+                          : 'Waiting in the queue...'}
+                    </span>
                   </div>
-                  <Progress value={progress} />
+                  <Progress value={queuedItem.progress ?? 0} />
+                  <p className="text-xs text-muted-foreground">
+                    This runs in the background, so you can queue more files or leave this page
+                  </p>
                 </div>
               )}
 
@@ -1097,7 +1105,7 @@ export function TranscriptionUpload() {
                 {isProcessing ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    {mode === 'translate' ? 'Translating...' : 'Transcribing...'}
+                    Adding to queue...
                   </>
                 ) : isValidating ? (
                   <>
@@ -1320,6 +1328,8 @@ export function TranscriptionUpload() {
                 )}
               </div>
 
+              <YouTubeImport />
+
               <div className="space-y-2">
                 <Label htmlFor="youtube-url">YouTube URL</Label>
                 <div className="flex gap-2">
@@ -1730,7 +1740,7 @@ export function TranscriptionUpload() {
             {result.duration && (
               <CardDescription>
                 Duration: {Math.round(result.duration)}s | Language: {result.language || "Unknown"}
-                {mode === 'translate' && ' (translated to English)'}
+                {mode === 'translate' && ` (translated to ${getLanguageName(targetLanguage)})`}
               </CardDescription>
             )}
           </CardHeader>
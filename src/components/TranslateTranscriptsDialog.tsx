@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Languages, Loader2 } from "lucide-react";
+import { logTranscriptTranslate } from "@/lib/activityLogger";
+import { getLanguageName, TRANSLATION_LANGUAGES } from "@/lib/languages";
+import { queueTranslations } from "@/lib/translationQueue";
+
+interface TranslatableLog {
+  id: string;
+  file_title: string;
+  status: string;
+  transcription_text?: string | null;
+}
+
+interface TranslateTranscriptsDialogProps {
+  logs: TranslatableLog[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Queues background translations of existing transcriptions into a chosen language.
+ * Progress shows up in the transcription queue and results are attached to each source log.
+ */
+export function TranslateTranscriptsDialog({ logs, open, onOpenChange }: TranslateTranscriptsDialogProps) {
+  const [targetLanguage, setTargetLanguage] = useState("es");
+  const [isQueueing, setIsQueueing] = useState(false);
+
+  const translatableLogs = logs.filter(log => log.status === 'completed' && log.transcription_text);
+  const skippedCount = logs.length - translatableLogs.length;
+
+  const handleQueue = async () => {
+    setIsQueueing(true);
+    try {
+      const queued = await queueTranslations(translatableLogs, targetLanguage);
+      await Promise.all(translatableLogs.map(log => logTranscriptTranslate(log.id, log.file_title, targetLanguage)));
+
+      toast.success(`Translating ${queued} transcription${queued !== 1 ? 's' : ''} to ${getLanguageName(targetLanguage)} in the background`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error queueing translations:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to queue translations');
+    } finally {
+      setIsQueueing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Languages className="h-5 w-5" />
+            Translate {logs.length === 1 ? logs[0].file_title : `${logs.length} Transcriptions`}
+          </DialogTitle>
+          <DialogDescription>
+            Translations run in the background and are attached to the original transcription
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="translate-target-language">Target Language</Label>
+          <Select value={targetLanguage} onValueChange={setTargetLanguage} disabled={isQueueing}>
+            <SelectTrigger id="translate-target-language">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRANSLATION_LANGUAGES.map(language => (
+                <SelectItem key={language.code} value={language.code}>
+                  {language.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {skippedCount > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {skippedCount} selected item{skippedCount !== 1 ? 's have' : ' has'} no completed transcript and will be skipped
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isQueueing}>
+            Cancel
+          </Button>
+          <Button onClick={handleQueue} disabled={isQueueing || translatableLogs.length === 0}>
+            {isQueueing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Translate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
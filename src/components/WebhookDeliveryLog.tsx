@@ -0,0 +1,155 @@
+import { Fragment, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { Loader2, RotateCw } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { WebhookDelivery, fetchWebhookDeliveries, replayWebhookDelivery } from "@/lib/webhooks";
+
+interface WebhookDeliveryLogProps {
+  endpointId: string;
+}
+
+const statusVariant = (status: WebhookDelivery['status']) => {
+  switch (status) {
+    case 'succeeded':
+      return 'default' as const;
+    case 'failed':
+      return 'destructive' as const;
+    default:
+      return 'secondary' as const;
+  }
+};
+
+export const WebhookDeliveryLog = ({ endpointId }: WebhookDeliveryLogProps) => {
+  const queryClient = useQueryClient();
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: deliveries, isLoading } = useQuery({
+    queryKey: ["webhook-deliveries", endpointId],
+    queryFn: () => fetchWebhookDeliveries(endpointId),
+    // Pending deliveries are retried in the background
+    refetchInterval: 30000,
+  });
+
+  const handleReplay = async (delivery: WebhookDelivery) => {
+    setReplayingId(delivery.id);
+    try {
+      const replay = await replayWebhookDelivery(delivery.id);
+      if (replay.status === 'succeeded') {
+        toast.success("Delivery replayed successfully");
+      } else {
+        toast.error(`Replay failed: ${replay.error_message || "Unknown error"}`);
+      }
+      queryClient.invalidateQueries({ queryKey: ["webhook-deliveries", endpointId] });
+    } catch (error) {
+      console.error("Error replaying webhook delivery:", error);
+      toast.error("Failed to replay delivery");
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-20">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!deliveries || deliveries.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-4">
+        No deliveries yet
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Event</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Attempts</TableHead>
+          <TableHead>Response</TableHead>
+          <TableHead>Sent</TableHead>
+          <TableHead className="text-right">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {deliveries.map((delivery) => (
+          <Fragment key={delivery.id}>
+            <TableRow
+              className="cursor-pointer"
+              onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+            >
+              <TableCell className="font-mono text-xs">
+                {delivery.event}
+                {delivery.replay_of && (
+                  <Badge variant="outline" className="ml-2 text-xs">replay</Badge>
+                )}
+              </TableCell>
+              <TableCell>
+                <Badge variant={statusVariant(delivery.status)}>{delivery.status}</Badge>
+              </TableCell>
+              <TableCell>{delivery.attempt_count}</TableCell>
+              <TableCell className="text-xs">
+                {delivery.response_status ?? delivery.error_message ?? "—"}
+              </TableCell>
+              <TableCell className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(delivery.created_at), { addSuffix: true })}
+                {delivery.status === 'pending' && delivery.next_attempt_at && (
+                  <div>next retry {formatDistanceToNow(new Date(delivery.next_attempt_at), { addSuffix: true })}</div>
+                )}
+              </TableCell>
+              <TableCell className="text-right">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={replayingId !== null}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleReplay(delivery);
+                  }}
+                >
+                  {replayingId === delivery.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RotateCw className="h-4 w-4" />
+                  )}
+                  <span className="ml-1">Replay</span>
+                </Button>
+              </TableCell>
+            </TableRow>
+            {expandedId === delivery.id && (
+              <TableRow>
+                <TableCell colSpan={6} className="bg-muted/50">
+                  <div className="space-y-2 text-xs">
+                    <div>
+                      <span className="font-semibold">Payload</span>
+                      <pre className="mt-1 p-2 rounded bg-background overflow-x-auto">
+                        {JSON.stringify({ id: delivery.id, ...(delivery.payload as object) }, null, 2)}
+                      </pre>
+                    </div>
+                  </div>
+                </TableCell>
+              </TableRow>
+            )}
+          </Fragment>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
@@ -0,0 +1,370 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, ListVideo, Subtitles, CheckCircle2, AlertCircle, Youtube, Trash2, Eye } from "lucide-react";
+import { format } from "date-fns";
+import { TRANSLATION_LANGUAGES, getLanguageName } from "@/lib/languages";
+import { isYouTubeCollectionUrl } from "@/lib/youtubeUrls";
+import { queueYouTubeVideos } from "@/lib/transcriptionQueue";
+import {
+  ChannelWatch,
+  YouTubeImport as YouTubeImportData,
+  deleteChannelWatch,
+  fetchChannelWatches,
+  importYouTubeUrl,
+  setChannelWatchEnabled,
+  watchChannel,
+} from "@/lib/youtubeImport";
+
+export function YouTubeImport() {
+  const [showImport, setShowImport] = useState(false);
+  const [importUrl, setImportUrl] = useState("");
+  const [language, setLanguage] = useState("en");
+  const [isLoading, setIsLoading] = useState(false);
+  const [imported, setImported] = useState<YouTubeImportData | null>(null);
+  const [selectedVideos, setSelectedVideos] = useState<Set<string>>(new Set());
+  const [isQueueing, setIsQueueing] = useState(false);
+  const [watches, setWatches] = useState<ChannelWatch[]>([]);
+
+  const loadWatches = useCallback(async () => {
+    try {
+      setWatches(await fetchChannelWatches());
+    } catch (error) {
+      console.error('Error loading channel watches:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadWatches();
+  }, [loadWatches]);
+
+  const handleImport = async () => {
+    if (!isYouTubeCollectionUrl(importUrl)) {
+      toast.error("Enter a YouTube playlist or channel URL");
+      return;
+    }
+
+    setIsLoading(true);
+    setImported(null);
+    setSelectedVideos(new Set());
+
+    try {
+      const data = await importYouTubeUrl(importUrl.trim(), language);
+      setImported(data);
+      // Start with the videos that have captions selected
+      setSelectedVideos(new Set(data.results.filter(v => v.captions.available).map(v => v.videoId)));
+      if (data.results.length === 0) {
+        toast.info(`No videos found in this ${data.source.kind}`);
+      }
+    } catch (error) {
+      console.error('Error importing from YouTube:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load videos');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleVideoSelection = (videoId: string) => {
+    setSelectedVideos(prev => {
+      const next = new Set(prev);
+      if (next.has(videoId)) {
+        next.delete(videoId);
+      } else {
+        next.add(videoId);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    if (!imported) return;
+    setSelectedVideos(selectedVideos.size === imported.results.length
+      ? new Set()
+      : new Set(imported.results.map(v => v.videoId)));
+  };
+
+  const handleQueueSelected = async () => {
+    if (!imported || selectedVideos.size === 0) return;
+
+    setIsQueueing(true);
+    try {
+      const videos = imported.results.filter(v => selectedVideos.has(v.videoId));
+      const queued = await queueYouTubeVideos(videos, language);
+      const skipped = videos.length - queued;
+      toast.success(
+        `Added ${queued} video${queued !== 1 ? 's' : ''} to the queue` +
+        (skipped > 0 ? ` (${skipped} already queued)` : '')
+      );
+      setSelectedVideos(new Set());
+    } catch (error) {
+      console.error('Error queueing videos:', error);
+      toast.error('Failed to queue videos');
+    } finally {
+      setIsQueueing(false);
+    }
+  };
+
+  const currentWatch = imported?.source.kind === 'channel'
+    ? watches.find(watch => watch.channel_id === imported.source.id)
+    : undefined;
+
+  const handleWatchChange = async (enabled: boolean) => {
+    if (!imported) return;
+
+    try {
+      if (enabled) {
+        // Everything listed here is the user's to pick from; only later uploads are queued automatically
+        const latestPublishedAt = imported.results.reduce<string | null>(
+          (latest, video) => (!latest || video.publishedAt > latest ? video.publishedAt : latest),
+          null
+        );
+        await watchChannel(imported.source, language, latestPublishedAt);
+        toast.success(`New uploads from ${imported.source.title} will be queued automatically`);
+      } else if (currentWatch) {
+        await setChannelWatchEnabled(currentWatch.id, false);
+        toast.success(`Stopped watching ${imported.source.title}`);
+      }
+      await loadWatches();
+    } catch (error) {
+      console.error('Error updating channel watch:', error);
+      toast.error('Failed to update channel watch');
+    }
+  };
+
+  const handleToggleWatch = async (watch: ChannelWatch, enabled: boolean) => {
+    try {
+      await setChannelWatchEnabled(watch.id, enabled);
+      await loadWatches();
+    } catch (error) {
+      console.error('Error updating channel watch:', error);
+      toast.error('Failed to update channel watch');
+    }
+  };
+
+  const handleDeleteWatch = async (watch: ChannelWatch) => {
+    try {
+      await deleteChannelWatch(watch.id);
+      setWatches(prev => prev.filter(w => w.id !== watch.id));
+      toast.success(`Stopped watching ${watch.channel_title}`);
+    } catch (error) {
+      console.error('Error deleting channel watch:', error);
+      toast.error('Failed to remove channel watch');
+    }
+  };
+
+  return (
+    <div className="space-y-3 pb-4 border-b">
+      <div className="flex items-center justify-between">
+        <Label className="text-base font-semibold">Import Playlist or Channel</Label>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setShowImport(!showImport)}
+        >
+          {showImport ? 'Hide Import' : 'Show Import'}
+        </Button>
+      </div>
+
+      {showImport && (
+        <div className="space-y-3 p-4 bg-muted/50 rounded-lg">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="md:col-span-2 space-y-2">
+              <Label htmlFor="import-url">Playlist or Channel URL</Label>
+              <Input
+                id="import-url"
+                type="url"
+                placeholder="https://www.youtube.com/playlist?list=... or https://www.youtube.com/@channel"
+                value={importUrl}
+                onChange={(e) => setImportUrl(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleImport()}
+                disabled={isLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-language">Caption Language</Label>
+              <Select value={language} onValueChange={setLanguage} disabled={isLoading}>
+                <SelectTrigger id="import-language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TRANSLATION_LANGUAGES.map(lang => (
+                    <SelectItem key={lang.code} value={lang.code}>
+                      {lang.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Button
+            onClick={handleImport}
+            disabled={!importUrl.trim() || isLoading}
+            className="w-full"
+          >
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Loading videos...
+              </>
+            ) : (
+              <>
+                <ListVideo className="mr-2 h-4 w-4" />
+                Load Videos
+              </>
+            )}
+          </Button>
+
+          {imported && imported.results.length > 0 && (
+            <div className="space-y-3 mt-4">
+              <div className="flex items-center justify-between gap-2">
+                <Label className="text-sm font-semibold line-clamp-1">
+                  {imported.source.title} ({imported.results.length})
+                </Label>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={toggleSelectAll}
+                    disabled={isQueueing}
+                  >
+                    {selectedVideos.size === imported.results.length ? 'Deselect All' : 'Select All'}
+                  </Button>
+                  {selectedVideos.size > 0 && (
+                    <Button size="sm" onClick={handleQueueSelected} disabled={isQueueing}>
+                      {isQueueing ? (
+                        <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                      ) : (
+                        <Youtube className="mr-2 h-3 w-3" />
+                      )}
+                      Queue {selectedVideos.size} Selected
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {imported.source.kind === 'channel' && (
+                <div className="flex items-center justify-between rounded-lg border bg-background p-3">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="watch-channel" className="flex items-center gap-2">
+                      <Eye className="h-4 w-4" />
+                      Watch this channel
+                    </Label>
+                    <p className="text-xs text-muted-foreground">
+                      Queue new uploads automatically, with {getLanguageName(language)} captions
+                    </p>
+                  </div>
+                  <Switch
+                    id="watch-channel"
+                    checked={currentWatch?.enabled ?? false}
+                    onCheckedChange={handleWatchChange}
+                  />
+                </div>
+              )}
+
+              <div className="max-h-96 overflow-y-auto space-y-2">
+                {imported.results.map((video) => {
+                  const isSelected = selectedVideos.has(video.videoId);
+
+                  return (
+                    <Card
+                      key={video.videoId}
+                      className={`transition-colors ${isSelected ? 'border-primary bg-primary/5' : 'hover:bg-accent/50'}`}
+                    >
+                      <CardContent className="p-3">
+                        <div className="flex gap-3">
+                          <div className="flex items-start pt-1">
+                            <Checkbox
+                              checked={isSelected}
+                              onCheckedChange={() => toggleVideoSelection(video.videoId)}
+                              disabled={isQueueing}
+                            />
+                          </div>
+                          {video.thumbnail && (
+                            <img
+                              src={video.thumbnail}
+                              alt={video.title}
+                              className="w-32 h-20 object-cover rounded flex-shrink-0"
+                            />
+                          )}
+                          <div className="flex-1 min-w-0">
+                            <h4 className="font-medium text-sm line-clamp-2 mb-1">{video.title}</h4>
+                            <p className="text-xs text-muted-foreground mb-2">
+                              {video.channelTitle} · {format(new Date(video.publishedAt), 'MMM dd, yyyy')}
+                            </p>
+                            <div className="flex items-center gap-2 flex-wrap">
+                              {video.captions.available ? (
+                                <div className="flex items-center gap-1 text-xs">
+                                  <Subtitles className="h-3 w-3 text-green-600" />
+                                  <span className="text-green-600 font-medium">
+                                    {video.captions.languages.length} caption{video.captions.languages.length !== 1 ? 's' : ''}
+                                  </span>
+                                </div>
+                              ) : (
+                                <div className="flex items-center gap-1 text-xs">
+                                  <AlertCircle className="h-3 w-3 text-yellow-600" />
+                                  <span className="text-yellow-600 font-medium">No captions</span>
+                                </div>
+                              )}
+                              {video.captions.hasRequestedLanguage && (
+                                <div className="flex items-center gap-1 text-xs">
+                                  <CheckCircle2 className="h-3 w-3 text-blue-600" />
+                                  <span className="text-blue-600 font-medium">Target language</span>
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {watches.length > 0 && (
+            <div className="space-y-2 mt-4">
+              <Label className="text-sm font-semibold">Watched Channels</Label>
+              {watches.map((watch) => (
+                <div key={watch.id} className="flex items-center justify-between gap-2 rounded-lg border bg-background p-3">
+                  <div className="min-w-0">
+                    <a
+                      href={watch.channel_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm font-medium hover:underline line-clamp-1"
+                    >
+                      {watch.channel_title}
+                    </a>
+                    <p className="text-xs text-muted-foreground">
+                      {getLanguageName(watch.language)} ·{' '}
+                      {watch.last_checked_at
+                        ? `Checked ${format(new Date(watch.last_checked_at), 'MMM dd, HH:mm')}`
+                        : 'Not checked yet'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={watch.enabled}
+                      onCheckedChange={(enabled) => handleToggleWatch(watch, enabled)}
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => handleDeleteWatch(watch)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
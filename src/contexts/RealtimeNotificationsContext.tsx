@@ -1,113 +1,164 @@
-import { createContext, useContext, useEffect, useState, ReactNode } from "react";
+import { createContext, useContext, useEffect, useState, useCallback, ReactNode } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { FileAudio, Settings, Shield, LogIn, Upload, Activity } from "lucide-react";
-
-interface ActivityLog {
-  id: string;
-  action_type: string;
-  action_description: string;
-  metadata: any;
-  created_at: string;
-  user_id: string;
-}
+import {
+  AppNotification,
+  fetchNotifications,
+  countUnreadNotifications,
+  setNotificationRead,
+  markAllNotificationsRead,
+  setNotificationArchived,
+  getNotificationIcon,
+} from "@/lib/notifications";
 
 interface RealtimeNotificationsContextType {
-  recentActivities: ActivityLog[];
+  notifications: AppNotification[];
   unreadCount: number;
-  markAsRead: () => void;
+  markAsRead: (id: string) => Promise<void>;
+  markAsUnread: (id: string) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+  archive: (id: string) => Promise<void>;
+  refresh: () => Promise<void>;
 }
 
 const RealtimeNotificationsContext = createContext<RealtimeNotificationsContextType | undefined>(undefined);
 
-const getActivityIcon = (actionType: string) => {
-  switch (actionType) {
-    case "login":
-      return LogIn;
-    case "transcription":
-      return FileAudio;
-    case "upload":
-      return Upload;
-    case "settings":
-      return Settings;
-    case "admin":
-      return Shield;
-    default:
-      return Activity;
-  }
-};
+const RECENT_LIMIT = 10;
 
 export const RealtimeNotificationsProvider = ({ children }: { children: ReactNode }) => {
-  const [recentActivities, setRecentActivities] = useState<ActivityLog[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
 
   useEffect(() => {
-    let userId: string | null = null;
-
-    // Get current user
-    const initUser = async () => {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (user) {
-        userId = user.id;
-        
-        // Fetch initial recent activities
-        const { data } = await supabase
-          .from("activity_logs")
-          .select("*")
-          .eq("user_id", user.id)
-          .order("created_at", { ascending: false })
-          .limit(10);
-
-        if (data) {
-          setRecentActivities(data);
-        }
-      }
-    };
+    supabase.auth.getUser().then(({ data: { user } }) => setUserId(user?.id ?? null));
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user?.id ?? null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setNotifications([]);
+      setUnreadCount(0);
+      return;
+    }
 
-    initUser();
+    try {
+      const [recent, unread] = await Promise.all([
+        fetchNotifications({ limit: RECENT_LIMIT }),
+        countUnreadNotifications(),
+      ]);
+      setNotifications(recent);
+      setUnreadCount(unread);
+    } catch (error) {
+      console.error("Error loading notifications:", error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refresh();
+    if (!userId) return;
 
-    // Subscribe to real-time updates
+    let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+    // Subscribe once the user is known, so the filter only matches their notifications
     const channel = supabase
-      .channel('activity-logs-realtime')
+      .channel(`notifications-${userId}`)
       .on(
         'postgres_changes',
         {
           event: 'INSERT',
           schema: 'public',
-          table: 'activity_logs',
-          filter: userId ? `user_id=eq.${userId}` : undefined,
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`,
         },
         (payload) => {
-          const newActivity = payload.new as ActivityLog;
-          
-          // Only show notification if it's for the current user
-          if (userId && newActivity.user_id === userId) {
-            // Add to recent activities
-            setRecentActivities((prev) => [newActivity, ...prev.slice(0, 9)]);
-            setUnreadCount((prev) => prev + 1);
-
-            // Show toast notification
-            const Icon = getActivityIcon(newActivity.action_type);
-            toast(newActivity.action_description, {
-              icon: <Icon className="h-4 w-4" />,
-              description: new Date(newActivity.created_at).toLocaleString(),
-            });
-          }
+          const notification = payload.new as AppNotification;
+          setNotifications((prev) => [notification, ...prev.slice(0, RECENT_LIMIT - 1)]);
+          setUnreadCount((prev) => prev + 1);
+
+          const Icon = getNotificationIcon(notification.type);
+          toast(notification.title, {
+            icon: <Icon className="h-4 w-4" />,
+            description: new Date(notification.created_at).toLocaleString(),
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`,
+        },
+        // Read state changes from another tab or the inbox page. Marking all read updates
+        // every row at once, so recount after the burst instead of once per row
+        () => {
+          if (refreshTimer) clearTimeout(refreshTimer);
+          refreshTimer = setTimeout(refresh, 500);
         }
       )
       .subscribe();
 
     return () => {
+      if (refreshTimer) clearTimeout(refreshTimer);
       supabase.removeChannel(channel);
     };
-  }, []);
+  }, [userId, refresh]);
 
-  const markAsRead = () => {
+  const updateRead = async (id: string, read: boolean) => {
+    const current = notifications.find((n) => n.id === id);
+    const readAt = read ? new Date().toISOString() : null;
+    setNotifications((prev) => prev.map((n) => (n.id === id ? { ...n, read_at: readAt } : n)));
+    if (current && !current.archived_at && Boolean(current.read_at) !== read) {
+      setUnreadCount((prev) => Math.max(0, prev + (read ? -1 : 1)));
+    }
+
+    try {
+      await setNotificationRead(id, read);
+    } catch (error) {
+      console.error("Error updating notification:", error);
+      toast.error("Failed to update notification");
+      await refresh();
+    }
+  };
+
+  const markAsRead = (id: string) => updateRead(id, true);
+  const markAsUnread = (id: string) => updateRead(id, false);
+
+  const markAllAsRead = async () => {
+    const now = new Date().toISOString();
+    setNotifications((prev) => prev.map((n) => ({ ...n, read_at: n.read_at ?? now })));
     setUnreadCount(0);
+
+    try {
+      await markAllNotificationsRead();
+    } catch (error) {
+      console.error("Error marking notifications as read:", error);
+      toast.error("Failed to mark notifications as read");
+      await refresh();
+    }
+  };
+
+  const archive = async (id: string) => {
+    try {
+      await setNotificationArchived(id, true);
+      await refresh();
+    } catch (error) {
+      console.error("Error archiving notification:", error);
+      toast.error("Failed to archive notification");
+    }
   };
 
   return (
-    <RealtimeNotificationsContext.Provider value={{ recentActivities, unreadCount, markAsRead }}>
+    <RealtimeNotificationsContext.Provider
+      value={{ notifications, unreadCount, markAsRead, markAsUnread, markAllAsRead, archive, refresh }}
+    >
       {children}
     </RealtimeNotificationsContext.Provider>
   );
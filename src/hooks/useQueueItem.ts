@@ -0,0 +1,66 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface QueueItemUpdate {
+  id: string;
+  status: string;
+  progress: number | null;
+  error_message: string | null;
+  next_attempt_at: string | null;
+  target_language: string | null;
+  transcription_log_id: string | null;
+  result_text: string | null;
+  result_duration: number | null;
+  result_language: string | null;
+}
+
+export function useQueueItem(queueItemId: string | null) {
+  const [queueItem, setQueueItem] = useState<QueueItemUpdate | null>(null);
+
+  useEffect(() => {
+    if (!queueItemId) {
+      setQueueItem(null);
+      return;
+    }
+
+    // Subscribe to real-time updates for this queue item
+    const channel = supabase
+      .channel(`queue-item-${queueItemId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'transcription_queue',
+          filter: `id=eq.${queueItemId}`
+        },
+        (payload) => {
+          if (payload.new) {
+            setQueueItem(payload.new as QueueItemUpdate);
+          }
+        }
+      )
+      .subscribe();
+
+    // Fetch initial state
+    const fetchInitialState = async () => {
+      const { data } = await supabase
+        .from('transcription_queue')
+        .select('*')
+        .eq('id', queueItemId)
+        .maybeSingle();
+
+      if (data) {
+        setQueueItem(data);
+      }
+    };
+
+    fetchInitialState();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queueItemId]);
+
+  return queueItem;
+}
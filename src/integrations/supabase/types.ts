@@ -220,6 +220,7 @@ export type Database = {
           inapp_transcription_failed: boolean
           updated_at: string
           user_id: string
+          weekly_summary_sent_at: string | null
         }
         Insert: {
           created_at?: string
@@ -234,6 +235,7 @@ export type Database = {
           inapp_transcription_failed?: boolean
           updated_at?: string
           user_id: string
+          weekly_summary_sent_at?: string | null
         }
         Update: {
           created_at?: string
@@ -248,6 +250,43 @@ export type Database = {
           inapp_transcription_failed?: boolean
           updated_at?: string
           user_id?: string
+          weekly_summary_sent_at?: string | null
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          archived_at: string | null
+          created_at: string
+          id: string
+          link: string | null
+          payload: Json
+          read_at: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          payload?: Json
+          read_at?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          payload?: Json
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
         }
         Relationships: []
       }
@@ -624,42 +663,110 @@ export type Database = {
           },
         ]
       }
+      transcription_embeddings: {
+        Row: {
+          chunk_index: number
+          content: string
+          created_at: string
+          embedding: string
+          end_time: number | null
+          id: string
+          model: string
+          provider: string
+          start_time: number | null
+          transcription_id: string
+        }
+        Insert: {
+          chunk_index: number
+          content: string
+          created_at?: string
+          embedding: string
+          end_time?: number | null
+          id?: string
+          model: string
+          provider: string
+          start_time?: number | null
+          transcription_id: string
+        }
+        Update: {
+          chunk_index?: number
+          content?: string
+          created_at?: string
+          embedding?: string
+          end_time?: number | null
+          id?: string
+          model?: string
+          provider?: string
+          start_time?: number | null
+          transcription_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcription_embeddings_transcription_id_fkey"
+            columns: ["transcription_id"]
+            isOneToOne: false
+            referencedRelation: "transcription_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transcription_logs: {
         Row: {
           created_at: string
+          duration_seconds: number | null
           error_message: string | null
+          estimated_cost: number | null
           file_checksum: string | null
           file_path: string | null
           file_title: string
           id: string
           is_protected: boolean
+          language: string | null
           log_time: string
+          model: string | null
+          provider: string | null
+          search_vector: unknown | null
+          source: string | null
           status: string
           transcription_text: string | null
           user_id: string | null
         }
         Insert: {
           created_at?: string
+          duration_seconds?: number | null
           error_message?: string | null
+          estimated_cost?: number | null
           file_checksum?: string | null
           file_path?: string | null
           file_title: string
           id?: string
           is_protected?: boolean
+          language?: string | null
           log_time?: string
+          model?: string | null
+          provider?: string | null
+          search_vector?: unknown | null
+          source?: string | null
           status: string
           transcription_text?: string | null
           user_id?: string | null
         }
         Update: {
           created_at?: string
+          duration_seconds?: number | null
           error_message?: string | null
+          estimated_cost?: number | null
           file_checksum?: string | null
           file_path?: string | null
           file_title?: string
           id?: string
           is_protected?: boolean
+          language?: string | null
           log_time?: string
+          model?: string | null
+          provider?: string | null
+          search_vector?: unknown | null
+          source?: string | null
           status?: string
           transcription_text?: string | null
           user_id?: string | null
@@ -701,70 +808,264 @@ export type Database = {
       }
       transcription_queue: {
         Row: {
+          attempt_count: number
           channel_title: string | null
           completed_at: string | null
           created_at: string | null
           error_message: string | null
           id: string
           language: string | null
+          last_error_class: string | null
+          next_attempt_at: string | null
+          not_before: string | null
+          priority: number
           progress: number | null
+          queue_position: number
           result_duration: number | null
           result_language: string | null
           result_text: string | null
+          source_metadata: Json
+          source_ref: string
+          source_type: string
           started_at: string | null
           status: string
+          target_language: string | null
           transcription_log_id: string | null
           updated_at: string | null
           user_id: string
-          video_id: string
+          video_id: string | null
           video_thumbnail: string | null
           video_title: string
-          video_url: string
+          video_url: string | null
         }
         Insert: {
+          attempt_count?: number
           channel_title?: string | null
           completed_at?: string | null
           created_at?: string | null
           error_message?: string | null
           id?: string
           language?: string | null
+          last_error_class?: string | null
+          next_attempt_at?: string | null
+          not_before?: string | null
+          priority?: number
           progress?: number | null
+          queue_position?: number
           result_duration?: number | null
           result_language?: string | null
           result_text?: string | null
+          source_metadata?: Json
+          source_ref: string
+          source_type: string
           started_at?: string | null
           status?: string
+          target_language?: string | null
           transcription_log_id?: string | null
           updated_at?: string | null
           user_id: string
-          video_id: string
+          video_id?: string | null
           video_thumbnail?: string | null
           video_title: string
-          video_url: string
+          video_url?: string | null
         }
         Update: {
+          attempt_count?: number
           channel_title?: string | null
           completed_at?: string | null
           created_at?: string | null
           error_message?: string | null
           id?: string
           language?: string | null
+          last_error_class?: string | null
+          next_attempt_at?: string | null
+          not_before?: string | null
+          priority?: number
           progress?: number | null
+          queue_position?: number
           result_duration?: number | null
           result_language?: string | null
           result_text?: string | null
+          source_metadata?: Json
+          source_ref?: string
+          source_type?: string
           started_at?: string | null
           status?: string
+          target_language?: string | null
           transcription_log_id?: string | null
           updated_at?: string | null
           user_id?: string
-          video_id?: string
+          video_id?: string | null
           video_thumbnail?: string | null
           video_title?: string
-          video_url?: string
+          video_url?: string | null
         }
         Relationships: []
       }
+      transcription_queue_attempts: {
+        Row: {
+          attempt_number: number
+          error_class: string | null
+          error_message: string | null
+          finished_at: string
+          id: string
+          queue_item_id: string
+          started_at: string | null
+          succeeded: boolean
+          user_id: string
+        }
+        Insert: {
+          attempt_number: number
+          error_class?: string | null
+          error_message?: string | null
+          finished_at?: string
+          id?: string
+          queue_item_id: string
+          started_at?: string | null
+          succeeded: boolean
+          user_id: string
+        }
+        Update: {
+          attempt_number?: number
+          error_class?: string | null
+          error_message?: string | null
+          finished_at?: string
+          id?: string
+          queue_item_id?: string
+          started_at?: string | null
+          succeeded?: boolean
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcription_queue_attempts_queue_item_id_fkey"
+            columns: ["queue_item_id"]
+            isOneToOne: false
+            referencedRelation: "transcription_queue"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transcription_revisions: {
+        Row: {
+          change_summary: string | null
+          created_at: string
+          created_by: string
+          id: string
+          transcription_id: string
+          transcription_text: string
+          version_number: number
+        }
+        Insert: {
+          change_summary?: string | null
+          created_at?: string
+          created_by: string
+          id?: string
+          transcription_id: string
+          transcription_text: string
+          version_number: number
+        }
+        Update: {
+          change_summary?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          transcription_id?: string
+          transcription_text?: string
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcription_revisions_transcription_id_fkey"
+            columns: ["transcription_id"]
+            isOneToOne: false
+            referencedRelation: "transcription_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transcription_segments: {
+        Row: {
+          avg_logprob: number | null
+          created_at: string
+          end_time: number
+          id: string
+          no_speech_prob: number | null
+          segment_index: number
+          speaker_index: number | null
+          start_time: number
+          text: string
+          transcription_id: string
+        }
+        Insert: {
+          avg_logprob?: number | null
+          created_at?: string
+          end_time: number
+          id?: string
+          no_speech_prob?: number | null
+          segment_index: number
+          speaker_index?: number | null
+          start_time: number
+          text: string
+          transcription_id: string
+        }
+        Update: {
+          avg_logprob?: number | null
+          created_at?: string
+          end_time?: number
+          id?: string
+          no_speech_prob?: number | null
+          segment_index?: number
+          speaker_index?: number | null
+          start_time?: number
+          text?: string
+          transcription_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcription_segments_transcription_id_fkey"
+            columns: ["transcription_id"]
+            isOneToOne: false
+            referencedRelation: "transcription_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transcription_speakers: {
+        Row: {
+          created_at: string
+          display_name: string
+          id: string
+          speaker_index: number
+          transcription_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          display_name: string
+          id?: string
+          speaker_index: number
+          transcription_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          display_name?: string
+          id?: string
+          speaker_index?: number
+          transcription_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcription_speakers_transcription_id_fkey"
+            columns: ["transcription_id"]
+            isOneToOne: false
+            referencedRelation: "transcription_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transcription_tags: {
         Row: {
           created_at: string
@@ -801,6 +1102,56 @@ export type Database = {
           },
         ]
       }
+      transcription_translations: {
+        Row: {
+          created_at: string
+          error_message: string | null
+          id: string
+          model: string | null
+          provider: string | null
+          source_language: string | null
+          status: string
+          target_language: string
+          transcription_id: string
+          translated_text: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          error_message?: string | null
+          id?: string
+          model?: string | null
+          provider?: string | null
+          source_language?: string | null
+          status?: string
+          target_language: string
+          transcription_id: string
+          translated_text?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          error_message?: string | null
+          id?: string
+          model?: string | null
+          provider?: string | null
+          source_language?: string | null
+          status?: string
+          target_language?: string
+          transcription_id?: string
+          translated_text?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcription_translations_transcription_id_fkey"
+            columns: ["transcription_id"]
+            isOneToOne: false
+            referencedRelation: "transcription_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -822,11 +1173,250 @@ export type Database = {
         }
         Relationships: []
       }
+      webhook_deliveries: {
+        Row: {
+          attempt_count: number
+          created_at: string
+          delivered_at: string | null
+          endpoint_id: string
+          error_message: string | null
+          event: string
+          id: string
+          next_attempt_at: string | null
+          payload: Json
+          replay_of: string | null
+          response_status: number | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          attempt_count?: number
+          created_at?: string
+          delivered_at?: string | null
+          endpoint_id: string
+          error_message?: string | null
+          event: string
+          id?: string
+          next_attempt_at?: string | null
+          payload: Json
+          replay_of?: string | null
+          response_status?: number | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          attempt_count?: number
+          created_at?: string
+          delivered_at?: string | null
+          endpoint_id?: string
+          error_message?: string | null
+          event?: string
+          id?: string
+          next_attempt_at?: string | null
+          payload?: Json
+          replay_of?: string | null
+          response_status?: number | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_endpoints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_replay_of_fkey"
+            columns: ["replay_of"]
+            isOneToOne: false
+            referencedRelation: "webhook_deliveries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_endpoints: {
+        Row: {
+          created_at: string
+          description: string | null
+          enabled: boolean
+          events: string[]
+          id: string
+          secret: string
+          updated_at: string
+          url: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          enabled?: boolean
+          events?: string[]
+          id?: string
+          secret: string
+          updated_at?: string
+          url: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          enabled?: boolean
+          events?: string[]
+          id?: string
+          secret?: string
+          updated_at?: string
+          url?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      youtube_channel_watches: {
+        Row: {
+          channel_id: string
+          channel_title: string
+          channel_url: string
+          created_at: string
+          enabled: boolean
+          id: string
+          language: string
+          last_checked_at: string | null
+          last_published_at: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          channel_id: string
+          channel_title: string
+          channel_url: string
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          language?: string
+          last_checked_at?: string | null
+          last_published_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          channel_id?: string
+          channel_title?: string
+          channel_url?: string
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          language?: string
+          last_checked_at?: string | null
+          last_published_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      claim_due_webhook_deliveries: {
+        Args: { _lease_seconds: number; _limit: number }
+        Returns: Database["public"]["Tables"]["webhook_deliveries"]["Row"][]
+      }
+      claim_transcription_queue_items: {
+        Args: { _max_concurrency: number; _max_per_user?: number }
+        Returns: Database["public"]["Tables"]["transcription_queue"]["Row"][]
+      }
+      count_transcription_logs: {
+        Args: {
+          _checksum_query?: string
+          _content_tsquery?: string
+          _end_date?: string
+          _excluded_statuses?: string[]
+          _excluded_tags?: string[]
+          _max_length?: number
+          _min_length?: number
+          _query_statuses?: string[]
+          _required_tags?: string[]
+          _search_query?: string
+          _start_date?: string
+          _statuses?: string[]
+          _tag_ids?: string[]
+        }
+        Returns: number
+      }
+      filter_transcription_logs: {
+        Args: {
+          _checksum_query?: string
+          _content_tsquery?: string
+          _end_date?: string
+          _excluded_statuses?: string[]
+          _excluded_tags?: string[]
+          _max_length?: number
+          _min_length?: number
+          _query_statuses?: string[]
+          _required_tags?: string[]
+          _search_query?: string
+          _start_date?: string
+          _statuses?: string[]
+          _tag_ids?: string[]
+        }
+        Returns: Database["public"]["Tables"]["transcription_logs"]["Row"][]
+      }
+      get_transcription_error_counts: {
+        Args: { _limit?: number }
+        Returns: {
+          error_message: string
+          failures: number
+        }[]
+      }
+      get_transcription_stats: {
+        Args: never
+        Returns: {
+          average_length: number
+          completed: number
+          duplicate_groups: number
+          failed: number
+          processing: number
+          total: number
+        }[]
+      }
+      get_transcription_usage: {
+        Args: never
+        Returns: {
+          completed: number
+          duration_seconds: number
+          estimated_cost: number
+          failed: number
+          pending: number
+          processing: number
+          total: number
+        }[]
+      }
+      get_transcription_usage_by_language: {
+        Args: never
+        Returns: {
+          language: string
+          transcriptions: number
+        }[]
+      }
+      get_transcription_usage_by_user: {
+        Args: { _limit?: number }
+        Returns: {
+          duration_seconds: number
+          estimated_cost: number
+          transcriptions: number
+          user_email: string
+          user_id: string
+        }[]
+      }
+      get_unindexed_transcriptions: {
+        Args: { _limit?: number; _user_id: string }
+        Returns: {
+          total_missing: number
+          transcription_id: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -842,6 +1432,54 @@ export type Database = {
         }
         Returns: string
       }
+      match_transcription_passages: {
+        Args: {
+          _match_count?: number
+          _min_similarity?: number
+          _model: string
+          _query_embedding: string
+          _user_id: string
+        }
+        Returns: {
+          chunk_index: number
+          content: string
+          end_time: number
+          file_title: string
+          similarity: number
+          start_time: number
+          transcription_id: string
+        }[]
+      }
+      search_transcription_logs: {
+        Args: {
+          _backward?: boolean
+          _checksum_query?: string
+          _content_tsquery?: string
+          _cursor_id?: string
+          _cursor_value?: string
+          _end_date?: string
+          _excluded_statuses?: string[]
+          _excluded_tags?: string[]
+          _max_length?: number
+          _min_length?: number
+          _page_offset?: number
+          _page_size?: number
+          _query_statuses?: string[]
+          _required_tags?: string[]
+          _search_query?: string
+          _sort_direction?: string
+          _sort_field?: string
+          _start_date?: string
+          _statuses?: string[]
+          _tag_ids?: string[]
+        }
+        Returns: {
+          id: string
+          rank: number
+          snippet: string
+          sort_value: string
+        }[]
+      }
     }
     Enums: {
       app_role: "admin" | "user"
@@ -42,6 +42,30 @@ export const logTranscription = async (filename: string, status: string) => {
   });
 };
 
+export const logTranscriptEdit = async (transcriptionId: string, filename: string) => {
+  await logActivity({
+    actionType: "transcription",
+    actionDescription: `Edited transcript: ${filename}`,
+    metadata: { transcription_id: transcriptionId, filename },
+  });
+};
+
+export const logTranscriptRestore = async (transcriptionId: string, filename: string, versionNumber: number) => {
+  await logActivity({
+    actionType: "transcription",
+    actionDescription: `Restored transcript revision v${versionNumber}: ${filename}`,
+    metadata: { transcription_id: transcriptionId, filename, version_number: versionNumber },
+  });
+};
+
+export const logTranscriptTranslate = async (transcriptionId: string, filename: string, targetLanguage: string) => {
+  await logActivity({
+    actionType: "transcription",
+    actionDescription: `Translated transcript to ${targetLanguage}: ${filename}`,
+    metadata: { transcription_id: transcriptionId, filename, target_language: targetLanguage },
+  });
+};
+
 export const logUpload = async (filename: string, type: string) => {
   await logActivity({
     actionType: "upload",
@@ -0,0 +1,93 @@
+/** Whisper rejects uploads larger than this */
+export const WHISPER_MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+// 16 kHz mono 16-bit PCM is what Whisper works with internally: ~1.9MB per minute
+const CHUNK_SAMPLE_RATE = 16000;
+
+export interface AudioChunk {
+  blob: Blob;
+  offset: number;
+  duration: number;
+}
+
+export interface ChunkOptions {
+  chunkSeconds: number;
+  overlapSeconds: number;
+}
+
+// 10 minute chunks encode to ~19MB, leaving headroom under the upload limit
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  chunkSeconds: 600,
+  overlapSeconds: 5,
+};
+
+const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+
+  samples.forEach((sample, i) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+
+  return new Blob([buffer], { type: "audio/wav" });
+};
+
+/**
+ * Decode an audio or video file and split it into overlapping 16 kHz mono WAV chunks
+ * that each fit under Whisper's upload limit. Chunk k starts at k * chunkSeconds and
+ * runs overlapSeconds into the next chunk so words at the boundary aren't cut off.
+ */
+export const splitAudioIntoChunks = async (
+  file: Blob,
+  options: ChunkOptions = DEFAULT_CHUNK_OPTIONS
+): Promise<AudioChunk[]> => {
+  // Decoding through a 16 kHz context resamples the audio as part of decoding
+  const context = new OfflineAudioContext(1, 1, CHUNK_SAMPLE_RATE);
+  const decoded = await context.decodeAudioData(await file.arrayBuffer());
+
+  const mono = new Float32Array(decoded.length);
+  for (let channel = 0; channel < decoded.numberOfChannels; channel++) {
+    const data = decoded.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / decoded.numberOfChannels;
+    }
+  }
+
+  const sampleRate = decoded.sampleRate;
+  const chunkSamples = options.chunkSeconds * sampleRate;
+  const overlapSamples = options.overlapSeconds * sampleRate;
+  const chunks: AudioChunk[] = [];
+
+  for (let start = 0; start < mono.length; start += chunkSamples) {
+    const end = Math.min(start + chunkSamples + overlapSamples, mono.length);
+    chunks.push({
+      blob: encodeWav(mono.subarray(start, end), sampleRate),
+      offset: start / sampleRate,
+      duration: (end - start) / sampleRate,
+    });
+    if (end === mono.length) break;
+  }
+
+  return chunks;
+};
@@ -1,3 +1,5 @@
+import JSZip from "jszip";
+
 export const exportToCSV = (data: any[], filename: string) => {
   if (!data || data.length === 0) {
     throw new Error("No data to export");
@@ -73,3 +75,266 @@ export const formatActivityLogsForExport = (logs: any[], users: any[]) => {
     };
   });
 };
+
+export interface SubtitleSegment {
+  start_time: number;
+  end_time: number;
+  text: string;
+  speaker?: string | null;
+}
+
+export interface SubtitleOptions {
+  maxLineLength: number;
+  maxCueDuration: number;
+}
+
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+  maxLineLength: 42,
+  maxCueDuration: 6,
+};
+
+interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: string[];
+  speaker?: string | null;
+}
+
+const MAX_CUE_LINES = 2;
+
+/**
+ * Split timed segments into subtitle cues of at most two lines and maxCueDuration seconds.
+ * Lines are filled greedily up to maxLineLength (single long words are kept whole), and a new cue
+ * starts whenever a word would need a third line. Time within a segment is distributed in
+ * proportion to character count.
+ */
+export const buildSubtitleCues = (
+  segments: SubtitleSegment[],
+  options: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS
+): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+
+  segments.forEach(segment => {
+    const words = segment.text.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return;
+
+    const duration = Math.max(segment.end_time - segment.start_time, 0);
+    const totalChars = words.join(" ").length;
+    const secondsPerChar = totalChars > 0 ? duration / totalChars : 0;
+
+    const chunks: string[][] = [];
+    let lines: string[] = [];
+    let chunkChars = 0;
+
+    words.forEach(word => {
+      const lastLine = lines[lines.length - 1];
+      const fitsOnLine = lastLine !== undefined && lastLine.length + 1 + word.length <= options.maxLineLength;
+      const nextChars = chunkChars === 0 ? word.length : chunkChars + 1 + word.length;
+      const tooLong = !fitsOnLine && lines.length >= MAX_CUE_LINES;
+      const tooSlow = nextChars * secondsPerChar > options.maxCueDuration;
+
+      if (lines.length > 0 && (tooLong || tooSlow)) {
+        chunks.push(lines);
+        lines = [word];
+        chunkChars = word.length;
+      } else {
+        if (fitsOnLine) {
+          lines[lines.length - 1] = `${lastLine} ${word}`;
+        } else {
+          lines.push(word);
+        }
+        chunkChars = nextChars;
+      }
+    });
+
+    if (lines.length > 0) chunks.push(lines);
+
+    let cursor = segment.start_time;
+    chunks.forEach((chunkLines, index) => {
+      const chunkChars = chunkLines.join(" ").length;
+      const end = index === chunks.length - 1
+        ? segment.end_time
+        : cursor + (chunkChars + 1) * secondsPerChar;
+
+      cues.push({
+        start: cursor,
+        end,
+        lines: chunkLines,
+        speaker: segment.speaker,
+      });
+      cursor = end;
+    });
+  });
+
+  return cues;
+};
+
+// Format seconds as HH:MM:SS<separator>mmm
+const formatCueTimestamp = (seconds: number, separator: "," | "."): string => {
+  const totalMs = Math.max(Math.round(seconds * 1000), 0);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:${String(secs).padStart(2, "0")}${separator}${String(ms).padStart(3, "0")}`;
+};
+
+// SRT has no speaker markup, so the name prefixes the first line whenever the speaker changes
+export const formatSRT = (segments: SubtitleSegment[], options?: SubtitleOptions): string => {
+  return buildSubtitleCues(segments, options)
+    .map((cue, index, cues) => {
+      const [firstLine, ...rest] = cue.lines;
+      const speakerChanged = cue.speaker && cue.speaker !== cues[index - 1]?.speaker;
+      return [
+        String(index + 1),
+        `${formatCueTimestamp(cue.start, ",")} --> ${formatCueTimestamp(cue.end, ",")}`,
+        speakerChanged ? `${cue.speaker}: ${firstLine}` : firstLine,
+        ...rest,
+      ].join("\n");
+    })
+    .join("\n\n") + "\n";
+};
+
+// Cue text can't contain "-->", and &, < and > have to be written as character references
+const escapeCueText = (value: string) =>
+  value
+    .replace(/-->/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+
+export const formatWebVTT = (segments: SubtitleSegment[], options?: SubtitleOptions): string => {
+  const cues = buildSubtitleCues(segments, options)
+    .map(cue => {
+      const lines = cue.lines.map(escapeCueText);
+      // A voice span's speaker name has to stay on one line
+      const speaker = cue.speaker && escapeCueText(cue.speaker.replace(/\s+/g, " ").trim());
+      return [
+        `${formatCueTimestamp(cue.start, ".")} --> ${formatCueTimestamp(cue.end, ".")}`,
+        ...(speaker ? [`<v ${speaker}>${lines[0]}`, ...lines.slice(1)] : lines),
+      ].join("\n");
+    });
+
+  return ["WEBVTT", ...cues].join("\n\n") + "\n";
+};
+
+export interface TranscriptParagraph {
+  speaker?: string | null;
+  text: string;
+}
+
+// Merge consecutive segments from the same speaker into paragraphs
+export const buildSpeakerParagraphs = (segments: SubtitleSegment[]): TranscriptParagraph[] => {
+  const paragraphs: TranscriptParagraph[] = [];
+
+  segments.forEach(segment => {
+    const text = segment.text.trim();
+    if (!text) return;
+
+    const last = paragraphs[paragraphs.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.text = `${last.text} ${text}`;
+    } else {
+      paragraphs.push({ speaker: segment.speaker, text });
+    }
+  });
+
+  return paragraphs;
+};
+
+export const formatSpeakerTranscript = (paragraphs: TranscriptParagraph[]): string => {
+  return paragraphs
+    .map(paragraph => paragraph.speaker ? `${paragraph.speaker}: ${paragraph.text}` : paragraph.text)
+    .join("\n\n") + "\n";
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const DOCX_CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+</Types>`;
+
+const DOCX_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+/**
+ * Build a minimal Word document: a bold title followed by one paragraph per entry,
+ * with the speaker name (if any) in bold at the start of the paragraph.
+ */
+export const buildDOCX = async (title: string, paragraphs: TranscriptParagraph[]): Promise<Blob> => {
+  const run = (text: string, bold = false) =>
+    `<w:r>${bold ? "<w:rPr><w:b/></w:rPr>" : ""}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+
+  const body = [
+    `<w:p><w:pPr><w:spacing w:after="240"/></w:pPr>${run(title, true)}</w:p>`,
+    ...paragraphs.map(paragraph =>
+      `<w:p><w:pPr><w:spacing w:after="160"/></w:pPr>${paragraph.speaker ? run(`${paragraph.speaker}: `, true) : ""}${run(paragraph.text)}</w:p>`
+    ),
+  ].join("");
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`;
+
+  const zip = new JSZip();
+  zip.file("[Content_Types].xml", DOCX_CONTENT_TYPES);
+  zip.file("_rels/.rels", DOCX_RELATIONSHIPS, { createFolders: false });
+  zip.file("word/document.xml", document, { createFolders: false });
+
+  return zip.generateAsync({
+    type: "blob",
+    mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  });
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename);
+  link.style.visibility = "hidden";
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const downloadTextFile = (content: string, filename: string, mimeType: string) => {
+  downloadBlob(new Blob([content], { type: mimeType }), filename);
+};
+
+export const exportToSRT = (segments: SubtitleSegment[], filename: string, options?: SubtitleOptions) => {
+  if (!segments || segments.length === 0) {
+    throw new Error("No timing data to export");
+  }
+
+  downloadTextFile(formatSRT(segments, options), filename, "application/x-subrip;charset=utf-8;");
+};
+
+export const exportToWebVTT = (segments: SubtitleSegment[], filename: string, options?: SubtitleOptions) => {
+  if (!segments || segments.length === 0) {
+    throw new Error("No timing data to export");
+  }
+
+  downloadTextFile(formatWebVTT(segments, options), filename, "text/vtt;charset=utf-8;");
+};
+
+export const exportToDOCX = async (title: string, paragraphs: TranscriptParagraph[], filename: string) => {
+  if (!paragraphs || paragraphs.length === 0) {
+    throw new Error("No text to export");
+  }
+
+  downloadBlob(await buildDOCX(title, paragraphs), filename);
+};
@@ -0,0 +1,48 @@
+const LANGUAGE_NAMES: { [key: string]: string } = {
+  'en': 'English',
+  'es': 'Spanish',
+  'fr': 'French',
+  'de': 'German',
+  'it': 'Italian',
+  'pt': 'Portuguese',
+  'ru': 'Russian',
+  'ja': 'Japanese',
+  'ko': 'Korean',
+  'zh': 'Chinese (Simplified)',
+  'zh-Hans': 'Chinese (Simplified)',
+  'zh-Hant': 'Chinese (Traditional)',
+  'ar': 'Arabic',
+  'hi': 'Hindi',
+  'nl': 'Dutch',
+  'pl': 'Polish',
+  'tr': 'Turkish',
+  'sv': 'Swedish',
+  'da': 'Danish',
+  'fi': 'Finnish',
+  'no': 'Norwegian',
+  'cs': 'Czech',
+  'el': 'Greek',
+  'he': 'Hebrew',
+  'id': 'Indonesian',
+  'th': 'Thai',
+  'vi': 'Vietnamese',
+  'uk': 'Ukrainian',
+  'ro': 'Romanian',
+  'hu': 'Hungarian',
+  'bg': 'Bulgarian',
+};
+
+/**
+ * Display name for a language code, falling back to the upper-cased code
+ */
+export const getLanguageName = (code: string): string => {
+  return LANGUAGE_NAMES[code] || code.toUpperCase();
+};
+
+/**
+ * Languages offered as translation targets, English first and the rest alphabetical
+ */
+export const TRANSLATION_LANGUAGES = Object.entries(LANGUAGE_NAMES)
+  .filter(([code]) => code !== 'zh')
+  .map(([code, name]) => ({ code, name }))
+  .sort((a, b) => (a.code === 'en' ? -1 : b.code === 'en' ? 1 : a.name.localeCompare(b.name)));
@@ -0,0 +1,99 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { FileAudio, AlertCircle, Copy, Info, Mail, Bell } from "lucide-react";
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  type: string;
+  title: string;
+  payload: Json;
+  link: string | null;
+  read_at: string | null;
+  archived_at: string | null;
+  created_at: string;
+}
+
+export type NotificationFilter = 'all' | 'unread' | 'archived';
+
+/**
+ * Fetch a page of the current user's notifications, newest first. Archived notifications
+ * only appear under the 'archived' filter.
+ */
+export const fetchNotifications = async (
+  { filter = 'all', limit = 20, offset = 0 }: { filter?: NotificationFilter; limit?: number; offset?: number } = {}
+): Promise<AppNotification[]> => {
+  let query = supabase
+    .from("notifications")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (filter === 'archived') {
+    query = query.not("archived_at", "is", null);
+  } else {
+    query = query.is("archived_at", null);
+    if (filter === 'unread') query = query.is("read_at", null);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+export const countUnreadNotifications = async (): Promise<number> => {
+  const { count, error } = await supabase
+    .from("notifications")
+    .select("id", { count: "exact", head: true })
+    .is("read_at", null)
+    .is("archived_at", null);
+
+  if (error) throw error;
+  return count ?? 0;
+};
+
+export const setNotificationRead = async (id: string, read: boolean): Promise<void> => {
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read_at: read ? new Date().toISOString() : null })
+    .eq("id", id);
+
+  if (error) throw error;
+};
+
+export const markAllNotificationsRead = async (): Promise<void> => {
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .is("read_at", null);
+
+  if (error) throw error;
+};
+
+// Archiving also marks as read, so archived notifications never count as unread
+export const setNotificationArchived = async (id: string, archived: boolean): Promise<void> => {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from("notifications")
+    .update(archived ? { archived_at: now, read_at: now } : { archived_at: null })
+    .eq("id", id);
+
+  if (error) throw error;
+};
+
+export const getNotificationIcon = (type: string) => {
+  switch (type) {
+    case "transcription_complete":
+      return FileAudio;
+    case "transcription_failed":
+      return AlertCircle;
+    case "duplicate_detected":
+      return Copy;
+    case "system":
+      return Info;
+    case "weekly_summary":
+      return Mail;
+    default:
+      return Bell;
+  }
+};
@@ -0,0 +1,306 @@
+/**
+ * Parser for the transcript content search syntax:
+ *
+ *   budget NOT draft            both words must match / exclude a word (also `-draft`)
+ *   budget OR forecast          either word (AND is implied between terms)
+ *   "quarterly budget"          exact phrase
+ *   "budget review"~3           words within 3 positions of each other, in either order
+ *   budg*                       prefix match
+ *   (q1 OR q2) budget           grouping
+ *   tag:finance status:completed before:2025-01-01 after:2024-06-01
+ *
+ * Field operators always apply to the whole query and can be negated with `-` or `NOT`.
+ */
+
+export const SEARCH_QUERY_VERSION = 1;
+
+const SEARCH_FIELDS = ['tag', 'status', 'before', 'after'] as const;
+export type SearchField = typeof SEARCH_FIELDS[number];
+
+// Proximity searches expand into one alternative per distance, so keep them bounded
+const MAX_PROXIMITY = 10;
+
+export type QueryNode =
+  | { type: 'term'; value: string; prefix: boolean }
+  | { type: 'phrase'; words: string[]; proximity: number | null }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+// Type aliases rather than interfaces so parsed queries can be stored in JSON columns
+export type FieldFilter = {
+  field: SearchField;
+  value: string;
+  negated: boolean;
+};
+
+export type ParsedSearchQuery = {
+  version: number;
+  text: string;
+  content: QueryNode | null;
+  fields: FieldFilter[];
+  errors: string[];
+};
+
+type Token =
+  | { kind: 'lparen' }
+  | { kind: 'rparen' }
+  | { kind: 'and' }
+  | { kind: 'or' }
+  | { kind: 'not' }
+  | { kind: 'phrase'; words: string[]; proximity: number | null }
+  | { kind: 'term'; value: string; prefix: boolean }
+  | { kind: 'field'; field: SearchField; value: string };
+
+const WORD_CHAR = '[\\p{L}\\p{N}]';
+const NON_WORD_CHAR = '[^\\p{L}\\p{N}]';
+
+const splitWords = (text: string): string[] =>
+  text.match(/[\p{L}\p{N}]+/gu)?.map(word => word.toLowerCase()) ?? [];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  // Read a quoted string starting at `start`; an unterminated quote runs to the end of the query
+  const readQuoted = (start: number) => {
+    const end = text.indexOf('"', start + 1);
+    const closeAt = end === -1 ? text.length : end;
+    index = closeAt + 1;
+    return text.slice(start + 1, closeAt);
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '(') {
+      tokens.push({ kind: 'lparen' });
+      index++;
+    } else if (char === ')') {
+      tokens.push({ kind: 'rparen' });
+      index++;
+    } else if (char === '-' && index + 1 < text.length && !/\s/.test(text[index + 1])) {
+      tokens.push({ kind: 'not' });
+      index++;
+    } else if (char === '"') {
+      const words = splitWords(readQuoted(index));
+      const proximityMatch = /^~(\d+)/.exec(text.slice(index));
+      let proximity: number | null = null;
+      if (proximityMatch) {
+        proximity = Math.min(Number(proximityMatch[1]), MAX_PROXIMITY);
+        index += proximityMatch[0].length;
+      }
+      if (words.length > 0) tokens.push({ kind: 'phrase', words, proximity });
+    } else {
+      const word = /^[^\s()"]+/.exec(text.slice(index))[0];
+      index += word.length;
+
+      const fieldMatch = /^([a-z]+):(.*)$/i.exec(word);
+      const field = fieldMatch?.[1].toLowerCase() as SearchField;
+      if (fieldMatch && SEARCH_FIELDS.includes(field)) {
+        const value = !fieldMatch[2] && text[index] === '"' ? readQuoted(index) : fieldMatch[2];
+        tokens.push({ kind: 'field', field, value: value.trim() });
+      } else if (word === 'AND' || word === '&&') {
+        tokens.push({ kind: 'and' });
+      } else if (word === 'OR' || word === '||' || word === '|') {
+        tokens.push({ kind: 'or' });
+      } else if (word === 'NOT') {
+        tokens.push({ kind: 'not' });
+      } else {
+        tokens.push({ kind: 'term', value: word.replace(/\*+$/, ''), prefix: word.endsWith('*') });
+      }
+    }
+  }
+
+  return tokens;
+};
+
+const combine = (type: 'and' | 'or', nodes: (QueryNode | null)[]): QueryNode | null => {
+  const children = nodes.filter(Boolean);
+  if (children.length === 0) return null;
+  return children.length === 1 ? children[0] : { type, children };
+};
+
+/**
+ * Parse a content search query. Parsing never throws: malformed input is recovered from
+ * as well as possible and described in `errors`.
+ */
+export const parseSearchQuery = (text: string): ParsedSearchQuery => {
+  const tokens = tokenize(text);
+  const fields: FieldFilter[] = [];
+  const errors: string[] = [];
+  let position = 0;
+
+  const addField = (field: SearchField, value: string, negated: boolean) => {
+    if (!value) {
+      errors.push(`Missing value for ${field}:`);
+    } else if ((field === 'before' || field === 'after') && isNaN(Date.parse(value))) {
+      errors.push(`"${value}" is not a valid date for ${field}:`);
+    } else {
+      fields.push({ field, value, negated });
+    }
+  };
+
+  const parseUnary = (negated: boolean): QueryNode | null => {
+    const token = tokens[position++];
+
+    switch (token.kind) {
+      case 'not': {
+        if (position >= tokens.length) return null;
+        const child = parseUnary(!negated);
+        return child && { type: 'not', child };
+      }
+      case 'lparen': {
+        const inner = parseOr();
+        if (tokens[position]?.kind === 'rparen') {
+          position++;
+        } else {
+          errors.push('Missing closing parenthesis');
+        }
+        return inner;
+      }
+      case 'field':
+        addField(token.field, token.value, negated);
+        return null;
+      case 'phrase':
+        return { type: 'phrase', words: token.words, proximity: token.proximity };
+      case 'term':
+        return token.value ? { type: 'term', value: token.value, prefix: token.prefix } : null;
+      default:
+        return null;
+    }
+  };
+
+  const parseAnd = (): QueryNode | null => {
+    const children: (QueryNode | null)[] = [];
+    while (position < tokens.length) {
+      const { kind } = tokens[position];
+      if (kind === 'or' || kind === 'rparen') break;
+      if (kind === 'and') {
+        position++;
+        continue;
+      }
+      children.push(parseUnary(false));
+    }
+    return combine('and', children);
+  };
+
+  const parseOr = (): QueryNode | null => {
+    const children = [parseAnd()];
+    while (tokens[position]?.kind === 'or') {
+      position++;
+      children.push(parseAnd());
+    }
+    return combine('or', children);
+  };
+
+  const parts: (QueryNode | null)[] = [];
+  while (position < tokens.length) {
+    parts.push(parseOr());
+    if (tokens[position]?.kind === 'rparen') {
+      errors.push('Unexpected closing parenthesis');
+      position++;
+    }
+  }
+
+  return {
+    version: SEARCH_QUERY_VERSION,
+    text,
+    content: combine('and', parts),
+    fields,
+    errors: Array.from(new Set(errors)),
+  };
+};
+
+/**
+ * Compile the content part of a query to Postgres `to_tsquery` syntax. Words are reduced to
+ * letters and digits, so the result is always a valid tsquery.
+ */
+export const toTsQuery = (node: QueryNode | null): string | null => {
+  if (!node) return null;
+
+  switch (node.type) {
+    case 'term': {
+      const words = splitWords(node.value);
+      if (words.length === 0) return null;
+      if (node.prefix) words[words.length - 1] += ':*';
+      return words.length === 1 ? words[0] : `(${words.join(' <-> ')})`;
+    }
+    case 'phrase': {
+      const { words, proximity } = node;
+      if (words.length === 1) return words[0];
+      if (!proximity) return `(${words.join(' <-> ')})`;
+
+      // "a b"~2 matches the words at a distance of 1 or 2, in either order
+      const pairs = words.slice(1).map((word, index) => {
+        const distances = Array.from({ length: proximity }, (_, distance) => [
+          `${words[index]} <${distance + 1}> ${word}`,
+          `${word} <${distance + 1}> ${words[index]}`,
+        ]).flat();
+        return `(${distances.join(' | ')})`;
+      });
+      return pairs.length === 1 ? pairs[0] : `(${pairs.join(' & ')})`;
+    }
+    case 'and':
+    case 'or': {
+      const parts = node.children.map(toTsQuery).filter(Boolean);
+      if (parts.length === 0) return null;
+      return parts.length === 1 ? parts[0] : `(${parts.join(node.type === 'and' ? ' & ' : ' | ')})`;
+    }
+    case 'not': {
+      const child = toTsQuery(node.child);
+      return child && `!${child}`;
+    }
+  }
+};
+
+/**
+ * Build a case-insensitive pattern matching the words and phrases a query searches for,
+ * with a single capture group so it can be used with `String.split`. Excluded terms are left out.
+ */
+export const buildHighlightPattern = (query: ParsedSearchQuery): RegExp | null => {
+  const patterns: string[] = [];
+
+  const visit = (node: QueryNode | null) => {
+    if (!node) return;
+
+    switch (node.type) {
+      case 'term': {
+        const words = splitWords(node.value);
+        if (words.length > 0) {
+          patterns.push(words.map(escapeRegExp).join(`${NON_WORD_CHAR}+`) + (node.prefix ? `${WORD_CHAR}*` : ''));
+        }
+        break;
+      }
+      case 'phrase':
+        if (node.proximity) {
+          patterns.push(...node.words.map(escapeRegExp));
+        } else {
+          patterns.push(node.words.map(escapeRegExp).join(`${NON_WORD_CHAR}+`));
+        }
+        break;
+      case 'and':
+      case 'or':
+        node.children.forEach(visit);
+        break;
+      case 'not':
+        break;
+    }
+  };
+
+  visit(query.content);
+  if (patterns.length === 0) return null;
+
+  // Longest first so a phrase wins over the single words inside it
+  patterns.sort((a, b) => b.length - a.length);
+  return new RegExp(`(?<!${WORD_CHAR})(${patterns.join('|')})(?!${WORD_CHAR})`, 'giu');
+};
+
+export const getFieldValues = (query: ParsedSearchQuery, field: SearchField, negated: boolean): string[] =>
+  query.fields
+    .filter(filter => filter.field === field && filter.negated === negated)
+    .map(filter => filter.value);
@@ -0,0 +1,64 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface SemanticPassage {
+  transcription_id: string;
+  file_title: string;
+  chunk_index: number;
+  content: string;
+  start_time: number | null;
+  end_time: number | null;
+  similarity: number;
+}
+
+/**
+ * Find the transcript passages closest in meaning to a natural language query.
+ */
+export const searchPassages = async (query: string, matchCount = 20): Promise<SemanticPassage[]> => {
+  const { data, error } = await supabase.functions.invoke('semantic-search', {
+    body: { query, matchCount },
+  });
+
+  if (error) throw error;
+  if (data.error) throw new Error(data.error);
+  return data.passages;
+};
+
+/**
+ * Rebuild the search passages of one transcription, e.g. after its text was edited.
+ */
+export const reindexTranscription = async (transcriptionId: string): Promise<void> => {
+  const { data, error } = await supabase.functions.invoke('embed-transcription', {
+    body: { transcriptionId },
+  });
+
+  if (error) throw error;
+  if (data.error) throw new Error(data.error);
+};
+
+// Most backfill requests made per call; whatever is left is picked up the next time
+const MAX_BACKFILL_REQUESTS = 50;
+
+/**
+ * Index completed transcriptions that have no passages yet, a batch per request.
+ * Returns the number of transcriptions indexed.
+ */
+export const indexMissingTranscriptions = async (
+  onProgress?: (indexed: number, remaining: number) => void
+): Promise<number> => {
+  let total = 0;
+
+  for (let request = 0; request < MAX_BACKFILL_REQUESTS; request++) {
+    const { data, error } = await supabase.functions.invoke('embed-transcription', { body: {} });
+
+    if (error) throw error;
+    if (data.error) throw new Error(data.error);
+
+    total += data.indexed;
+    onProgress?.(total, data.remaining);
+
+    // Stop once nothing is left, or when a batch made no progress (e.g. every transcript in it failed)
+    if (data.remaining === 0 || data.indexed === 0) return total;
+  }
+
+  return total;
+};
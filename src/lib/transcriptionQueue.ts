@@ -0,0 +1,197 @@
+import { supabase } from "@/integrations/supabase/client";
+import { splitAudioIntoChunks, DEFAULT_CHUNK_OPTIONS, WHISPER_MAX_UPLOAD_BYTES } from "@/lib/audioChunking";
+
+const AUDIO_BUCKET = "audio-uploads";
+
+/** What a queue item reads; see the transcription_queue migration for what source_ref holds for each */
+export type QueueSourceType = 'youtube' | 'upload' | 'recording' | 'translation' | 'rerun';
+
+export interface QueuedAudioOptions {
+  fileName: string;
+  fileChecksum: string;
+  sourceType?: 'upload' | 'recording';
+  // Translate the audio into this language rather than only transcribing it
+  targetLanguage?: string;
+}
+
+/**
+ * Start the queue worker now rather than waiting for its next scheduled run.
+ * Returns the number of pending items it picked up.
+ */
+export const runQueueWorker = async (): Promise<number> => {
+  const { data, error } = await supabase.functions.invoke('process-transcription-queue', {
+    body: {},
+  });
+
+  if (error) throw error;
+  if (data.error) throw new Error(data.error);
+  return data.claimed;
+};
+
+// Newly queued items would otherwise wait for the worker's next scheduled run
+const startQueueWorker = () => {
+  runQueueWorker().catch(error => console.error('Error starting queue worker:', error));
+};
+
+/**
+ * Store audio and add a job to transcribe it to the queue. Files over Whisper's limit are split
+ * here and the parts stored alongside the original, since the worker can't decode audio itself.
+ * Returns the queue item's ID.
+ */
+export const queueAudioTranscription = async (
+  audio: Blob,
+  { fileName, fileChecksum, sourceType = 'upload', targetLanguage }: QueuedAudioOptions
+): Promise<string> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('You must be logged in to transcribe audio');
+
+  // Stored as <user_id>/<checksum> like the edge functions do, so duplicates share one object
+  const filePath = `${user.id}/${fileChecksum}`;
+  const { error: uploadError } = await supabase.storage
+    .from(AUDIO_BUCKET)
+    .upload(filePath, audio, { contentType: audio.type || 'application/octet-stream' });
+
+  if (uploadError && !uploadError.message.includes('already exists')) throw uploadError;
+
+  let chunks: { path: string; offset: number }[] | undefined;
+  if (audio.size > WHISPER_MAX_UPLOAD_BYTES) {
+    const parts = await splitAudioIntoChunks(audio);
+    const folder = `${user.id}/queue/${crypto.randomUUID()}`;
+
+    chunks = [];
+    for (let index = 0; index < parts.length; index++) {
+      const path = `${folder}/part-${index + 1}.wav`;
+      const { error } = await supabase.storage
+        .from(AUDIO_BUCKET)
+        .upload(path, parts[index].blob, { contentType: 'audio/wav' });
+
+      if (error) throw error;
+      chunks.push({ path, offset: parts[index].offset });
+    }
+  }
+
+  const { data: queueItem, error } = await supabase
+    .from('transcription_queue')
+    .insert({
+      user_id: user.id,
+      source_type: sourceType,
+      source_ref: filePath,
+      source_metadata: {
+        fileName,
+        fileChecksum,
+        ...(chunks && { chunks, chunkOverlap: DEFAULT_CHUNK_OPTIONS.overlapSeconds }),
+      },
+      video_title: fileName,
+      target_language: targetLanguage ?? null,
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  startQueueWorker();
+  return queueItem.id;
+};
+
+export interface QueuedYouTubeVideo {
+  videoId: string;
+  url: string;
+  title: string;
+  thumbnail: string | null;
+  channelTitle: string;
+}
+
+/**
+ * Add a transcription job to the queue for each video, skipping any the user already has queued.
+ * Returns the number of videos added.
+ */
+export const queueYouTubeVideos = async (videos: QueuedYouTubeVideo[], language: string): Promise<number> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('You must be logged in to transcribe videos');
+
+  const { data: existing, error: existingError } = await supabase
+    .from('transcription_queue')
+    .select('video_id')
+    .in('video_id', videos.map(video => video.videoId))
+    .in('status', ['pending', 'processing', 'paused']);
+
+  if (existingError) throw existingError;
+
+  const queuedIds = new Set((existing || []).map(item => item.video_id));
+  const newVideos = videos.filter(video => !queuedIds.has(video.videoId));
+  if (newVideos.length === 0) return 0;
+
+  const { error } = await supabase
+    .from('transcription_queue')
+    .insert(newVideos.map(video => ({
+      user_id: user.id,
+      source_type: 'youtube',
+      source_ref: video.url,
+      video_id: video.videoId,
+      video_url: video.url,
+      video_title: video.title,
+      video_thumbnail: video.thumbnail,
+      channel_title: video.channelTitle,
+      language,
+    })));
+
+  if (error) throw error;
+
+  startQueueWorker();
+  return newVideos.length;
+};
+
+/**
+ * Queue the stored audio of an existing transcription to be transcribed again, e.g. after changing
+ * provider. The result is saved as a new version alongside the original. Returns the queue item's ID.
+ */
+export const queueTranscriptionRerun = async (log: { id: string; file_title: string }): Promise<string> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('You must be logged in to re-run transcriptions');
+
+  const { data: queueItem, error } = await supabase
+    .from('transcription_queue')
+    .insert({
+      user_id: user.id,
+      source_type: 'rerun',
+      source_ref: log.id,
+      video_title: `${log.file_title} (re-run)`,
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  startQueueWorker();
+  return queueItem.id;
+};
+
+/**
+ * Remove a queue item along with any parts of a split file stored for it, which the worker
+ * would otherwise only clean up once the job completes.
+ */
+export const deleteQueueItem = async (id: string): Promise<void> => {
+  const { data: item, error: itemError } = await supabase
+    .from('transcription_queue')
+    .select('source_metadata')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (itemError) throw itemError;
+
+  const chunks = (item?.source_metadata as { chunks?: { path: string }[] } | null)?.chunks;
+  if (chunks?.length) {
+    const { error: removeError } = await supabase.storage
+      .from(AUDIO_BUCKET)
+      .remove(chunks.map(chunk => chunk.path));
+
+    if (removeError) console.error('Error removing queued audio parts:', removeError);
+  }
+
+  const { error } = await supabase
+    .from('transcription_queue')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
@@ -0,0 +1,166 @@
+import { supabase } from "@/integrations/supabase/client";
+import { getFieldValues, parseSearchQuery, toTsQuery } from "@/lib/searchQuery";
+
+export interface TranscriptionSearchFilters {
+  searchQuery?: string;
+  contentSearchQuery?: string;
+  checksumQuery?: string;
+  statuses?: string[];
+  tagIds?: string[];
+  startDate?: string;
+  endDate?: string;
+  minLength?: number;
+  maxLength?: number;
+  sortField?: string | null;
+  sortDirection?: 'asc' | 'desc' | null;
+}
+
+export interface TranscriptionSearchHit {
+  id: string;
+  rank: number;
+  snippet: string | null;
+  sortValue: string;
+}
+
+/**
+ * Keyset position of a row in the sorted results: its id plus the value it was sorted by.
+ */
+export interface TranscriptionSearchCursor {
+  id: string;
+  value: string;
+}
+
+export interface TranscriptionPageOptions {
+  pageSize?: number | null;
+  // Continue after this row, or before it when paging backward
+  cursor?: TranscriptionSearchCursor | null;
+  // Page towards the start; without a cursor this returns the last page
+  backward?: boolean;
+  // Rows to skip when no cursor is known, e.g. when a page number is opened from a link
+  offset?: number;
+}
+
+export interface TranscriptionStats {
+  total: number;
+  completed: number;
+  failed: number;
+  processing: number;
+  averageLength: number;
+  duplicateGroups: number;
+}
+
+export interface HighlightedPart {
+  text: string;
+  highlighted: boolean;
+}
+
+// Combine a date picked in the UI with before:/after: operators, keeping the narrowest bound
+const narrowestDate = (dates: (string | undefined)[], keep: 'earliest' | 'latest'): string | undefined => {
+  const isoDates = dates.filter(Boolean).map(date => new Date(date).toISOString()).sort();
+  return keep === 'latest' ? isoDates[isoDates.length - 1] : isoDates[0];
+};
+
+const nonEmpty = (values: string[]) => (values.length > 0 ? values : undefined);
+
+// Arguments shared by the search and count RPCs. `contentSearchQuery` uses the syntax in
+// `@/lib/searchQuery`, and its field operators narrow the other filters.
+const toFilterArgs = (filters: TranscriptionSearchFilters) => {
+  const query = parseSearchQuery(filters.contentSearchQuery || '');
+
+  return {
+    _search_query: filters.searchQuery || undefined,
+    _content_tsquery: toTsQuery(query.content) || undefined,
+    _checksum_query: filters.checksumQuery?.trim() || undefined,
+    _statuses: filters.statuses?.length ? filters.statuses : undefined,
+    _tag_ids: filters.tagIds?.length ? filters.tagIds : undefined,
+    _required_tags: nonEmpty(getFieldValues(query, 'tag', false)),
+    _excluded_tags: nonEmpty(getFieldValues(query, 'tag', true)),
+    _query_statuses: nonEmpty(getFieldValues(query, 'status', false).map(status => status.toLowerCase())),
+    _excluded_statuses: nonEmpty(getFieldValues(query, 'status', true).map(status => status.toLowerCase())),
+    _start_date: narrowestDate(
+      [filters.startDate, ...getFieldValues(query, 'after', false), ...getFieldValues(query, 'before', true)],
+      'latest'
+    ),
+    _end_date: narrowestDate(
+      [filters.endDate, ...getFieldValues(query, 'before', false), ...getFieldValues(query, 'after', true)],
+      'earliest'
+    ),
+    _min_length: filters.minLength,
+    _max_length: filters.maxLength,
+  };
+};
+
+/**
+ * Run the history filters against the database and return one page of matching log ids in display
+ * order, ranked by relevance when searching transcript content and no sort is chosen. Pages are
+ * keyset paginated from `cursor`; pass a null `pageSize` to get every match.
+ */
+export const searchTranscriptionLogs = async (
+  filters: TranscriptionSearchFilters,
+  { pageSize = 10, cursor = null, backward = false, offset = 0 }: TranscriptionPageOptions = {}
+): Promise<TranscriptionSearchHit[]> => {
+  const { data, error } = await supabase.rpc('search_transcription_logs', {
+    ...toFilterArgs(filters),
+    _sort_field: filters.sortField && filters.sortDirection ? filters.sortField : undefined,
+    _sort_direction: filters.sortField && filters.sortDirection ? filters.sortDirection : undefined,
+    // null rather than undefined, which would fall back to the default page size
+    _page_size: pageSize,
+    _cursor_value: cursor?.value,
+    _cursor_id: cursor?.id,
+    _backward: backward,
+    _page_offset: offset,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({ id: row.id, rank: row.rank, snippet: row.snippet, sortValue: row.sort_value }));
+};
+
+/**
+ * Count the logs matching the history filters.
+ */
+export const countTranscriptionLogs = async (filters: TranscriptionSearchFilters): Promise<number> => {
+  const { data, error } = await supabase.rpc('count_transcription_logs', toFilterArgs(filters));
+
+  if (error) throw error;
+  return Number(data) || 0;
+};
+
+/**
+ * Totals across the user's whole history, independent of any filters.
+ */
+export const getTranscriptionStats = async (): Promise<TranscriptionStats> => {
+  const { data, error } = await supabase.rpc('get_transcription_stats');
+
+  if (error) throw error;
+
+  const row = data?.[0];
+  return {
+    total: Number(row?.total) || 0,
+    completed: Number(row?.completed) || 0,
+    failed: Number(row?.failed) || 0,
+    processing: Number(row?.processing) || 0,
+    averageLength: Number(row?.average_length) || 0,
+    duplicateGroups: Number(row?.duplicate_groups) || 0,
+  };
+};
+
+// Cursors go in the page URL as "<id>.<value>"; ids are UUIDs, so the first dot separates them
+export const serializeCursor = (cursor: TranscriptionSearchCursor): string => `${cursor.id}.${cursor.value}`;
+
+export const parseCursor = (serialized: string | null): TranscriptionSearchCursor | null => {
+  const separator = serialized?.indexOf('.') ?? -1;
+  if (separator <= 0) return null;
+  return { id: serialized.slice(0, separator), value: serialized.slice(separator + 1) };
+};
+
+/**
+ * Split a search snippet into plain and highlighted parts so it can be rendered without HTML injection.
+ */
+export const parseSnippet = (snippet: string): HighlightedPart[] =>
+  snippet
+    .split(/(<mark>[\s\S]*?<\/mark>)/)
+    .filter(Boolean)
+    .map(part => part.startsWith('<mark>') && part.endsWith('</mark>')
+      ? { text: part.slice(6, -7), highlighted: true }
+      : { text: part, highlighted: false });
@@ -0,0 +1,36 @@
+import { supabase } from "@/integrations/supabase/client";
+import { getLanguageName } from "@/lib/languages";
+import { runQueueWorker } from "@/lib/transcriptionQueue";
+
+interface TranslatableLog {
+  id: string;
+  file_title: string;
+}
+
+/**
+ * Add a translation job to the queue for each log and start the queue worker, which runs them
+ * in the background. Returns the number of jobs queued.
+ */
+export const queueTranslations = async (logs: TranslatableLog[], targetLanguage: string): Promise<number> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('You must be logged in to translate transcriptions');
+
+  const { data: queueItems, error } = await supabase
+    .from('transcription_queue')
+    .insert(logs.map(log => ({
+      user_id: user.id,
+      source_type: 'translation',
+      source_ref: log.id,
+      video_title: `${log.file_title} → ${getLanguageName(targetLanguage)}`,
+      transcription_log_id: log.id,
+      target_language: targetLanguage,
+      language: targetLanguage,
+    })))
+    .select('id');
+
+  if (error) throw error;
+
+  // Newly queued items would otherwise wait for the worker's next scheduled run
+  runQueueWorker().catch(startError => console.error('Error starting queue worker:', startError));
+  return queueItems?.length ?? 0;
+};
@@ -0,0 +1,124 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+
+export const WEBHOOK_EVENTS = [
+  { value: 'transcription.completed', label: 'Transcription completed' },
+  { value: 'transcription.failed', label: 'Transcription failed' },
+  { value: 'duplicate.detected', label: 'Duplicate detected' },
+  { value: 'cleanup.completed', label: 'Cleanup completed' },
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number]['value'];
+
+export interface WebhookEndpoint {
+  id: string;
+  user_id: string;
+  url: string;
+  description: string | null;
+  secret: string;
+  events: string[];
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event: string;
+  payload: Json;
+  status: 'pending' | 'delivering' | 'succeeded' | 'failed';
+  attempt_count: number;
+  next_attempt_at: string | null;
+  response_status: number | null;
+  error_message: string | null;
+  delivered_at: string | null;
+  replay_of: string | null;
+  created_at: string;
+}
+
+export interface WebhookEndpointInput {
+  url: string;
+  description?: string | null;
+  events: WebhookEventType[];
+  enabled?: boolean;
+}
+
+// Random signing secret, shown to the user so their receiver can verify signatures
+export const generateWebhookSecret = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return `whsec_${Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')}`;
+};
+
+export const fetchWebhookEndpoints = async (): Promise<WebhookEndpoint[]> => {
+  const { data, error } = await supabase
+    .from("webhook_endpoints")
+    .select("*")
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createWebhookEndpoint = async (input: WebhookEndpointInput): Promise<WebhookEndpoint> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const { data, error } = await supabase
+    .from("webhook_endpoints")
+    .insert({ ...input, user_id: user.id, secret: generateWebhookSecret() })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateWebhookEndpoint = async (
+  id: string,
+  updates: Partial<WebhookEndpointInput> & { secret?: string }
+): Promise<void> => {
+  const { error } = await supabase
+    .from("webhook_endpoints")
+    .update(updates)
+    .eq("id", id);
+
+  if (error) throw error;
+};
+
+export const deleteWebhookEndpoint = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from("webhook_endpoints")
+    .delete()
+    .eq("id", id);
+
+  if (error) throw error;
+};
+
+/**
+ * The most recent deliveries to an endpoint, newest first.
+ */
+export const fetchWebhookDeliveries = async (endpointId: string, limit = 25): Promise<WebhookDelivery[]> => {
+  const { data, error } = await supabase
+    .from("webhook_deliveries")
+    .select("*")
+    .eq("endpoint_id", endpointId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as WebhookDelivery[];
+};
+
+/**
+ * Send a past delivery's payload again, as a new delivery. Returns the new delivery.
+ */
+export const replayWebhookDelivery = async (deliveryId: string): Promise<WebhookDelivery> => {
+  const { data, error } = await supabase.functions.invoke('deliver-webhooks', {
+    body: { deliveryId },
+  });
+
+  if (error) throw error;
+  if (data.error) throw new Error(data.error);
+  return data.delivery;
+};
@@ -0,0 +1,113 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface YouTubeCaptionSummary {
+  available: boolean;
+  languages: Array<{ code: string; name: string; isAutoGenerated: boolean }>;
+  hasRequestedLanguage: boolean;
+}
+
+export interface ImportedYouTubeVideo {
+  videoId: string;
+  title: string;
+  description: string;
+  thumbnail: string | null;
+  channelTitle: string;
+  publishedAt: string;
+  url: string;
+  captions: YouTubeCaptionSummary;
+}
+
+export interface YouTubeImportSource {
+  kind: 'playlist' | 'channel';
+  id: string;
+  title: string;
+  url: string;
+}
+
+export interface YouTubeImport {
+  source: YouTubeImportSource;
+  results: ImportedYouTubeVideo[];
+}
+
+export interface ChannelWatch {
+  id: string;
+  channel_id: string;
+  channel_title: string;
+  channel_url: string;
+  language: string;
+  enabled: boolean;
+  last_published_at: string | null;
+  last_checked_at: string | null;
+  created_at: string;
+}
+
+/**
+ * List the videos in a playlist or channel, with the caption details search results have.
+ * `language` marks which videos have captions in it.
+ */
+export const importYouTubeUrl = async (url: string, language?: string): Promise<YouTubeImport> => {
+  const { data, error } = await supabase.functions.invoke('import-youtube', {
+    body: { url, language },
+  });
+
+  if (error) throw error;
+  if (data.error) throw new Error(data.error);
+  return data;
+};
+
+export const fetchChannelWatches = async (): Promise<ChannelWatch[]> => {
+  const { data, error } = await supabase
+    .from('youtube_channel_watches')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Start queueing a channel's new uploads. Uploads up to `latestPublishedAt` have already been
+ * listed to the user, so only ones published after it are queued.
+ */
+export const watchChannel = async (
+  source: YouTubeImportSource,
+  language: string,
+  latestPublishedAt: string | null
+): Promise<void> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('You must be logged in to watch channels');
+
+  const { error } = await supabase
+    .from('youtube_channel_watches')
+    .upsert({
+      user_id: user.id,
+      channel_id: source.id,
+      channel_title: source.title,
+      channel_url: source.url,
+      language,
+      enabled: true,
+      last_published_at: latestPublishedAt,
+    }, {
+      onConflict: 'user_id,channel_id',
+    });
+
+  if (error) throw error;
+};
+
+export const setChannelWatchEnabled = async (id: string, enabled: boolean): Promise<void> => {
+  const { error } = await supabase
+    .from('youtube_channel_watches')
+    .update({ enabled })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const deleteChannelWatch = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('youtube_channel_watches')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
@@ -0,0 +1,59 @@
+// What a YouTube URL points at; mirrors parseYouTubeUrl in the edge functions' shared youtube module
+export type YouTubeUrl =
+  | { kind: 'video'; videoId: string }
+  | { kind: 'playlist'; playlistId: string }
+  | { kind: 'channel'; channelId?: string; handle?: string; username?: string; customName?: string };
+
+const VIDEO_ID_PATTERN = /^[a-zA-Z0-9_-]{11}$/;
+
+/**
+ * Work out what a YouTube URL refers to. A watch URL inside a playlist is still the video;
+ * a bare 11 character ID is treated as a video ID.
+ */
+export const parseYouTubeUrl = (input: string): YouTubeUrl | null => {
+  const value = input.trim();
+  if (VIDEO_ID_PATTERN.test(value)) return { kind: 'video', videoId: value };
+
+  let url: URL;
+  try {
+    url = new URL(value.startsWith('http') ? value : `https://${value}`);
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname.replace(/^(www|m|music)\./, '');
+  if (host === 'youtu.be') {
+    const videoId = url.pathname.slice(1);
+    return VIDEO_ID_PATTERN.test(videoId) ? { kind: 'video', videoId } : null;
+  }
+  if (host !== 'youtube.com') return null;
+
+  const videoId = url.searchParams.get('v');
+  if (videoId && VIDEO_ID_PATTERN.test(videoId)) return { kind: 'video', videoId };
+
+  const [first, second] = url.pathname.split('/').filter(Boolean);
+  if ((first === 'embed' || first === 'shorts' || first === 'live') && second && VIDEO_ID_PATTERN.test(second)) {
+    return { kind: 'video', videoId: second };
+  }
+
+  const playlistId = url.searchParams.get('list');
+  if (playlistId) return { kind: 'playlist', playlistId };
+
+  if (first?.startsWith('@')) return { kind: 'channel', handle: first };
+  if (first === 'channel' && second) return { kind: 'channel', channelId: second };
+  if (first === 'user' && second) return { kind: 'channel', username: second };
+  if (first === 'c' && second) return { kind: 'channel', customName: second };
+
+  return null;
+};
+
+export const extractVideoId = (url: string): string | null => {
+  const parsed = parseYouTubeUrl(url);
+  return parsed?.kind === 'video' ? parsed.videoId : null;
+};
+
+// Playlists and channels are imported and queued video by video rather than transcribed directly
+export const isYouTubeCollectionUrl = (url: string): boolean => {
+  const parsed = parseYouTubeUrl(url);
+  return parsed?.kind === 'playlist' || parsed?.kind === 'channel';
+};
@@ -4,7 +4,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, TrendingUp, AlertCircle, CheckCircle, Clock } from "lucide-react";
+import { ArrowLeft, TrendingUp, AlertCircle, CheckCircle, Clock, Timer, DollarSign, Languages } from "lucide-react";
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, PieChart, Pie, Cell, Legend, ResponsiveContainer } from "recharts";
 
@@ -15,6 +15,8 @@ interface TranscriptionStats {
   processing: number;
   pending: number;
   completionRate: number;
+  minutesProcessed: number;
+  estimatedSpend: number;
 }
 
 interface ErrorStat {
@@ -22,6 +24,25 @@ interface ErrorStat {
   count: number;
 }
 
+interface LanguageStat {
+  language: string;
+  count: number;
+  fill: string;
+}
+
+interface UserUsageStat {
+  userId: string;
+  label: string;
+  transcriptions: number;
+  minutes: number;
+  spend: number;
+}
+
+const CHART_COLORS = [1, 2, 3, 4, 5].map(index => `hsl(var(--chart-${index}))`);
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", minimumFractionDigits: 2, maximumFractionDigits: 4 }).format(value);
+
 export default function AdminTranscriptionAnalytics() {
   const [loading, setLoading] = useState(true);
   const [isAdmin, setIsAdmin] = useState(false);
@@ -32,8 +53,12 @@ export default function AdminTranscriptionAnalytics() {
     processing: 0,
     pending: 0,
     completionRate: 0,
+    minutesProcessed: 0,
+    estimatedSpend: 0,
   });
   const [errorStats, setErrorStats] = useState<ErrorStat[]>([]);
+  const [languageStats, setLanguageStats] = useState<LanguageStat[]>([]);
+  const [userUsageStats, setUserUsageStats] = useState<UserUsageStat[]>([]);
   const navigate = useNavigate();
   const { toast } = useToast();
 
@@ -72,12 +97,15 @@ export default function AdminTranscriptionAnalytics() {
   const fetchAnalytics = async () => {
     setLoading(true);
 
-    // Fetch transcription logs statistics
-    const { data: logs, error: logsError } = await supabase
-      .from("transcription_logs")
-      .select("status, error_message");
+    // Usage is aggregated in the database, since one row per log would be cut off at the API's row limit
+    const [usage, languages, users, errors] = await Promise.all([
+      supabase.rpc("get_transcription_usage"),
+      supabase.rpc("get_transcription_usage_by_language"),
+      supabase.rpc("get_transcription_usage_by_user", { _limit: 10 }),
+      supabase.rpc("get_transcription_error_counts", { _limit: 10 }),
+    ]);
 
-    if (logsError) {
+    if (usage.error || languages.error || users.error || errors.error) {
       toast({
         title: "Error",
         description: "Failed to fetch transcription analytics.",
@@ -87,40 +115,42 @@ export default function AdminTranscriptionAnalytics() {
       return;
     }
 
-    // Calculate statistics
-    const total = logs?.length || 0;
-    const completed = logs?.filter(log => log.status === "completed").length || 0;
-    const failed = logs?.filter(log => log.status === "failed").length || 0;
-    const processing = logs?.filter(log => log.status === "processing").length || 0;
-    const pending = logs?.filter(log => log.status === "pending").length || 0;
+    const totals = usage.data?.[0];
+    const total = Number(totals?.total) || 0;
+    const completed = Number(totals?.completed) || 0;
     const completionRate = total > 0 ? Math.round((completed / total) * 100) : 0;
 
+    // Minutes and spend only count completed transcriptions
     setStats({
       total,
       completed,
-      failed,
-      processing,
-      pending,
+      failed: Number(totals?.failed) || 0,
+      processing: Number(totals?.processing) || 0,
+      pending: Number(totals?.pending) || 0,
       completionRate,
+      minutesProcessed: Number(totals?.duration_seconds || 0) / 60,
+      estimatedSpend: Number(totals?.estimated_cost || 0),
     });
 
-    // Calculate error statistics
-    const failedLogs = logs?.filter(log => log.status === "failed" && log.error_message) || [];
-    const errorMap = new Map<string, number>();
-
-    failedLogs.forEach(log => {
-      const error = log.error_message || "Unknown error";
-      // Truncate long error messages
-      const shortError = error.length > 50 ? error.substring(0, 50) + "..." : error;
-      errorMap.set(shortError, (errorMap.get(shortError) || 0) + 1);
-    });
+    setLanguageStats(
+      (languages.data || []).map((row, index) => ({
+        language: row.language || "Unknown",
+        count: Number(row.transcriptions),
+        fill: CHART_COLORS[index % CHART_COLORS.length],
+      }))
+    );
 
-    const errorStatsArray = Array.from(errorMap.entries())
-      .map(([error, count]) => ({ error, count }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 10); // Top 10 errors
+    setUserUsageStats(
+      (users.data || []).map(row => ({
+        userId: row.user_id,
+        label: row.user_email || `User ${row.user_id.slice(0, 8)}`,
+        transcriptions: Number(row.transcriptions),
+        minutes: Number(row.duration_seconds || 0) / 60,
+        spend: Number(row.estimated_cost || 0),
+      }))
+    );
 
-    setErrorStats(errorStatsArray);
+    setErrorStats((errors.data || []).map(row => ({ error: row.error_message, count: Number(row.failures) })));
     setLoading(false);
   };
 
@@ -179,7 +209,7 @@ export default function AdminTranscriptionAnalytics() {
               Back to Dashboard
             </Button>
             <h1 className="text-4xl font-bold text-foreground">Transcription Analytics</h1>
-            <p className="text-muted-foreground mt-2">Monitor transcription progress and error patterns</p>
+            <p className="text-muted-foreground mt-2">Monitor transcription progress, usage and error patterns</p>
           </div>
           <Button onClick={fetchAnalytics} variant="outline">
             Refresh Data
@@ -230,6 +260,44 @@ export default function AdminTranscriptionAnalytics() {
           </Card>
         </div>
 
+        {/* Usage Cards */}
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Minutes Processed</CardTitle>
+              <Timer className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{Math.round(stats.minutesProcessed).toLocaleString()}</div>
+              <p className="text-xs text-muted-foreground">across completed transcriptions</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Estimated Spend</CardTitle>
+              <DollarSign className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatCurrency(stats.estimatedSpend)}</div>
+              <p className="text-xs text-muted-foreground">based on provider pricing</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Languages</CardTitle>
+              <Languages className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {languageStats.filter(stat => stat.language !== "Unknown").length}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {languageStats[0] ? `Most common: ${languageStats[0].language}` : "No completed transcriptions"}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
         {/* Charts */}
         <div className="grid gap-6 lg:grid-cols-2">
           {/* Status Distribution */}
@@ -299,6 +367,79 @@ export default function AdminTranscriptionAnalytics() {
           </Card>
         </div>
 
+        {/* Usage Charts */}
+        <div className="grid gap-6 lg:grid-cols-2">
+          {/* Language Mix */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Language Mix</CardTitle>
+              <CardDescription>Detected languages of completed transcriptions</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {languageStats.length > 0 ? (
+                <ChartContainer config={chartConfig} className="h-[300px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <PieChart>
+                      <Pie
+                        data={languageStats}
+                        cx="50%"
+                        cy="50%"
+                        labelLine={false}
+                        label={({ language, count }) => `${language}: ${count}`}
+                        outerRadius={80}
+                        dataKey="count"
+                        nameKey="language"
+                      >
+                        {languageStats.map((entry, index) => (
+                          <Cell key={`language-${index}`} fill={entry.fill} />
+                        ))}
+                      </Pie>
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Legend />
+                    </PieChart>
+                  </ResponsiveContainer>
+                </ChartContainer>
+              ) : (
+                <div className="h-[300px] flex items-center justify-center text-muted-foreground">
+                  <p>No completed transcriptions yet</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Spend per User */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Spend per User</CardTitle>
+              <CardDescription>Top users by estimated transcription cost</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {userUsageStats.length > 0 ? (
+                <div className="space-y-2">
+                  {userUsageStats.map(usage => (
+                    <div
+                      key={usage.userId}
+                      className="flex items-center justify-between p-3 rounded-lg bg-muted/50"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-foreground truncate">{usage.label}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {usage.transcriptions} transcriptions, {Math.round(usage.minutes)} min
+                        </p>
+                      </div>
+                      <p className="text-sm font-bold text-foreground">{formatCurrency(usage.spend)}</p>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="h-[300px] flex items-center justify-center text-muted-foreground">
+                  <p>No usage recorded yet</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
         {/* Error Details Table */}
         {errorStats.length > 0 && (
           <Card>
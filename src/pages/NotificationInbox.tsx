@@ -0,0 +1,251 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { toast } from "sonner";
+import { ArrowLeft, Inbox, Loader2, CheckCheck, Archive, ArchiveRestore, Mail, MailOpen, ExternalLink, Settings } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+import { useRealtimeNotifications } from "@/contexts/RealtimeNotificationsContext";
+import {
+  AppNotification,
+  NotificationFilter,
+  fetchNotifications,
+  setNotificationRead,
+  setNotificationArchived,
+  getNotificationIcon,
+} from "@/lib/notifications";
+
+const PAGE_SIZE = 20;
+
+const NotificationInbox = () => {
+  const navigate = useNavigate();
+  const { unreadCount, markAllAsRead, refresh } = useRealtimeNotifications();
+  const [filter, setFilter] = useState<NotificationFilter>('all');
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  // Check authentication
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        navigate("/auth");
+      }
+    });
+  }, [navigate]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetchNotifications({ filter, limit: PAGE_SIZE })
+      .then((page) => {
+        if (cancelled) return;
+        setNotifications(page);
+        setHasMore(page.length === PAGE_SIZE);
+      })
+      .catch((error) => {
+        console.error("Error loading notifications:", error);
+        toast.error("Failed to load notifications");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filter]);
+
+  const loadMore = async () => {
+    setIsLoadingMore(true);
+    try {
+      const page = await fetchNotifications({ filter, limit: PAGE_SIZE, offset: notifications.length });
+      setNotifications((prev) => [...prev, ...page]);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (error) {
+      console.error("Error loading notifications:", error);
+      toast.error("Failed to load notifications");
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const toggleRead = async (notification: AppNotification) => {
+    const read = !notification.read_at;
+    try {
+      await setNotificationRead(notification.id, read);
+      if (filter === 'unread' && read) {
+        setNotifications((prev) => prev.filter((n) => n.id !== notification.id));
+      } else {
+        const readAt = read ? new Date().toISOString() : null;
+        setNotifications((prev) => prev.map((n) => (n.id === notification.id ? { ...n, read_at: readAt } : n)));
+      }
+      await refresh();
+    } catch (error) {
+      console.error("Error updating notification:", error);
+      toast.error("Failed to update notification");
+    }
+  };
+
+  const toggleArchived = async (notification: AppNotification) => {
+    const archived = !notification.archived_at;
+    try {
+      await setNotificationArchived(notification.id, archived);
+      // Archiving moves it out of the inbox views, restoring moves it out of the archive
+      setNotifications((prev) => prev.filter((n) => n.id !== notification.id));
+      await refresh();
+      toast.success(archived ? "Notification archived" : "Notification restored");
+    } catch (error) {
+      console.error("Error archiving notification:", error);
+      toast.error("Failed to archive notification");
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    await markAllAsRead();
+    const now = new Date().toISOString();
+    setNotifications((prev) =>
+      filter === 'unread' ? [] : prev.map((n) => ({ ...n, read_at: n.read_at ?? now }))
+    );
+  };
+
+  const openNotification = async (notification: AppNotification) => {
+    if (!notification.read_at) {
+      await toggleRead(notification);
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5 p-4">
+      <div className="max-w-3xl mx-auto pt-8">
+        <div className="flex items-center justify-between mb-6">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+          <Button variant="ghost" onClick={() => navigate("/notifications")}>
+            <Settings className="h-4 w-4 mr-2" />
+            Notification Settings
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <div className="h-12 w-12 rounded-full bg-primary/10 flex items-center justify-center">
+                <Inbox className="h-6 w-6 text-primary" />
+              </div>
+              <div className="flex-1">
+                <CardTitle>Notifications</CardTitle>
+                <CardDescription>
+                  {unreadCount > 0 ? `${unreadCount} unread` : "You're all caught up"}
+                </CardDescription>
+              </div>
+              <Button variant="outline" size="sm" disabled={unreadCount === 0} onClick={handleMarkAllRead}>
+                <CheckCheck className="h-4 w-4 mr-2" />
+                Mark all as read
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Tabs value={filter} onValueChange={(value) => setFilter(value as NotificationFilter)}>
+              <TabsList className="grid w-full grid-cols-3">
+                <TabsTrigger value="all">All</TabsTrigger>
+                <TabsTrigger value="unread">Unread</TabsTrigger>
+                <TabsTrigger value="archived">Archived</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            {isLoading ? (
+              <div className="flex items-center justify-center h-32">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : notifications.length === 0 ? (
+              <div className="flex items-center justify-center h-32 text-sm text-muted-foreground">
+                {filter === 'archived' ? "No archived notifications" : filter === 'unread' ? "No unread notifications" : "No notifications"}
+              </div>
+            ) : (
+              <div className="divide-y rounded-md border">
+                {notifications.map((notification) => {
+                  const Icon = getNotificationIcon(notification.type);
+                  const unread = !notification.read_at;
+
+                  return (
+                    <div
+                      key={notification.id}
+                      className={cn("flex items-start gap-3 p-4", unread && "bg-primary/5")}
+                    >
+                      <Icon className="h-5 w-5 mt-0.5 shrink-0 text-muted-foreground" />
+                      <div className="flex-1 min-w-0">
+                        <p className={cn("text-sm", unread && "font-medium")}>{notification.title}</p>
+                        <span className="text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        {notification.link && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="Open"
+                            onClick={() => openNotification(notification)}
+                          >
+                            <ExternalLink className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {!notification.archived_at && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title={unread ? "Mark as read" : "Mark as unread"}
+                            onClick={() => toggleRead(notification)}
+                          >
+                            {unread ? <MailOpen className="h-4 w-4" /> : <Mail className="h-4 w-4" />}
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title={notification.archived_at ? "Restore" : "Archive"}
+                          onClick={() => toggleArchived(notification)}
+                        >
+                          {notification.archived_at ? (
+                            <ArchiveRestore className="h-4 w-4" />
+                          ) : (
+                            <Archive className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {hasMore && !isLoading && (
+              <div className="flex justify-center">
+                <Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+                  {isLoadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Load more
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationInbox;
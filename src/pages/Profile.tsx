@@ -7,7 +7,7 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { toast } from "sonner";
-import { ArrowLeft, Loader2, User, Upload, X, Bell } from "lucide-react";
+import { ArrowLeft, Loader2, User, Upload, X, Bell, Webhook } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { ActivityLogViewer } from "@/components/ActivityLogViewer";
 import { logProfileUpdate } from "@/lib/activityLogger";
@@ -311,6 +311,14 @@ const Profile = () => {
                   <Bell className="h-4 w-4 mr-2" />
                   Notifications
                 </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => navigate("/webhooks")}
+                >
+                  <Webhook className="h-4 w-4 mr-2" />
+                  Webhooks
+                </Button>
                 <Button
                   type="button"
                   variant="outline"
@@ -1,6 +1,6 @@
-import { useEffect, useState, useMemo } from "react";
+import { useEffect, useState, useMemo, useRef } from "react";
 import JSZip from "jszip";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,7 +8,7 @@ import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Search, Download, Eye, Filter, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, FileArchive, ArrowUpDown, ArrowUp, ArrowDown, Trash2, FileText, CheckCircle2, XCircle, TrendingUp, RefreshCw, FileSpreadsheet, Columns3, HelpCircle, Keyboard, BarChart3, Clock, Calendar, GitCompare, Merge, Sliders, Tag, Plus, X, Edit2, Palette, Star, MessageSquare, BarChart2, History, Shield, Copy, AlertTriangle } from "lucide-react";
+import { ArrowLeft, Search, Download, Eye, Filter, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, FileArchive, ArrowUpDown, ArrowUp, ArrowDown, Trash2, FileText, CheckCircle2, XCircle, TrendingUp, RefreshCw, FileSpreadsheet, Columns3, HelpCircle, Keyboard, BarChart3, Clock, Calendar, GitCompare, Merge, Sliders, Tag, Plus, X, Edit2, Palette, Star, MessageSquare, BarChart2, History, Shield, Copy, AlertTriangle, Captions, Users, Languages } from "lucide-react";
 import { toast } from "sonner";
 import { format, parseISO, startOfDay, startOfHour, getHours, getDay, startOfWeek, startOfMonth, subDays, endOfDay } from "date-fns";
 import { LineChart, Line, BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
@@ -19,7 +19,18 @@ import TagTemplateManager from "@/components/TagTemplateManager";
 import { PresetAnalytics } from "@/components/PresetAnalytics";
 import { PresetVersionHistory } from "@/components/PresetVersionHistory";
 import { DuplicateDetectionDashboard } from "@/components/DuplicateDetectionDashboard";
+import { TranscriptPlayer } from "@/components/TranscriptPlayer";
+import { TranscriptRevisionHistory } from "@/components/TranscriptRevisionHistory";
+import { TranscriptTranslations } from "@/components/TranscriptTranslations";
+import { TranslateTranscriptsDialog } from "@/components/TranslateTranscriptsDialog";
+import { SemanticSearchResults } from "@/components/SemanticSearchResults";
+import { logTranscriptEdit } from "@/lib/activityLogger";
 import { cn } from "@/lib/utils";
+import { exportToSRT, exportToWebVTT, exportToDOCX, formatSRT, formatWebVTT, buildSpeakerParagraphs, formatSpeakerTranscript, DEFAULT_SUBTITLE_OPTIONS, SubtitleOptions, SubtitleSegment, TranscriptParagraph } from "@/lib/exportUtils";
+import { searchTranscriptionLogs, countTranscriptionLogs, getTranscriptionStats, parseSnippet, parseCursor, serializeCursor, TranscriptionSearchFilters, TranscriptionStats } from "@/lib/transcriptionSearch";
+import { buildHighlightPattern, parseSearchQuery, ParsedSearchQuery } from "@/lib/searchQuery";
+import { reindexTranscription } from "@/lib/semanticSearch";
+import { queueTranscriptionRerun } from "@/lib/transcriptionQueue";
 
 // Color palette themes for tags
 const COLOR_THEMES = {
@@ -89,6 +100,7 @@ import {
 } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
+import { Textarea } from "@/components/ui/textarea";
 
 interface TranscriptionLog {
   id: string;
@@ -99,9 +111,19 @@ interface TranscriptionLog {
   log_time: string;
   transcription_text?: string;
   file_checksum?: string;
+  file_path?: string | null;
+  provider?: string | null;
+  model?: string | null;
+  source?: string | null;
+  language?: string | null;
+  duration_seconds?: number | null;
   tags?: Tag[];
 }
 
+interface TimedSegment extends SubtitleSegment {
+  speaker_index: number | null;
+}
+
 interface Tag {
   id: string;
   name: string;
@@ -136,6 +158,7 @@ interface FilterPreset {
   filter_data: {
     searchQuery?: string;
     contentSearchQuery?: string;
+    contentQuery?: ParsedSearchQuery;
     selectedStatuses?: string[];
     selectedTagFilters?: string[];
     startDate?: string;
@@ -188,9 +211,68 @@ interface PresetComment {
 
 type SortField = 'file_title' | 'status' | 'created_at';
 type SortDirection = 'asc' | 'desc' | null;
+type ExportFormat = 'txt' | 'srt' | 'vtt';
 
 const FILTER_STORAGE_KEY = 'transcription_history_filters';
 
+// Everything the history list needs, leaving out the search_vector column
+const LOG_LIST_SELECT = `
+  id, file_title, status, created_at, error_message, log_time, transcription_text, file_checksum,
+  file_path, provider, model, source, language, duration_seconds,
+  transcription_tags (
+    tag_id,
+    tags (*)
+  )
+`;
+
+// Flatten the transcription_tags join into a plain tags array
+const attachTags = <T extends { transcription_tags?: unknown[] | null }>(rows: T[] | null) =>
+  rows?.map(log => ({
+    ...log,
+    tags: log.transcription_tags?.map((tt: any) => tt.tags).filter(Boolean) || []
+  })) || [];
+
+// Ids per request when loading rows by id, to keep the query string a safe length
+const LOG_FETCH_BATCH_SIZE = 200;
+
+// Load the list rows for the given ids, in the order of the ids
+const fetchLogsByIds = async (ids: string[]): Promise<TranscriptionLog[]> => {
+  const logsById = new Map<string, TranscriptionLog>();
+
+  for (let start = 0; start < ids.length; start += LOG_FETCH_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from("transcription_logs")
+      .select(LOG_LIST_SELECT)
+      .in("id", ids.slice(start, start + LOG_FETCH_BATCH_SIZE));
+
+    if (error) throw error;
+    attachTags(data).forEach(log => logsById.set(log.id, log));
+  }
+
+  return ids.map(id => logsById.get(id)).filter(Boolean);
+};
+
+// Rows per request when reading segments; PostgREST caps responses at 1000 rows
+const SEGMENT_PAGE_SIZE = 1000;
+
+// Load every timed segment of one log in order, a page at a time
+const fetchLogSegments = async (logId: string) => {
+  const segments: Omit<TimedSegment, 'speaker'>[] = [];
+
+  for (let start = 0; ; start += SEGMENT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("transcription_segments")
+      .select("start_time, end_time, text, speaker_index")
+      .eq("transcription_id", logId)
+      .order("segment_index", { ascending: true })
+      .range(start, start + SEGMENT_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    segments.push(...(data || []));
+    if (!data || data.length < SEGMENT_PAGE_SIZE) return segments;
+  }
+};
+
 interface FilterPreferences {
   searchQuery: string;
   contentSearchQuery: string;
@@ -235,8 +317,19 @@ const saveFilterPreferences = (preferences: FilterPreferences) => {
 
 export default function TranscriptionHistory() {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // The whole history is only loaded for the analytics and duplicate views; the list itself is paged in the database
   const [logs, setLogs] = useState<TranscriptionLog[]>([]);
-  const [filteredLogs, setFilteredLogs] = useState<TranscriptionLog[]>([]);
+  // Every row seen so far, so selections and dialogs keep working across pages
+  const [loadedLogs, setLoadedLogs] = useState<Map<string, TranscriptionLog>>(new Map());
+  const [searchResults, setSearchResults] = useState<TranscriptionLog[]>([]);
+  const [searchTotal, setSearchTotal] = useState(0);
+  const [searchSnippets, setSearchSnippets] = useState<Map<string, string>>(new Map());
+  const [searchCursors, setSearchCursors] = useState<Map<string, string>>(new Map());
+  const [stats, setStats] = useState<TranscriptionStats | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [isSearching, setIsSearching] = useState(false);
+  const searchRequestRef = useRef(0);
   
   // Load saved preferences
   const savedPrefs = loadFilterPreferences();
@@ -248,8 +341,13 @@ export default function TranscriptionHistory() {
   const [endDate, setEndDate] = useState(savedPrefs.endDate || "");
   const [selectedLog, setSelectedLog] = useState<TranscriptionLog | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState(savedPrefs.pageSize || 10);
+  // The page lives in the URL as ?page=N plus the keyset cursor it was reached from, so it can be linked to
+  const currentPage = Math.max(1, Number(searchParams.get('page')) || 1);
+  const pageCursor = searchParams.get('cursor');
+  const pageDirection = searchParams.get('dir');
+  // Notifications link straight to a transcription with ?log=<id>
+  const linkedLogId = searchParams.get('log');
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [isExporting, setIsExporting] = useState(false);
   const [sortField, setSortField] = useState<SortField | null>(savedPrefs.sortField || null);
@@ -321,6 +419,26 @@ export default function TranscriptionHistory() {
   const [checksumGroups, setChecksumGroups] = useState<Map<string, TranscriptionLog[]>>(new Map());
   const [selectedChecksumGroup, setSelectedChecksumGroup] = useState<string | null>(null);
   const [showDuplicateDashboard, setShowDuplicateDashboard] = useState(false);
+  const [subtitleOptions, setSubtitleOptions] = useState<SubtitleOptions>(DEFAULT_SUBTITLE_OPTIONS);
+  const [detailSegments, setDetailSegments] = useState<TimedSegment[]>([]);
+  const [isLabellingSpeakers, setIsLabellingSpeakers] = useState(false);
+  const detailSpeakers = useMemo(() => {
+    const speakers = new Map<number, string>();
+    detailSegments.forEach(segment => {
+      if (segment.speaker_index !== null && !speakers.has(segment.speaker_index)) {
+        speakers.set(segment.speaker_index, segment.speaker || `Speaker ${segment.speaker_index + 1}`);
+      }
+    });
+    return Array.from(speakers, ([index, name]) => ({ index, name })).sort((a, b) => a.index - b.index);
+  }, [detailSegments]);
+  const detailAudioRef = useRef<HTMLAudioElement>(null);
+  const [isEditingTranscript, setIsEditingTranscript] = useState(false);
+  const [editedTranscript, setEditedTranscript] = useState("");
+  const [isSavingTranscript, setIsSavingTranscript] = useState(false);
+  const [showRevisionHistory, setShowRevisionHistory] = useState(false);
+  const [translateLogs, setTranslateLogs] = useState<TranscriptionLog[]>([]);
+  const [contentSearchMode, setContentSearchMode] = useState<'keyword' | 'semantic'>('keyword');
+  const [detailStart, setDetailStart] = useState<{ logId: string; time: number | null } | null>(null);
 
   // Save filter preferences whenever they change
   useEffect(() => {
@@ -400,7 +518,6 @@ export default function TranscriptionHistory() {
 
   useEffect(() => {
     checkAuth();
-    fetchLogs();
     fetchTags();
     fetchCategories();
     fetchTemplates();
@@ -418,9 +535,11 @@ export default function TranscriptionHistory() {
         (payload) => {
           console.log('Realtime update:', payload);
           
+          // Re-run the current page rather than patching rows in, since a change can move rows between pages
+          setRefreshKey(key => key + 1);
+
           if (payload.eventType === 'INSERT') {
             const newLog = payload.new as TranscriptionLog;
-            setLogs(prev => [newLog, ...prev]);
             
             // Mark as newly updated and show animation
             setNewlyUpdatedIds(prev => new Set(prev).add(newLog.id));
@@ -435,9 +554,6 @@ export default function TranscriptionHistory() {
             toast.success('New transcription added');
           } else if (payload.eventType === 'UPDATE') {
             const updatedLog = payload.new as TranscriptionLog;
-            setLogs(prev => prev.map(log => 
-              log.id === updatedLog.id ? updatedLog : log
-            ));
             
             // Mark as newly updated and show animation
             setNewlyUpdatedIds(prev => new Set(prev).add(updatedLog.id));
@@ -456,7 +572,6 @@ export default function TranscriptionHistory() {
               toast.error(`Transcription failed: ${updatedLog.file_title}`);
             }
           } else if (payload.eventType === 'DELETE') {
-            setLogs(prev => prev.filter(log => log.id !== payload.old.id));
             toast.info('Transcription deleted');
           }
         }
@@ -490,7 +605,7 @@ export default function TranscriptionHistory() {
           table: 'transcription_tags'
         },
         () => {
-          fetchLogs();
+          setRefreshKey(key => key + 1);
         }
       )
       .subscribe();
@@ -654,7 +769,7 @@ export default function TranscriptionHistory() {
         
         // Get most frequently used tags
         const tagUsageMap = new Map<string, number>();
-        logs.forEach(log => {
+        loadedLogs.forEach(log => {
           log.tags?.forEach(tag => {
             tagUsageMap.set(tag.id, (tagUsageMap.get(tag.id) || 0) + 1);
           });
@@ -684,7 +799,7 @@ export default function TranscriptionHistory() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [tags, logs, selectedIds]);
+  }, [tags, loadedLogs, selectedIds]);
 
   // Tag autocomplete when typing in search
   useEffect(() => {
@@ -748,6 +863,8 @@ export default function TranscriptionHistory() {
     const filterData = {
       searchQuery,
       contentSearchQuery,
+      // Parsed form of the content query, so consumers other than this page can read it
+      contentQuery: contentSearchQuery ? parseSearchQuery(contentSearchQuery) : undefined,
       selectedStatuses: Array.from(selectedStatuses),
       selectedTagFilters: Array.from(selectedTagFilters),
       startDate,
@@ -781,7 +898,7 @@ export default function TranscriptionHistory() {
     const data = preset.filter_data;
     
     setSearchQuery(data.searchQuery || '');
-    setContentSearchQuery(data.contentSearchQuery || '');
+    setContentSearchQuery(data.contentQuery?.text ?? data.contentSearchQuery ?? '');
     setSelectedStatuses(new Set(data.selectedStatuses || []));
     setSelectedTagFilters(new Set(data.selectedTagFilters || []));
     setStartDate(data.startDate || '');
@@ -1104,11 +1221,6 @@ export default function TranscriptionHistory() {
     fetchPresetComments(presetId);
   };
 
-  useEffect(() => {
-    filterLogs();
-    setCurrentPage(1); // Reset to first page when filters or sort changes
-  }, [searchQuery, contentSearchQuery, checksumQuery, startDate, endDate, logs, sortField, sortDirection, selectedStatuses, lengthRange, selectedTagFilters]);
-
   // Group files by checksum
   useEffect(() => {
     const groups = new Map<string, TranscriptionLog[]>();
@@ -1139,125 +1251,179 @@ export default function TranscriptionHistory() {
     }
   };
 
-  const fetchLogs = async () => {
-    setIsLoading(true);
-    const { data, error } = await supabase
-      .from("transcription_logs")
-      .select(`
-        *,
-        transcription_tags (
-          tag_id,
-          tags (*)
-        )
-      `)
-      .order("created_at", { ascending: false });
-
-    if (error) {
-      console.error("Error fetching logs:", error);
-      toast.error("Failed to load transcription history");
-    } else {
-      // Transform the data to include tags
-      const logsWithTags = data?.map(log => ({
-        ...log,
-        tags: log.transcription_tags?.map((tt: any) => tt.tags).filter(Boolean) || []
-      })) || [];
-      setLogs(logsWithTags);
-      setFilteredLogs(logsWithTags);
-      setLastUpdated(new Date());
-    }
-    setIsLoading(false);
-  };
+  // Re-run the current page, counts and stats, plus the full history when it's loaded
+  const refreshHistory = () => setRefreshKey(key => key + 1);
 
-  const handleRefresh = async () => {
+  const handleRefresh = () => {
     setIsRefreshing(true);
-    await fetchLogs();
+    refreshHistory();
     setTimeout(() => setIsRefreshing(false), 500); // Keep animation for a bit
     toast.success("Transcription history refreshed");
   };
 
-  const filterLogs = () => {
-    let filtered = [...logs];
+  const searchFilters = useMemo((): TranscriptionSearchFilters => {
+    const isLengthFiltered = lengthRange[0] > 0 || lengthRange[1] < 50000;
 
-    // Search filter (file title)
-    if (searchQuery) {
-      filtered = filtered.filter((log) =>
-        log.file_title.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-    }
+    return {
+      searchQuery,
+      // In semantic mode the content box is a natural language query answered by the passages panel
+      contentSearchQuery: contentSearchMode === 'keyword' ? contentSearchQuery : '',
+      checksumQuery,
+      statuses: Array.from(selectedStatuses),
+      tagIds: Array.from(selectedTagFilters),
+      startDate,
+      endDate,
+      minLength: isLengthFiltered ? lengthRange[0] : undefined,
+      maxLength: isLengthFiltered ? lengthRange[1] : undefined,
+      sortField,
+      sortDirection,
+    };
+  }, [searchQuery, contentSearchQuery, contentSearchMode, checksumQuery, selectedStatuses, selectedTagFilters, startDate, endDate, lengthRange, sortField, sortDirection]);
 
-    // Content search filter (transcription text)
-    if (contentSearchQuery) {
-      filtered = filtered.filter((log) =>
-        log.transcription_text?.toLowerCase().includes(contentSearchQuery.toLowerCase())
-      );
-    }
+  // Without a cursor the last page is read backward from the end, so it needs the row count to size it
+  const lastPageRows = pageDirection === 'last' && searchTotal > 0 ? searchTotal % pageSize || pageSize : null;
+  const pageResetKey = JSON.stringify([searchFilters, pageSize]);
+  const pageResetKeyRef = useRef(pageResetKey);
 
-    // Checksum filter (find all versions of the same file)
-    if (checksumQuery.trim()) {
-      filtered = filtered.filter((log) =>
-        log.file_checksum?.toLowerCase().includes(checksumQuery.toLowerCase())
-      );
+  useEffect(() => {
+    // A linked page is kept on load; after that, changing filters, sort or page size starts over
+    if (pageResetKeyRef.current !== pageResetKey) {
+      pageResetKeyRef.current = pageResetKey;
+      if (currentPage > 1) {
+        goToFirstPage(true);
+        return;
+      }
     }
 
-    // Date filter
-    if (startDate) {
-      filtered = filtered.filter((log) =>
-        new Date(log.created_at) >= new Date(startDate)
-      );
-    }
+    // Debounced so typing in the search boxes doesn't send a query per keystroke
+    const timeout = setTimeout(searchLogs, 300);
+    return () => clearTimeout(timeout);
+  }, [pageResetKey, currentPage, pageCursor, pageDirection, lastPageRows, refreshKey]);
 
-    if (endDate) {
-      filtered = filtered.filter((log) =>
-        new Date(log.created_at) <= new Date(endDate)
-      );
-    }
+  // Counted separately from paging so moving between pages doesn't count again
+  useEffect(() => {
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const total = await countTranscriptionLogs(searchFilters);
+        if (!cancelled) setSearchTotal(total);
+      } catch (error) {
+        if (!cancelled) console.error("Error counting transcriptions:", error);
+      }
+    }, 300);
 
-    // Status filter
-    if (selectedStatuses.size > 0) {
-      filtered = filtered.filter((log) =>
-        selectedStatuses.has(log.status)
-      );
-    }
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [searchFilters, refreshKey]);
 
-    // Length range filter
-    if (lengthRange[0] > 0 || lengthRange[1] < 50000) {
-      filtered = filtered.filter((log) => {
-        const length = log.transcription_text?.length || 0;
-        return length >= lengthRange[0] && length <= lengthRange[1];
-      });
-    }
+  useEffect(() => {
+    getTranscriptionStats()
+      .then(setStats)
+      .catch(error => console.error("Error fetching transcription stats:", error));
+  }, [refreshKey]);
 
-    // Tag filter
-    if (selectedTagFilters.size > 0) {
-      filtered = filtered.filter((log) => {
-        if (!log.tags || log.tags.length === 0) return false;
-        return log.tags.some(tag => selectedTagFilters.has(tag.id));
-      });
-    }
+  // Analytics and the duplicate views work across the whole history, so it's only fetched while one is open
+  const needsFullHistory = showAnalytics || showDuplicateDashboard || showChecksumComparison;
+  useEffect(() => {
+    if (!needsFullHistory) return;
 
-    // Apply sorting
-    if (sortField && sortDirection) {
-      filtered.sort((a, b) => {
-        let aValue: string | number = a[sortField];
-        let bValue: string | number = b[sortField];
+    let cancelled = false;
+    const fetchFullHistory = async () => {
+      const { data, error } = await supabase
+        .from("transcription_logs")
+        .select(LOG_LIST_SELECT)
+        .order("created_at", { ascending: false });
 
-        // Convert to lowercase for string comparison
-        if (typeof aValue === 'string') aValue = aValue.toLowerCase();
-        if (typeof bValue === 'string') bValue = bValue.toLowerCase();
+      if (cancelled) return;
+      if (error) {
+        console.error("Error fetching logs:", error);
+        toast.error("Failed to load transcription history");
+      } else {
+        setLogs(attachTags(data));
+      }
+    };
 
-        // For dates, convert to timestamps
-        if (sortField === 'created_at') {
-          aValue = new Date(a[sortField]).getTime();
-          bValue = new Date(b[sortField]).getTime();
+    fetchFullHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [needsFullHistory, refreshKey]);
+
+  useEffect(() => {
+    if (!linkedLogId) return;
+
+    let cancelled = false;
+    fetchLogsByIds([linkedLogId])
+      .then(([log]) => {
+        if (cancelled) return;
+        if (log) {
+          setSelectedLog(log);
+        } else {
+          toast.error("Transcription not found");
         }
+      })
+      .catch(error => console.error("Error loading linked transcription:", error));
 
-        if (aValue < bValue) return sortDirection === 'asc' ? -1 : 1;
-        if (aValue > bValue) return sortDirection === 'asc' ? 1 : -1;
-        return 0;
-      });
+    return () => {
+      cancelled = true;
+    };
+  }, [linkedLogId]);
+
+  const closeLogDetails = () => {
+    setSelectedLog(null);
+    if (linkedLogId) {
+      const params = new URLSearchParams(searchParams);
+      params.delete('log');
+      setSearchParams(params, { replace: true });
     }
+  };
+
+  // Filter, sort and page in the database, then load just the rows for the current page. Pages reached
+  // from the pager continue from a keyset cursor; a page opened by number alone falls back to an offset.
+  const searchLogs = async () => {
+    const requestId = ++searchRequestRef.current;
+    setIsSearching(true);
+
+    try {
+      const cursor = parseCursor(pageCursor);
+      const hits = await searchTranscriptionLogs(searchFilters, {
+        pageSize: lastPageRows ?? pageSize,
+        cursor,
+        backward: pageDirection === 'prev' || pageDirection === 'last',
+        offset: cursor || pageDirection === 'last' ? 0 : (currentPage - 1) * pageSize,
+      });
+      if (requestId !== searchRequestRef.current) return;
+
+      // The page can empty out after deletions, so step back to the start
+      if (hits.length === 0 && currentPage > 1) {
+        goToFirstPage(true);
+        return;
+      }
+
+      const pageLogs = await fetchLogsByIds(hits.map(hit => hit.id));
+      if (requestId !== searchRequestRef.current) return;
 
-    setFilteredLogs(filtered);
+      setSearchResults(pageLogs);
+      setLoadedLogs(prev => {
+        const next = new Map(prev);
+        pageLogs.forEach(log => next.set(log.id, log));
+        return next;
+      });
+      setSearchSnippets(new Map(hits.filter(hit => hit.snippet).map(hit => [hit.id, hit.snippet])));
+      setSearchCursors(new Map(hits.map(hit => [hit.id, serializeCursor({ id: hit.id, value: hit.sortValue })])));
+      setLastUpdated(new Date());
+    } catch (error) {
+      if (requestId !== searchRequestRef.current) return;
+      console.error("Error searching transcriptions:", error);
+      toast.error("Failed to search transcription history");
+    } finally {
+      if (requestId === searchRequestRef.current) {
+        setIsSearching(false);
+        setIsLoading(false);
+      }
+    }
   };
 
   const formatDate = (dateString: string) => {
@@ -1313,8 +1479,8 @@ export default function TranscriptionHistory() {
 
   // Get transcriptions for comparison
   const compareTranscriptions = useMemo(() => {
-    return Array.from(compareIds).map(id => logs.find(log => log.id === id)).filter(Boolean) as TranscriptionLog[];
-  }, [compareIds, logs]);
+    return Array.from(compareIds).map(id => loadedLogs.get(id)).filter(Boolean) as TranscriptionLog[];
+  }, [compareIds, loadedLogs]);
 
   // Calculate similarity between two texts
   const calculateSimilarity = (text1: string, text2: string): number => {
@@ -1369,13 +1535,20 @@ export default function TranscriptionHistory() {
     }
   };
 
-  const handleDownloadTranscription = (log: TranscriptionLog) => {
+  const handleDownloadTranscription = async (log: TranscriptionLog) => {
     if (!log.transcription_text) {
       toast.error("No transcription text available");
       return;
     }
 
-    const blob = new Blob([log.transcription_text], { type: "text/plain" });
+    const segments = await fetchSegments([log.id])
+      .then(segmentsByLog => segmentsByLog.get(log.id) || [])
+      .catch(error => {
+        console.error("Error fetching segments:", error);
+        return [];
+      });
+
+    const blob = new Blob([getTranscriptText(log.transcription_text, segments)], { type: "text/plain" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
@@ -1406,7 +1579,222 @@ export default function TranscriptionHistory() {
     setSelectedIds(newSelected);
   };
 
-  const handleBulkExport = async () => {
+  // Fetch timed segments for the given logs, grouped by transcription id, with speaker names resolved
+  const fetchSegments = async (logIds: string[]) => {
+    const segmentsByLog = new Map<string, TimedSegment[]>();
+
+    for (const logId of logIds) {
+      const [segments, { data: speakers, error: speakersError }] = await Promise.all([
+        fetchLogSegments(logId),
+        supabase
+          .from("transcription_speakers")
+          .select("speaker_index, display_name")
+          .eq("transcription_id", logId),
+      ]);
+
+      if (speakersError) throw speakersError;
+
+      const speakerNames = new Map(speakers?.map(speaker => [speaker.speaker_index, speaker.display_name]));
+      segmentsByLog.set(logId, segments.map(segment => ({
+        ...segment,
+        speaker: segment.speaker_index === null
+          ? null
+          : speakerNames.get(segment.speaker_index) || `Speaker ${segment.speaker_index + 1}`,
+      })));
+    }
+    return segmentsByLog;
+  };
+
+  // Load segment timings for the transcript player when a log is opened
+  const selectedLogId = selectedLog?.id;
+  useEffect(() => {
+    setDetailSegments([]);
+    setIsEditingTranscript(false);
+    if (!selectedLogId) return;
+
+    fetchSegments([selectedLogId])
+      .then(segmentsByLog => setDetailSegments(segmentsByLog.get(selectedLogId) || []))
+      .catch(error => console.error("Error fetching segments:", error));
+  }, [selectedLogId]);
+
+  // Segment text goes stale once a transcript has been edited by hand
+  const segmentsMatchText = (segments: SubtitleSegment[], text: string) => {
+    const normalize = (value: string) => value.replace(/\s+/g, " ").trim();
+    return normalize(segments.map(segment => segment.text).join(" ")) === normalize(text);
+  };
+
+  // Speaker labels only apply while the segments still match the (possibly edited) transcript
+  const getTranscriptParagraphs = (text: string, segments: SubtitleSegment[]): TranscriptParagraph[] => {
+    if (segments.some(segment => segment.speaker) && segmentsMatchText(segments, text)) {
+      return buildSpeakerParagraphs(segments);
+    }
+    return text.split(/\n\s*\n/).filter(paragraph => paragraph.trim()).map(paragraph => ({ text: paragraph.trim() }));
+  };
+
+  const getTranscriptText = (text: string, segments: SubtitleSegment[]) => {
+    if (segments.some(segment => segment.speaker) && segmentsMatchText(segments, text)) {
+      return formatSpeakerTranscript(buildSpeakerParagraphs(segments));
+    }
+    return text;
+  };
+
+  const handleDownloadDOCX = async (log: TranscriptionLog) => {
+    if (!log.transcription_text) {
+      toast.error("No transcription text available");
+      return;
+    }
+
+    try {
+      const segments = (await fetchSegments([log.id])).get(log.id) || [];
+      await exportToDOCX(
+        log.file_title,
+        getTranscriptParagraphs(log.transcription_text, segments),
+        `${log.file_title.replace(/[^a-z0-9]/gi, "_")}_transcription.docx`
+      );
+      toast.success("Transcription downloaded as DOCX");
+    } catch (error) {
+      console.error("Error exporting DOCX:", error);
+      toast.error("Failed to export DOCX");
+    }
+  };
+
+  const handleLabelSpeakers = async (log: TranscriptionLog) => {
+    setIsLabellingSpeakers(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("diarize-transcription", {
+        body: { transcriptionId: log.id },
+      });
+
+      if (error) throw error;
+      if (data.error) throw new Error(data.error);
+
+      const segments = (await fetchSegments([log.id])).get(log.id) || [];
+      setDetailSegments(segments);
+      toast.success(`Identified ${data.speakerCount} speaker${data.speakerCount !== 1 ? 's' : ''}`);
+    } catch (error) {
+      console.error("Error labelling speakers:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to identify speakers");
+    } finally {
+      setIsLabellingSpeakers(false);
+    }
+  };
+
+  const handleRenameSpeaker = async (log: TranscriptionLog, speakerIndex: number, name: string) => {
+    const displayName = name.trim();
+    const current = detailSegments.find(segment => segment.speaker_index === speakerIndex)?.speaker;
+    if (!displayName || displayName === current) return;
+
+    const { error } = await supabase
+      .from("transcription_speakers")
+      .upsert(
+        { transcription_id: log.id, speaker_index: speakerIndex, display_name: displayName },
+        { onConflict: "transcription_id,speaker_index" }
+      );
+
+    if (error) {
+      console.error("Error renaming speaker:", error);
+      toast.error("Failed to rename speaker");
+      return;
+    }
+
+    setDetailSegments(prev => prev.map(segment =>
+      segment.speaker_index === speakerIndex ? { ...segment, speaker: displayName } : segment
+    ));
+    toast.success(`Renamed speaker to ${displayName}`);
+  };
+
+  const applyTranscriptText = (logId: string, text: string) => {
+    const withText = (log: TranscriptionLog) => log.id === logId ? { ...log, transcription_text: text } : log;
+    setLogs(prev => prev.map(withText));
+    setSearchResults(prev => prev.map(withText));
+    setLoadedLogs(prev => prev.has(logId) ? new Map(prev).set(logId, withText(prev.get(logId))) : prev);
+    setSelectedLog(prev => prev && prev.id === logId ? { ...prev, transcription_text: text } : prev);
+
+    // The database drops the old search passages when the text changes; rebuild them in the background
+    reindexTranscription(logId).catch(error => console.error("Error re-indexing transcript:", error));
+  };
+
+  // Open a transcription from a semantic search passage, positioned where the passage starts
+  const handleOpenPassage = async (transcriptionId: string, startTime: number | null) => {
+    let log = loadedLogs.get(transcriptionId);
+    if (!log) {
+      const { data, error } = await supabase
+        .from("transcription_logs")
+        .select(LOG_LIST_SELECT)
+        .eq("id", transcriptionId)
+        .maybeSingle();
+
+      if (error) console.error("Error loading transcription:", error);
+      log = data ? attachTags([data])[0] : undefined;
+    }
+
+    if (!log) {
+      toast.error("Transcription not found");
+      return;
+    }
+
+    setDetailStart({ logId: log.id, time: startTime });
+    setSelectedLog(log);
+  };
+
+  // Save an edited transcript; the database keeps the previous text as a revision
+  const handleSaveTranscript = async (log: TranscriptionLog) => {
+    if (editedTranscript === log.transcription_text) {
+      setIsEditingTranscript(false);
+      return;
+    }
+
+    setIsSavingTranscript(true);
+    const { error } = await supabase
+      .from("transcription_logs")
+      .update({ transcription_text: editedTranscript })
+      .eq("id", log.id);
+    setIsSavingTranscript(false);
+
+    if (error) {
+      console.error("Error saving transcript:", error);
+      toast.error("Failed to save transcript");
+      return;
+    }
+
+    applyTranscriptText(log.id, editedTranscript);
+    setIsEditingTranscript(false);
+    await logTranscriptEdit(log.id, log.file_title);
+    toast.success("Transcript saved");
+  };
+
+  const handleRerunTranscription = async (log: TranscriptionLog) => {
+    try {
+      await queueTranscriptionRerun(log);
+      toast.success("Re-run added to the transcription queue");
+    } catch (error) {
+      console.error("Error queueing re-run:", error);
+      toast.error("Failed to queue re-run");
+    }
+  };
+
+  const handleDownloadSubtitles = async (log: TranscriptionLog, exportFormat: 'srt' | 'vtt') => {
+    try {
+      const segments = (await fetchSegments([log.id])).get(log.id);
+      if (!segments || segments.length === 0) {
+        toast.error("No timing data available for this transcription");
+        return;
+      }
+
+      const baseName = log.file_title.replace(/[^a-z0-9]/gi, "_");
+      if (exportFormat === 'srt') {
+        exportToSRT(segments, `${baseName}.srt`, subtitleOptions);
+      } else {
+        exportToWebVTT(segments, `${baseName}.vtt`, subtitleOptions);
+      }
+      toast.success(`Subtitles downloaded as ${exportFormat.toUpperCase()}`);
+    } catch (error) {
+      console.error("Error exporting subtitles:", error);
+      toast.error("Failed to export subtitles");
+    }
+  };
+
+  const handleBulkExport = async (exportFormat: ExportFormat = 'txt') => {
     if (selectedIds.size === 0) {
       toast.error("No transcriptions selected");
       return;
@@ -1415,15 +1803,40 @@ export default function TranscriptionHistory() {
     setIsExporting(true);
     try {
       const zip = new JSZip();
+      let exportedCount = 0;
       
-      // Add each selected transcription to the ZIP
-      selectedIds.forEach(id => {
-        const log = logs.find(l => l.id === id);
-        if (log?.transcription_text) {
-          const filename = `${log.file_title.replace(/[^a-z0-9]/gi, "_")}_transcription.txt`;
-          zip.file(filename, log.transcription_text);
+      if (exportFormat === 'txt') {
+        // Add each selected transcription to the ZIP, with speaker labels where available
+        const segmentsByLog = await fetchSegments(Array.from(selectedIds));
+        selectedIds.forEach(id => {
+          const log = loadedLogs.get(id);
+          if (log?.transcription_text) {
+            const filename = `${log.file_title.replace(/[^a-z0-9]/gi, "_")}_transcription.txt`;
+            zip.file(filename, getTranscriptText(log.transcription_text, segmentsByLog.get(id) || []));
+            exportedCount++;
+          }
+        });
+      } else {
+        // Subtitles need segment timing, so logs without segments are skipped
+        const segmentsByLog = await fetchSegments(Array.from(selectedIds));
+        selectedIds.forEach(id => {
+          const log = loadedLogs.get(id);
+          const segments = segmentsByLog.get(id);
+          if (log && segments && segments.length > 0) {
+            const baseName = log.file_title.replace(/[^a-z0-9]/gi, "_");
+            zip.file(
+              `${baseName}.${exportFormat}`,
+              exportFormat === 'srt' ? formatSRT(segments, subtitleOptions) : formatWebVTT(segments, subtitleOptions)
+            );
+            exportedCount++;
+          }
+        });
+
+        if (exportedCount === 0) {
+          toast.error("None of the selected transcriptions have timing data");
+          return;
         }
-      });
+      }
 
       // Generate the ZIP file
       const content = await zip.generateAsync({ type: "blob" });
@@ -1436,7 +1849,11 @@ export default function TranscriptionHistory() {
       a.click();
       URL.revokeObjectURL(url);
 
-      toast.success(`Exported ${selectedIds.size} transcription(s)`);
+      if (exportFormat !== 'txt' && exportedCount < selectedIds.size) {
+        toast.success(`Exported ${exportedCount} of ${selectedIds.size} transcription(s); the rest have no timing data`);
+      } else {
+        toast.success(`Exported ${exportedCount} transcription(s)`);
+      }
       setSelectedIds(new Set()); // Clear selection after export
     } catch (error) {
       console.error("Error exporting transcriptions:", error);
@@ -1452,7 +1869,7 @@ export default function TranscriptionHistory() {
     setChecksumQuery("");
     setStartDate("");
     setEndDate("");
-    setCurrentPage(1);
+    goToFirstPage();
     setSortField(null);
     setSortDirection(null);
     setSelectedStatuses(new Set(['completed', 'processing', 'failed']));
@@ -1516,8 +1933,12 @@ export default function TranscriptionHistory() {
     setSelectedTagFilters(newTagFilters);
   };
 
-  const handleExportCSV = () => {
+  const handleExportCSV = async () => {
     try {
+      // Export every match for the current filters, not just the visible page
+      const hits = await searchTranscriptionLogs(searchFilters, { pageSize: null });
+      const matchingLogs = await fetchLogsByIds(hits.map(hit => hit.id));
+
       // Define CSV headers
       const headers = [
         'File Title',
@@ -1530,7 +1951,7 @@ export default function TranscriptionHistory() {
       ];
 
       // Convert logs to CSV rows
-      const rows = filteredLogs.map(log => [
+      const rows = matchingLogs.map(log => [
         `"${log.file_title.replace(/"/g, '""')}"`, // Escape quotes in title
         log.status,
         format(new Date(log.created_at), "dd/MM/yyyy HH:mm:ss"),
@@ -1555,7 +1976,7 @@ export default function TranscriptionHistory() {
       link.click();
       URL.revokeObjectURL(url);
 
-      toast.success(`Exported ${filteredLogs.length} transcription(s) to CSV`);
+      toast.success(`Exported ${matchingLogs.length} transcription(s) to CSV`);
     } catch (error) {
       console.error('Error exporting to CSV:', error);
       toast.error('Failed to export CSV');
@@ -1607,8 +2028,8 @@ export default function TranscriptionHistory() {
       toast.success("Transcription deleted successfully");
       setDeleteLogId(null);
       
-      // Remove from local state
-      setLogs(prev => prev.filter(log => log.id !== deleteLogId));
+      // Reload the page so rows from the next one move up
+      refreshHistory();
       
       // Clear from selection if it was selected
       if (selectedIds.has(deleteLogId)) {
@@ -1641,8 +2062,8 @@ export default function TranscriptionHistory() {
 
       toast.success(`Deleted ${selectedIds.size} transcription(s)`);
       
-      // Remove from local state
-      setLogs(prev => prev.filter(log => !selectedIds.has(log.id)));
+      // Reload the page so rows from the next one move up
+      refreshHistory();
       setSelectedIds(new Set());
     } catch (error) {
       console.error("Error deleting transcriptions:", error);
@@ -1657,7 +2078,7 @@ export default function TranscriptionHistory() {
     }
 
     try {
-      const selectedLogs = logs.filter(log => selectedIds.has(log.id));
+      const selectedLogs = Array.from(selectedIds).map(id => loadedLogs.get(id)).filter(Boolean);
       
       // Define CSV headers
       const headers = [
@@ -1735,7 +2156,7 @@ export default function TranscriptionHistory() {
 
       const tag = tags.find(t => t.id === tagId);
       toast.success(`Added tag "${tag?.name}" to ${selectedIds.size} transcription(s)`);
-      fetchLogs();
+      refreshHistory();
     } catch (error) {
       console.error("Error adding tags:", error);
       toast.error("Failed to add tags");
@@ -1761,7 +2182,7 @@ export default function TranscriptionHistory() {
 
       const tag = tags.find(t => t.id === tagId);
       toast.success(`Removed tag "${tag?.name}" from ${selectedIds.size} transcription(s)`);
-      fetchLogs();
+      refreshHistory();
     } catch (error) {
       console.error("Error removing tags:", error);
       toast.error("Failed to remove tags");
@@ -1799,7 +2220,7 @@ export default function TranscriptionHistory() {
       if (error) throw error;
 
       toast.success(`Applied template "${template.name}" to ${selectedIds.size} transcription(s)`);
-      fetchLogs();
+      refreshHistory();
     } catch (error) {
       console.error("Error applying template:", error);
       toast.error("Failed to apply template");
@@ -1823,7 +2244,7 @@ export default function TranscriptionHistory() {
       if (error) throw error;
 
       toast.success(`Cleared all tags from ${selectedIds.size} transcription(s)`);
-      fetchLogs();
+      refreshHistory();
     } catch (error) {
       console.error("Error clearing tags:", error);
       toast.error("Failed to clear tags");
@@ -1888,7 +2309,7 @@ export default function TranscriptionHistory() {
       setSelectedCategoryId(null);
       setShowTagDialog(false);
       fetchTags();
-      fetchLogs(); // Refresh logs to show updated tag names
+      refreshHistory(); // Refresh logs to show updated tag names
     }
   };
 
@@ -1904,7 +2325,7 @@ export default function TranscriptionHistory() {
     } else {
       toast.success("Tag deleted successfully");
       fetchTags();
-      fetchLogs(); // Refresh logs to remove deleted tags
+      refreshHistory(); // Refresh logs to remove deleted tags
     }
   };
 
@@ -2033,7 +2454,7 @@ export default function TranscriptionHistory() {
       }
     } else {
       toast.success("Tag assigned successfully");
-      fetchLogs();
+      refreshHistory();
     }
   };
 
@@ -2049,7 +2470,7 @@ export default function TranscriptionHistory() {
       toast.error("Failed to remove tag");
     } else {
       toast.success("Tag removed successfully");
-      fetchLogs();
+      refreshHistory();
     }
   };
 
@@ -2070,7 +2491,7 @@ export default function TranscriptionHistory() {
         toast.error("Failed to apply some tags");
       } else {
         toast.success(`Applied ${tagIds.length} tag${tagIds.length !== 1 ? 's' : ''} successfully`);
-        fetchLogs();
+        refreshHistory();
       }
     } catch (error) {
       console.error("Error applying tags:", error);
@@ -2087,20 +2508,51 @@ export default function TranscriptionHistory() {
   };
 
   const handlePageSizeChange = (value: string) => {
+    // Changing the page size starts over from the first page
     setPageSize(Number(value));
-    setCurrentPage(1);
   };
 
+  const contentQueryErrors = useMemo(() => parseSearchQuery(contentSearchQuery).errors, [contentSearchQuery]);
+  // Semantic queries describe meaning, so there are no literal words to highlight
+  const highlightQuery = contentSearchMode === 'keyword' ? contentSearchQuery : '';
+
   // Calculate pagination
-  const totalPages = Math.ceil(filteredLogs.length / pageSize);
+  const totalPages = Math.ceil(searchTotal / pageSize);
   const startIndex = (currentPage - 1) * pageSize;
   const endIndex = startIndex + pageSize;
-  const paginatedLogs = filteredLogs.slice(startIndex, endIndex);
+  const paginatedLogs = searchResults;
+
+  const setPage = (
+    page: number,
+    { cursor, direction, replace = false }: { cursor?: string; direction?: 'prev' | 'last'; replace?: boolean } = {}
+  ) => {
+    const params = new URLSearchParams(searchParams);
+    params.delete('page');
+    params.delete('cursor');
+    params.delete('dir');
+    if (page > 1) params.set('page', String(page));
+    if (page > 1 && cursor) params.set('cursor', cursor);
+    if (page > 1 && direction) params.set('dir', direction);
+
+    if (params.toString() !== searchParams.toString()) setSearchParams(params, { replace });
+  };
 
-  const goToFirstPage = () => setCurrentPage(1);
-  const goToLastPage = () => setCurrentPage(totalPages);
-  const goToPreviousPage = () => setCurrentPage(prev => Math.max(1, prev - 1));
-  const goToNextPage = () => setCurrentPage(prev => Math.min(totalPages, prev + 1));
+  // Next and previous continue from the edge rows of the current page; first and last need no cursor
+  const goToFirstPage = (replace = false) => setPage(1, { replace });
+  const goToLastPage = () => setPage(totalPages, { direction: 'last' });
+  const goToPreviousPage = () => {
+    const firstRow = paginatedLogs[0];
+    if (currentPage <= 2 || !firstRow) {
+      goToFirstPage();
+      return;
+    }
+    setPage(currentPage - 1, { cursor: searchCursors.get(firstRow.id), direction: 'prev' });
+  };
+  const goToNextPage = () => {
+    const lastRow = paginatedLogs[paginatedLogs.length - 1];
+    if (currentPage >= totalPages || !lastRow) return;
+    setPage(currentPage + 1, { cursor: searchCursors.get(lastRow.id) });
+  };
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -2109,6 +2561,30 @@ export default function TranscriptionHistory() {
       const target = e.target as HTMLElement;
       const isInputField = target.tagName === 'INPUT' || target.tagName === 'TEXTAREA';
       
+      // Playback controls while the detail dialog has audio loaded
+      const detailAudio = detailAudioRef.current;
+      if (selectedLog && detailAudio && !isInputField && !e.ctrlKey && !e.metaKey && !e.altKey) {
+        if (e.key === ' ' || e.key === 'k') {
+          e.preventDefault();
+          if (detailAudio.paused) {
+            detailAudio.play().catch(error => console.error('Error starting playback:', error));
+          } else {
+            detailAudio.pause();
+          }
+          return;
+        }
+
+        if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+          e.preventDefault();
+          const offset = e.key === 'ArrowLeft' ? -5 : 5;
+          detailAudio.currentTime = Math.min(
+            Math.max(0, detailAudio.currentTime + offset),
+            detailAudio.duration || detailAudio.currentTime + offset
+          );
+          return;
+        }
+      }
+
       // Ctrl/Cmd + A: Select all visible transcriptions with text
       if ((e.ctrlKey || e.metaKey) && e.key === 'a' && !isInputField) {
         e.preventDefault();
@@ -2175,17 +2651,19 @@ export default function TranscriptionHistory() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [paginatedLogs, selectedIds, searchQuery, contentSearchQuery, startDate, endDate, sortField, selectedStatuses, showShortcutsHelp]);
+  }, [paginatedLogs, selectedIds, searchQuery, contentSearchQuery, startDate, endDate, sortField, selectedStatuses, showShortcutsHelp, selectedLog]);
 
-  // Helper function to highlight matching text
+  // Helper function to highlight the words and phrases a content search query matches
   const highlightText = (text: string, query: string) => {
-    if (!query || !text) return text;
+    const pattern = query && text ? buildHighlightPattern(parseSearchQuery(query)) : null;
+    if (!pattern) return text;
     
-    const parts = text.split(new RegExp(`(${query})`, 'gi'));
+    // The pattern has a single capture group, so matches land on the odd indexes
+    const parts = text.split(pattern);
     return (
       <>
         {parts.map((part, index) => 
-          part.toLowerCase() === query.toLowerCase() ? (
+          index % 2 === 1 ? (
             <mark key={index} className="bg-primary/30 text-primary-foreground font-semibold rounded px-0.5">
               {part}
             </mark>
@@ -2197,6 +2675,43 @@ export default function TranscriptionHistory() {
     );
   };
 
+  // Shared subtitle settings controls for the detail dialog and bulk toolbar
+  const renderSubtitleSettings = (idPrefix: string) => (
+    <div className="grid grid-cols-2 gap-2">
+      <div>
+        <Label htmlFor={`${idPrefix}-max-line-length`} className="text-xs">Max line length</Label>
+        <Input
+          id={`${idPrefix}-max-line-length`}
+          type="number"
+          min={10}
+          max={100}
+          value={subtitleOptions.maxLineLength}
+          onChange={(e) => setSubtitleOptions(prev => ({
+            ...prev,
+            maxLineLength: Math.max(10, Number(e.target.value) || DEFAULT_SUBTITLE_OPTIONS.maxLineLength),
+          }))}
+          className="h-8 mt-1"
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-max-cue-duration`} className="text-xs">Max cue duration (s)</Label>
+        <Input
+          id={`${idPrefix}-max-cue-duration`}
+          type="number"
+          min={1}
+          max={30}
+          step={0.5}
+          value={subtitleOptions.maxCueDuration}
+          onChange={(e) => setSubtitleOptions(prev => ({
+            ...prev,
+            maxCueDuration: Math.max(1, Number(e.target.value) || DEFAULT_SUBTITLE_OPTIONS.maxCueDuration),
+          }))}
+          className="h-8 mt-1"
+        />
+      </div>
+    </div>
+  );
+
   // Toggle column visibility
   const toggleColumn = (column: keyof ColumnVisibility) => {
     setVisibleColumns(prev => ({
@@ -2212,17 +2727,16 @@ export default function TranscriptionHistory() {
   };
 
   // Calculate statistics
-  const totalTranscriptions = logs.length;
-  const completedCount = logs.filter(log => log.status === 'completed').length;
-  const failedCount = logs.filter(log => log.status === 'failed').length;
-  const processingCount = logs.filter(log => log.status === 'processing').length;
+  // Header figures come from the database, so they cover the whole history without loading it
+  const totalTranscriptions = stats?.total ?? 0;
+  const completedCount = stats?.completed ?? 0;
+  const failedCount = stats?.failed ?? 0;
+  const processingCount = stats?.processing ?? 0;
   const successRate = totalTranscriptions > 0 
     ? ((completedCount / totalTranscriptions) * 100).toFixed(1) 
     : '0';
-  const avgTranscriptionLength = logs
-    .filter(log => log.transcription_text)
-    .reduce((acc, log) => acc + (log.transcription_text?.length || 0), 0) / 
-    (logs.filter(log => log.transcription_text).length || 1);
+  const avgTranscriptionLength = stats?.averageLength ?? 0;
+  const duplicateGroupCount = stats?.duplicateGroups ?? 0;
   const avgWords = Math.round(avgTranscriptionLength / 5); // Rough estimate: 5 chars per word
 
   // Analytics data calculations
@@ -2877,6 +3391,12 @@ export default function TranscriptionHistory() {
           </div>
         )}
 
+        {contentSearchMode === 'semantic' && (
+          <div className="mb-6">
+            <SemanticSearchResults query={contentSearchQuery} onOpenPassage={handleOpenPassage} />
+          </div>
+        )}
+
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
@@ -2994,6 +3514,9 @@ export default function TranscriptionHistory() {
                                   {preset.filter_data.searchQuery && (
                                     <Badge variant="secondary" className="text-xs">Search</Badge>
                                   )}
+                                  {preset.filter_data.contentSearchQuery && (
+                                    <Badge variant="secondary" className="text-xs">Content query</Badge>
+                                  )}
                                   {preset.filter_data.selectedStatuses && preset.filter_data.selectedStatuses.length > 0 && (
                                     <Badge variant="secondary" className="text-xs">
                                       {preset.filter_data.selectedStatuses.length} status(es)
@@ -3071,9 +3594,9 @@ export default function TranscriptionHistory() {
                 >
                   <AlertTriangle className="h-4 w-4 mr-2" />
                   Duplicates
-                  {duplicateFiles.length > 0 && (
+                  {duplicateGroupCount > 0 && (
                     <Badge variant="destructive" className="ml-2">
-                      {duplicateFiles.length}
+                      {duplicateGroupCount}
                     </Badge>
                   )}
                 </Button>
@@ -3086,9 +3609,9 @@ export default function TranscriptionHistory() {
                 >
                   <Shield className="h-4 w-4 mr-2" />
                   Verify Files
-                  {duplicateFiles.length > 0 && (
+                  {duplicateGroupCount > 0 && (
                     <Badge variant="secondary" className="ml-2">
-                      {duplicateFiles.length}
+                      {duplicateGroupCount}
                     </Badge>
                   )}
                 </Button>
@@ -3136,7 +3659,7 @@ export default function TranscriptionHistory() {
                   variant="outline"
                   size="sm"
                   onClick={handleExportCSV}
-                  disabled={filteredLogs.length === 0}
+                  disabled={searchTotal === 0}
                 >
                   <FileSpreadsheet className="h-4 w-4 mr-2" />
                   Export CSV
@@ -3200,17 +3723,50 @@ export default function TranscriptionHistory() {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="contentSearch">Search content</Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="contentSearch">Search content</Label>
+                  <div className="flex gap-1">
+                    <Button
+                      variant={contentSearchMode === 'keyword' ? 'secondary' : 'ghost'}
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => setContentSearchMode('keyword')}
+                    >
+                      Keyword
+                    </Button>
+                    <Button
+                      variant={contentSearchMode === 'semantic' ? 'secondary' : 'ghost'}
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => setContentSearchMode('semantic')}
+                    >
+                      Semantic
+                    </Button>
+                  </div>
+                </div>
                 <div className="relative">
                   <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                   <Input
                     id="contentSearch"
-                    placeholder="Search in transcriptions..."
+                    placeholder={contentSearchMode === 'semantic'
+                      ? 'e.g. the client complained about delivery delays'
+                      : 'e.g. "budget review" NOT draft tag:finance'}
                     value={contentSearchQuery}
                     onChange={(e) => setContentSearchQuery(e.target.value)}
                     className="pl-10"
                   />
                 </div>
+                {contentSearchMode === 'semantic' ? (
+                  <p className="text-xs text-muted-foreground">
+                    Finds passages by meaning rather than exact words
+                  </p>
+                ) : contentQueryErrors.length > 0 ? (
+                  <p className="text-xs text-destructive">{contentQueryErrors.join('. ')}</p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    Supports "phrases", AND/OR/NOT, prefix*, "near words"~3 and tag:, status:, before:, after:
+                  </p>
+                )}
               </div>
 
               <div className="space-y-2">
@@ -3726,10 +4282,19 @@ export default function TranscriptionHistory() {
                       </PopoverContent>
                     </Popover>
 
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setTranslateLogs(Array.from(selectedIds).map(id => loadedLogs.get(id)).filter(Boolean))}
+                    >
+                      <Languages className="mr-2 h-4 w-4" />
+                      Translate… ({selectedIds.size})
+                    </Button>
+
                     <Button 
                       variant="default" 
                       size="sm" 
-                      onClick={handleBulkExport}
+                      onClick={() => handleBulkExport()}
                       disabled={isExporting}
                     >
                       <FileArchive className="mr-2 h-4 w-4" />
@@ -3738,7 +4303,7 @@ export default function TranscriptionHistory() {
                   </>
                 )}
                 <span className="text-sm text-muted-foreground">
-                  Showing {startIndex + 1}-{Math.min(endIndex, filteredLogs.length)} of {filteredLogs.length} transcriptions
+                  Showing {startIndex + 1}-{Math.min(endIndex, searchTotal)} of {searchTotal} transcriptions
                 </span>
               </div>
               
@@ -3820,13 +4385,13 @@ export default function TranscriptionHistory() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {isLoading ? (
+                  {isLoading || (isSearching && searchResults.length === 0) ? (
                     <TableRow>
                       <TableCell colSpan={getColSpan()} className="text-center py-8 text-muted-foreground">
                         Loading transcription history...
                       </TableCell>
                     </TableRow>
-                  ) : filteredLogs.length === 0 ? (
+                  ) : searchTotal === 0 && paginatedLogs.length === 0 ? (
                     <TableRow>
                       <TableCell colSpan={getColSpan()} className="text-center py-8 text-muted-foreground">
                         No transcriptions found
@@ -3863,6 +4428,19 @@ export default function TranscriptionHistory() {
                           <TableCell>
                             <div className="space-y-2">
                               <div className="font-medium">{log.file_title}</div>
+                              {searchSnippets.has(log.id) && (
+                                <p className="text-xs text-muted-foreground line-clamp-3">
+                                  {parseSnippet(searchSnippets.get(log.id)).map((part, index) =>
+                                    part.highlighted ? (
+                                      <mark key={index} className="bg-primary/30 text-foreground font-semibold rounded px-0.5">
+                                        {part.text}
+                                      </mark>
+                                    ) : (
+                                      part.text
+                                    )
+                                  )}
+                                </p>
+                              )}
                               {log.tags && log.tags.length > 0 && (
                                 <div className="flex flex-wrap gap-1">
                                   {log.tags.map((tag) => (
@@ -3918,6 +4496,16 @@ export default function TranscriptionHistory() {
                                 <Download className="h-4 w-4" />
                               </Button>
                             )}
+                            {log.status === 'completed' && log.transcription_text && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setTranslateLogs([log])}
+                                title="Translate…"
+                              >
+                                <Languages className="h-4 w-4" />
+                              </Button>
+                            )}
                             <Button
                               variant="ghost"
                               size="sm"
@@ -3938,7 +4526,7 @@ export default function TranscriptionHistory() {
             </div>
 
             {/* Pagination Controls */}
-            {filteredLogs.length > 0 && (
+            {searchTotal > 0 && (
               <div className="flex items-center justify-between pt-4">
                 <div className="text-sm text-muted-foreground">
                   Page {currentPage} of {totalPages}
@@ -3947,7 +4535,7 @@ export default function TranscriptionHistory() {
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={goToFirstPage}
+                    onClick={() => goToFirstPage()}
                     disabled={currentPage === 1}
                   >
                     <ChevronsLeft className="h-4 w-4" />
@@ -3964,7 +4552,7 @@ export default function TranscriptionHistory() {
                     variant="outline"
                     size="sm"
                     onClick={goToNextPage}
-                    disabled={currentPage === totalPages}
+                    disabled={currentPage >= totalPages}
                   >
                     <ChevronRight className="h-4 w-4" />
                   </Button>
@@ -3972,7 +4560,7 @@ export default function TranscriptionHistory() {
                     variant="outline"
                     size="sm"
                     onClick={goToLastPage}
-                    disabled={currentPage === totalPages}
+                    disabled={currentPage >= totalPages}
                   >
                     <ChevronsRight className="h-4 w-4" />
                   </Button>
@@ -4084,6 +4672,14 @@ export default function TranscriptionHistory() {
                     </div>
                   </PopoverContent>
                 </Popover>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setTranslateLogs(Array.from(selectedIds).map(id => loadedLogs.get(id)).filter(Boolean))}
+                >
+                  <Languages className="h-4 w-4 mr-2" />
+                  Translate…
+                </Button>
                 <Button
                   variant="outline"
                   size="sm"
@@ -4095,12 +4691,41 @@ export default function TranscriptionHistory() {
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={handleBulkExport}
+                  onClick={() => handleBulkExport()}
                   disabled={isExporting}
                 >
                   <FileArchive className="h-4 w-4 mr-2" />
                   {isExporting ? 'Exporting...' : 'Export ZIP'}
                 </Button>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isExporting}
+                    >
+                      <Captions className="h-4 w-4 mr-2" />
+                      Export Subtitles
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-72 bg-card border shadow-lg z-50" align="end">
+                    <div className="space-y-3">
+                      <h4 className="font-medium text-sm">Export Subtitles as ZIP</h4>
+                      {renderSubtitleSettings('bulk-subtitles')}
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" className="flex-1" onClick={() => handleBulkExport('srt')}>
+                          SRT
+                        </Button>
+                        <Button size="sm" variant="outline" className="flex-1" onClick={() => handleBulkExport('vtt')}>
+                          WebVTT
+                        </Button>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Only transcriptions with timing data are included.
+                      </p>
+                    </div>
+                  </PopoverContent>
+                </Popover>
                 <Button
                   variant="destructive"
                   size="sm"
@@ -4203,6 +4828,27 @@ export default function TranscriptionHistory() {
               </div>
             </div>
 
+            <div>
+              <h3 className="text-sm font-semibold mb-3">Playback</h3>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between py-2 px-3 rounded-md hover:bg-muted/50">
+                  <span className="text-sm">Play / pause audio</span>
+                  <kbd className="px-2 py-1 text-xs font-semibold bg-muted border border-border rounded">
+                    Space / K
+                  </kbd>
+                </div>
+                <div className="flex items-center justify-between py-2 px-3 rounded-md hover:bg-muted/50">
+                  <span className="text-sm">Rewind / forward 5 seconds</span>
+                  <kbd className="px-2 py-1 text-xs font-semibold bg-muted border border-border rounded">
+                    ← / →
+                  </kbd>
+                </div>
+                <p className="text-xs text-muted-foreground px-3 py-1">
+                  Available while a transcription with stored audio is open. Click any sentence to jump to it.
+                </p>
+              </div>
+            </div>
+
             <div>
               <h3 className="text-sm font-semibold mb-3">Help</h3>
               <div className="space-y-2">
@@ -4224,7 +4870,7 @@ export default function TranscriptionHistory() {
       </Dialog>
 
       {/* View Details Dialog */}
-      <Dialog open={!!selectedLog} onOpenChange={() => setSelectedLog(null)}>
+      <Dialog open={!!selectedLog} onOpenChange={closeLogDetails}>
         <DialogContent className="max-w-2xl">
           <DialogHeader>
             <DialogTitle>Transcription Details</DialogTitle>
@@ -4250,7 +4896,7 @@ export default function TranscriptionHistory() {
                     className="mt-2"
                     onClick={() => {
                       setChecksumQuery(selectedLog.file_checksum || '');
-                      setSelectedLog(null);
+                      closeLogDetails();
                       toast.success('Filtering by checksum - showing all versions of this file');
                     }}
                   >
@@ -4261,7 +4907,41 @@ export default function TranscriptionHistory() {
               <div>
                 <Label className="text-sm font-semibold">Status</Label>
                 <div className="mt-1">{getStatusBadge(selectedLog.status)}</div>
+                {selectedLog.file_path && selectedLog.status !== 'processing' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="mt-2"
+                    onClick={() => handleRerunTranscription(selectedLog)}
+                  >
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Re-run transcription
+                  </Button>
+                )}
               </div>
+              {selectedLog.provider && (
+                <div>
+                  <Label className="text-sm font-semibold">Provider</Label>
+                  <p className="text-sm mt-1">
+                    {selectedLog.provider}
+                    {selectedLog.model && <span className="text-muted-foreground"> ({selectedLog.model})</span>}
+                  </p>
+                </div>
+              )}
+              {(selectedLog.source || selectedLog.language || selectedLog.duration_seconds) && (
+                <div>
+                  <Label className="text-sm font-semibold">Audio</Label>
+                  <p className="text-sm mt-1">
+                    {[
+                      selectedLog.source,
+                      selectedLog.language,
+                      selectedLog.duration_seconds
+                        ? `${Math.floor(selectedLog.duration_seconds / 60)}m ${Math.round(selectedLog.duration_seconds % 60)}s`
+                        : null,
+                    ].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+              )}
               <div>
                 <Label className="text-sm font-semibold">Created</Label>
                 <p className="text-sm mt-1">{formatDate(selectedLog.created_at)}</p>
@@ -4280,21 +4960,77 @@ export default function TranscriptionHistory() {
                 <div>
                   <Label className="text-sm font-semibold">
                     Transcription
-                    {contentSearchQuery && (
+                    {highlightQuery && (
                       <span className="ml-2 text-xs text-muted-foreground">
                         (highlighted matches)
                       </span>
                     )}
                   </Label>
-                  <div className="mt-2 p-4 bg-muted rounded-md max-h-96 overflow-y-auto">
-                    <p className="text-sm whitespace-pre-wrap">
-                      {contentSearchQuery 
-                        ? highlightText(selectedLog.transcription_text, contentSearchQuery)
-                        : selectedLog.transcription_text
-                      }
-                    </p>
-                  </div>
-                  <div className="mt-4 flex gap-2">
+                  {isEditingTranscript ? (
+                    <div className="mt-2 space-y-2">
+                      <Textarea
+                        value={editedTranscript}
+                        onChange={(e) => setEditedTranscript(e.target.value)}
+                        className="min-h-64 text-sm"
+                      />
+                      <div className="flex gap-2 justify-end">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setIsEditingTranscript(false)}
+                          disabled={isSavingTranscript}
+                        >
+                          Cancel
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={() => handleSaveTranscript(selectedLog)}
+                          disabled={isSavingTranscript || !editedTranscript.trim()}
+                        >
+                          {isSavingTranscript ? "Saving..." : "Save Changes"}
+                        </Button>
+                      </div>
+                    </div>
+                  ) : detailSegments.length > 0 || selectedLog.file_path ? (
+                    <div className="mt-2">
+                      <TranscriptPlayer
+                        ref={detailAudioRef}
+                        filePath={selectedLog.file_path}
+                        segments={segmentsMatchText(detailSegments, selectedLog.transcription_text) ? detailSegments : []}
+                        text={selectedLog.transcription_text}
+                        initialTime={detailStart?.logId === selectedLog.id ? detailStart.time : null}
+                        renderText={highlightQuery ? text => highlightText(text, highlightQuery) : undefined}
+                      />
+                    </div>
+                  ) : (
+                    <div className="mt-2 p-4 bg-muted rounded-md max-h-96 overflow-y-auto">
+                      <p className="text-sm whitespace-pre-wrap">
+                        {highlightQuery 
+                          ? highlightText(selectedLog.transcription_text, highlightQuery)
+                          : selectedLog.transcription_text
+                        }
+                      </p>
+                    </div>
+                  )}
+                  <div className="mt-4 flex flex-wrap gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        setEditedTranscript(selectedLog.transcription_text || "");
+                        setIsEditingTranscript(true);
+                      }}
+                      disabled={isEditingTranscript}
+                    >
+                      <Edit2 className="mr-2 h-4 w-4" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => setShowRevisionHistory(true)}
+                    >
+                      <History className="mr-2 h-4 w-4" />
+                      History
+                    </Button>
                     <Button
                       variant="outline"
                       onClick={() => {
@@ -4311,6 +5047,61 @@ export default function TranscriptionHistory() {
                       <Download className="mr-2 h-4 w-4" />
                       Download as TXT
                     </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => handleDownloadSubtitles(selectedLog, 'srt')}
+                    >
+                      <Captions className="mr-2 h-4 w-4" />
+                      SRT
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => handleDownloadSubtitles(selectedLog, 'vtt')}
+                    >
+                      <Captions className="mr-2 h-4 w-4" />
+                      WebVTT
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => handleDownloadDOCX(selectedLog)}
+                    >
+                      <FileText className="mr-2 h-4 w-4" />
+                      DOCX
+                    </Button>
+                    {detailSegments.length > 0 && (
+                      <Button
+                        variant="outline"
+                        onClick={() => handleLabelSpeakers(selectedLog)}
+                        disabled={isLabellingSpeakers}
+                      >
+                        <Users className="mr-2 h-4 w-4" />
+                        {isLabellingSpeakers ? "Identifying..." : "Identify Speakers"}
+                      </Button>
+                    )}
+                  </div>
+                  {detailSpeakers.length > 0 && (
+                    <div className="mt-3 space-y-2">
+                      <Label className="text-sm font-semibold">Speakers</Label>
+                      <div className="grid grid-cols-2 gap-2">
+                        {detailSpeakers.map(speaker => (
+                          <Input
+                            key={`${speaker.index}-${speaker.name}`}
+                            defaultValue={speaker.name}
+                            aria-label={`Name for speaker ${speaker.index + 1}`}
+                            onBlur={(e) => handleRenameSpeaker(selectedLog, speaker.index, e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') e.currentTarget.blur();
+                            }}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  <div className="mt-3">
+                    {renderSubtitleSettings('detail-subtitles')}
+                  </div>
+                  <div className="mt-4">
+                    <TranscriptTranslations transcriptionId={selectedLog.id} fileTitle={selectedLog.file_title} />
                   </div>
                 </div>
               )}
@@ -4338,6 +5129,25 @@ export default function TranscriptionHistory() {
         </DialogContent>
       </Dialog>
 
+      {selectedLog?.transcription_text && (
+        <TranscriptRevisionHistory
+          transcriptionId={selectedLog.id}
+          fileTitle={selectedLog.file_title}
+          currentText={selectedLog.transcription_text}
+          open={showRevisionHistory}
+          onOpenChange={setShowRevisionHistory}
+          onRestore={(text) => applyTranscriptText(selectedLog.id, text)}
+        />
+      )}
+
+      <TranslateTranscriptsDialog
+        logs={translateLogs}
+        open={translateLogs.length > 0}
+        onOpenChange={(open) => {
+          if (!open) setTranslateLogs([]);
+        }}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!deleteLogId} onOpenChange={() => setDeleteLogId(null)}>
         <AlertDialogContent>
@@ -4346,7 +5156,7 @@ export default function TranscriptionHistory() {
             <AlertDialogDescription>
               Are you sure you want to delete this transcription? This action cannot be undone.
               {deleteLogId && (() => {
-                const log = logs.find(l => l.id === deleteLogId);
+                const log = loadedLogs.get(deleteLogId);
                 return log ? (
                   <div className="mt-2 p-2 bg-muted rounded text-sm">
                     <strong>{log.file_title}</strong>
@@ -5539,7 +6349,7 @@ export default function TranscriptionHistory() {
               </DialogDescription>
             </DialogHeader>
 
-            <DuplicateDetectionDashboard logs={logs} onRefresh={fetchLogs} />
+            <DuplicateDetectionDashboard logs={logs} onRefresh={refreshHistory} />
 
             <div className="flex justify-end pt-4 border-t">
               <Button variant="outline" onClick={() => setShowDuplicateDashboard(false)}>
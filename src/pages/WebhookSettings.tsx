@@ -0,0 +1,373 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { ArrowLeft, Webhook, Loader2, Plus, Trash2, Copy, Eye, EyeOff, KeyRound, History } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { WebhookDeliveryLog } from "@/components/WebhookDeliveryLog";
+import {
+  WEBHOOK_EVENTS,
+  WebhookEndpoint,
+  WebhookEventType,
+  fetchWebhookEndpoints,
+  createWebhookEndpoint,
+  updateWebhookEndpoint,
+  deleteWebhookEndpoint,
+  generateWebhookSecret,
+} from "@/lib/webhooks";
+
+const WebhookSettings = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [newUrl, setNewUrl] = useState("");
+  const [newDescription, setNewDescription] = useState("");
+  const [newEvents, setNewEvents] = useState<WebhookEventType[]>(['transcription.completed']);
+  const [revealedSecrets, setRevealedSecrets] = useState<Set<string>>(new Set());
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+
+  // Check authentication
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        navigate("/auth");
+      }
+    });
+  }, [navigate]);
+
+  const { data: endpoints, isLoading } = useQuery({
+    queryKey: ["webhook-endpoints"],
+    queryFn: fetchWebhookEndpoints,
+  });
+
+  const createEndpointMutation = useMutation({
+    mutationFn: createWebhookEndpoint,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["webhook-endpoints"] });
+      setNewUrl("");
+      setNewDescription("");
+      setNewEvents(['transcription.completed']);
+      toast.success("Webhook endpoint added");
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to add webhook endpoint: " + error.message);
+    },
+  });
+
+  const updateEndpointMutation = useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Parameters<typeof updateWebhookEndpoint>[1] }) =>
+      updateWebhookEndpoint(id, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["webhook-endpoints"] });
+      toast.success("Webhook endpoint updated");
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to update webhook endpoint: " + error.message);
+    },
+  });
+
+  const deleteEndpointMutation = useMutation({
+    mutationFn: deleteWebhookEndpoint,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["webhook-endpoints"] });
+      toast.success("Webhook endpoint deleted");
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to delete webhook endpoint: " + error.message);
+    },
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const url = new URL(newUrl);
+      if (url.protocol !== "https:") throw new Error();
+    } catch {
+      toast.error("Enter a valid https URL");
+      return;
+    }
+
+    if (newEvents.length === 0) {
+      toast.error("Choose at least one event");
+      return;
+    }
+
+    createEndpointMutation.mutate({
+      url: newUrl,
+      description: newDescription || null,
+      events: newEvents,
+    });
+  };
+
+  const toggleNewEvent = (event: WebhookEventType, checked: boolean) => {
+    setNewEvents((prev) => (checked ? [...prev, event] : prev.filter((e) => e !== event)));
+  };
+
+  const toggleEndpointEvent = (endpoint: WebhookEndpoint, event: WebhookEventType, checked: boolean) => {
+    const events = checked
+      ? [...endpoint.events, event]
+      : endpoint.events.filter((e) => e !== event);
+    updateEndpointMutation.mutate({ id: endpoint.id, updates: { events: events as WebhookEventType[] } });
+  };
+
+  const toggleSecret = (id: string) => {
+    setRevealedSecrets((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const copySecret = (secret: string) => {
+    navigator.clipboard.writeText(secret);
+    toast.success("Signing secret copied");
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5 p-4">
+      <div className="max-w-4xl mx-auto pt-8 space-y-6">
+        <Button variant="ghost" onClick={() => navigate("/profile")}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Profile
+        </Button>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <div className="h-12 w-12 rounded-full bg-primary/10 flex items-center justify-center">
+                <Webhook className="h-6 w-6 text-primary" />
+              </div>
+              <div>
+                <CardTitle>Webhooks</CardTitle>
+                <CardDescription>
+                  Send transcription events to your own tools. Each request is signed with the endpoint's
+                  secret: the X-Webhook-Signature header is an HMAC-SHA256 of the X-Webhook-Timestamp
+                  header, a dot and the raw body. Failed deliveries are retried with backoff for about 15 hours.
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="webhook-url">Endpoint URL</Label>
+                  <Input
+                    id="webhook-url"
+                    value={newUrl}
+                    onChange={(e) => setNewUrl(e.target.value)}
+                    placeholder="https://example.com/webhooks/transcriptions"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="webhook-description">Description</Label>
+                  <Input
+                    id="webhook-description"
+                    value={newDescription}
+                    onChange={(e) => setNewDescription(e.target.value)}
+                    placeholder="e.g., CMS import"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Events</Label>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {WEBHOOK_EVENTS.map((event) => (
+                    <div key={event.value} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`new-${event.value}`}
+                        checked={newEvents.includes(event.value)}
+                        onCheckedChange={(checked) => toggleNewEvent(event.value, checked === true)}
+                      />
+                      <Label htmlFor={`new-${event.value}`} className="font-normal">
+                        {event.label} <span className="font-mono text-xs text-muted-foreground">{event.value}</span>
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <Button type="submit" disabled={createEndpointMutation.isPending}>
+                {createEndpointMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Plus className="h-4 w-4 mr-2" />
+                )}
+                Add Endpoint
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {endpoints?.length === 0 && (
+          <p className="text-center text-sm text-muted-foreground">
+            No webhook endpoints yet
+          </p>
+        )}
+
+        {endpoints?.map((endpoint) => (
+          <Card key={endpoint.id}>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <CardTitle className="text-base font-mono break-all">{endpoint.url}</CardTitle>
+                  {endpoint.description && (
+                    <CardDescription>{endpoint.description}</CardDescription>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant={endpoint.enabled ? "default" : "secondary"}>
+                    {endpoint.enabled ? "Enabled" : "Disabled"}
+                  </Badge>
+                  <Switch
+                    checked={endpoint.enabled}
+                    onCheckedChange={(checked) =>
+                      updateEndpointMutation.mutate({ id: endpoint.id, updates: { enabled: checked } })
+                    }
+                  />
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Events</Label>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {WEBHOOK_EVENTS.map((event) => (
+                    <div key={event.value} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`${endpoint.id}-${event.value}`}
+                        checked={endpoint.events.includes(event.value)}
+                        onCheckedChange={(checked) => toggleEndpointEvent(endpoint, event.value, checked === true)}
+                      />
+                      <Label htmlFor={`${endpoint.id}-${event.value}`} className="font-normal">
+                        {event.label}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Signing Secret</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    readOnly
+                    className="font-mono text-xs"
+                    value={revealedSecrets.has(endpoint.id) ? endpoint.secret : "•".repeat(32)}
+                  />
+                  <Button variant="outline" size="icon" onClick={() => toggleSecret(endpoint.id)}>
+                    {revealedSecrets.has(endpoint.id) ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </Button>
+                  <Button variant="outline" size="icon" onClick={() => copySecret(endpoint.secret)}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setOpenLogId(openLogId === endpoint.id ? null : endpoint.id)}
+                >
+                  <History className="h-4 w-4 mr-2" />
+                  {openLogId === endpoint.id ? "Hide Deliveries" : "Show Deliveries"}
+                </Button>
+
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" size="sm">
+                      <KeyRound className="h-4 w-4 mr-2" />
+                      Rotate Secret
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Rotate signing secret?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Deliveries will be signed with a new secret straight away. Update your receiver
+                        with the new secret, or it will reject them.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() =>
+                          updateEndpointMutation.mutate({ id: endpoint.id, updates: { secret: generateWebhookSecret() } })
+                        }
+                      >
+                        Rotate
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" size="sm" className="text-destructive">
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete webhook endpoint?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        This stops all deliveries to {endpoint.url} and removes its delivery log.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => deleteEndpointMutation.mutate(endpoint.id)}>
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+
+              {openLogId === endpoint.id && (
+                <>
+                  <Separator />
+                  <WebhookDeliveryLog endpointId={endpoint.id} />
+                </>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default WebhookSettings;
@@ -0,0 +1,31 @@
+const timingSafeEqual = (a: string, b: string) => {
+  const encoder = new TextEncoder();
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  if (left.length !== right.length) return false;
+
+  let difference = 0;
+  for (let i = 0; i < left.length; i++) {
+    difference |= left[i] ^ right[i];
+  }
+  return difference === 0;
+};
+
+/**
+ * Scheduled functions are deployed without JWT verification so pg_cron can call them, which
+ * makes them reachable by anyone. Their scheduled work only runs for requests carrying the
+ * shared CRON_SECRET in an X-Cron-Secret header (the pg_cron jobs read it from the vault secret
+ * `cron_secret`), or the service role key as the bearer token.
+ */
+export const isScheduledRequest = (req: Request): boolean => {
+  const cronSecret = Deno.env.get("CRON_SECRET");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  const providedSecret = req.headers.get("x-cron-secret");
+  if (cronSecret && providedSecret && timingSafeEqual(providedSecret, cronSecret)) {
+    return true;
+  }
+
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  return Boolean(serviceKey && token && timingSafeEqual(token, serviceKey));
+};
@@ -0,0 +1,173 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import { fetchAllSegments } from "./segments.ts";
+
+const AUDIO_BUCKET = "audio-uploads";
+const STUB_TURN_PAUSE_SECONDS = 1;
+
+export interface DiarizationSegment {
+  start: number;
+  end: number;
+}
+
+// A stretch of audio attributed to one speaker, as returned by a diarization backend
+export interface SpeakerTurn {
+  start: number;
+  end: number;
+  speaker: string;
+}
+
+export interface DiarizationBackend {
+  name: string;
+  diarize(input: { audioUrl: string | null; segments: DiarizationSegment[] }): Promise<SpeakerTurn[]>;
+}
+
+// Calls an external diarization service (e.g. a pyannote wrapper) that responds with { turns: SpeakerTurn[] }
+export const createHttpDiarizationBackend = (endpoint: string, apiKey?: string): DiarizationBackend => ({
+  name: "http",
+  async diarize({ audioUrl, segments }) {
+    if (!audioUrl) {
+      throw new Error("Speaker detection requires the original audio to be stored");
+    }
+
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({ audio_url: audioUrl, segments }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Diarization service error: ${response.status} - ${errorText}`);
+    }
+
+    const result = await response.json();
+    return result.turns ?? [];
+  },
+});
+
+// Deterministic local stub: switches between two speakers whenever there is a pause between segments
+export const stubDiarizationBackend: DiarizationBackend = {
+  name: "stub",
+  diarize({ segments }) {
+    let speaker = 0;
+    return Promise.resolve(segments.map((segment, index) => {
+      if (index > 0 && segment.start - segments[index - 1].end >= STUB_TURN_PAUSE_SECONDS) {
+        speaker = 1 - speaker;
+      }
+      return { start: segment.start, end: segment.end, speaker: `SPEAKER_${speaker}` };
+    }));
+  },
+};
+
+// Pick the backend from DIARIZATION_PROVIDER ("http" or "stub"); speaker labelling is off when unset
+export const getDiarizationBackend = (): DiarizationBackend | null => {
+  const provider = Deno.env.get("DIARIZATION_PROVIDER");
+
+  if (provider === "stub") {
+    return stubDiarizationBackend;
+  }
+
+  if (provider === "http") {
+    const endpoint = Deno.env.get("DIARIZATION_API_URL");
+    if (!endpoint) {
+      console.error("DIARIZATION_PROVIDER is http but DIARIZATION_API_URL is not set");
+      return null;
+    }
+    return createHttpDiarizationBackend(endpoint, Deno.env.get("DIARIZATION_API_KEY"));
+  }
+
+  return null;
+};
+
+/**
+ * Give each segment the speaker whose turns overlap it the most.
+ * Speakers are numbered from 0 in order of first appearance; segments without overlap get null.
+ */
+export const assignSpeakers = (segments: DiarizationSegment[], turns: SpeakerTurn[]): (number | null)[] => {
+  const speakerIndexes = new Map<string, number>();
+
+  return segments.map(segment => {
+    const overlapBySpeaker = new Map<string, number>();
+    turns.forEach(turn => {
+      const overlap = Math.min(segment.end, turn.end) - Math.max(segment.start, turn.start);
+      if (overlap > 0) {
+        overlapBySpeaker.set(turn.speaker, (overlapBySpeaker.get(turn.speaker) || 0) + overlap);
+      }
+    });
+
+    let bestSpeaker: string | null = null;
+    let bestOverlap = 0;
+    overlapBySpeaker.forEach((overlap, speaker) => {
+      if (overlap > bestOverlap) {
+        bestSpeaker = speaker;
+        bestOverlap = overlap;
+      }
+    });
+
+    if (bestSpeaker === null) return null;
+    if (!speakerIndexes.has(bestSpeaker)) {
+      speakerIndexes.set(bestSpeaker, speakerIndexes.size);
+    }
+    return speakerIndexes.get(bestSpeaker)!;
+  });
+};
+
+/**
+ * Run the speaker-labelling stage for a stored transcription and write speaker_index onto its segments.
+ * Returns the number of distinct speakers found (0 when diarization is disabled or there are no segments).
+ */
+export const labelSpeakers = async (
+  supabase: SupabaseClient,
+  transcriptionId: string,
+  backend: DiarizationBackend | null = getDiarizationBackend()
+): Promise<number> => {
+  if (!backend) return 0;
+
+  const { data: log, error: logError } = await supabase
+    .from("transcription_logs")
+    .select("file_path")
+    .eq("id", transcriptionId)
+    .single();
+
+  if (logError) throw logError;
+
+  const segments = await fetchAllSegments<{ start_time: number; end_time: number }>(supabase, transcriptionId);
+  if (segments.length === 0) return 0;
+
+  let audioUrl: string | null = null;
+  if (log.file_path) {
+    const { data: signed, error: signError } = await supabase.storage
+      .from(AUDIO_BUCKET)
+      .createSignedUrl(log.file_path, 60 * 60);
+    if (signError) {
+      console.error("Error signing audio URL for diarization:", signError);
+    } else {
+      audioUrl = signed.signedUrl;
+    }
+  }
+
+  const timings = segments.map(segment => ({
+    start: Number(segment.start_time),
+    end: Number(segment.end_time),
+  }));
+
+  console.log(`Labelling speakers for ${transcriptionId} with ${backend.name} backend`);
+  const turns = await backend.diarize({ audioUrl, segments: timings });
+  const speakerIndexes = assignSpeakers(timings, turns);
+
+  const { error: updateError } = await supabase
+    .from("transcription_segments")
+    .upsert(segments.map((segment, index) => ({
+      ...segment,
+      speaker_index: speakerIndexes[index],
+    })));
+
+  if (updateError) throw updateError;
+
+  const speakerCount = new Set(speakerIndexes.filter(index => index !== null)).size;
+  console.log(`Assigned ${speakerCount} speakers across ${segments.length} segments`);
+  return speakerCount;
+};
@@ -0,0 +1,205 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import { fetchAllSegments } from "./segments.ts";
+import { mockProvidersAllowed } from "./transcription.ts";
+
+// Must match the vector column in transcription_embeddings
+export const EMBEDDING_DIMENSIONS = 1536;
+
+// Passages of a few sentences give focused matches while keeping enough context to read
+const TARGET_CHUNK_CHARS = 800;
+const EMBEDDING_BATCH_SIZE = 64;
+
+export interface EmbeddingProvider {
+  name: string;
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface TranscriptChunk {
+  content: string;
+  start_time: number | null;
+  end_time: number | null;
+}
+
+interface TimedText {
+  text: string;
+  start_time: number | null;
+  end_time: number | null;
+}
+
+export const createOpenAIEmbeddingProvider = (apiKey: string | undefined, model = "text-embedding-3-small"): EmbeddingProvider => ({
+  name: "openai",
+  model,
+  async embed(texts) {
+    const response = await fetch("https://api.openai.com/v1/embeddings", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ model, input: texts, dimensions: EMBEDDING_DIMENSIONS }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
+    }
+
+    const result = await response.json();
+    return result.data
+      .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+      .map((item: { embedding: number[] }) => item.embedding);
+  },
+});
+
+// 32-bit FNV-1a, enough to spread words across the stub's dimensions
+const hashWord = (word: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < word.length; i++) {
+    hash ^= word.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Deterministic offline provider: a normalised bag of hashed words. Texts sharing words score
+ * as similar, which is enough to exercise indexing and search without an API key.
+ */
+export const stubEmbeddingProvider: EmbeddingProvider = {
+  name: "stub",
+  model: "stub-bow-1",
+  embed(texts) {
+    return Promise.resolve(texts.map(text => {
+      const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+      (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).forEach(word => {
+        const hash = hashWord(word);
+        vector[hash % EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+      });
+
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+      return vector.map(value => value / norm);
+    }));
+  },
+};
+
+// Resolve a provider by name, falling back to EMBEDDING_PROVIDER and then OpenAI; stub needs ALLOW_MOCK_PROVIDERS
+export const getEmbeddingProvider = (name?: string | null): EmbeddingProvider => {
+  const providerName = name || Deno.env.get("EMBEDDING_PROVIDER") || "openai";
+
+  switch (providerName) {
+    case "openai":
+      return createOpenAIEmbeddingProvider(
+        Deno.env.get("OPENAI_API_KEY"),
+        Deno.env.get("OPENAI_EMBEDDING_MODEL") || undefined
+      );
+    case "stub":
+      if (!mockProvidersAllowed()) {
+        throw new Error("The stub embedding provider is not enabled");
+      }
+      return stubEmbeddingProvider;
+    default:
+      throw new Error(`Unknown embedding provider: ${providerName}`);
+  }
+};
+
+// Group consecutive pieces of text into passages of roughly TARGET_CHUNK_CHARS
+const groupIntoChunks = (pieces: TimedText[]): TranscriptChunk[] => {
+  const chunks: TranscriptChunk[] = [];
+  let current: TimedText[] = [];
+
+  const flush = () => {
+    const content = current.map(piece => piece.text.trim()).join(" ").trim();
+    if (content) {
+      chunks.push({
+        content,
+        start_time: current[0].start_time,
+        end_time: current[current.length - 1].end_time,
+      });
+    }
+    current = [];
+  };
+
+  pieces.forEach(piece => {
+    const currentLength = current.reduce((length, item) => length + item.text.length, 0);
+    if (currentLength > 0 && currentLength + piece.text.length > TARGET_CHUNK_CHARS) flush();
+    current.push(piece);
+  });
+  flush();
+
+  return chunks;
+};
+
+/**
+ * Split a transcript into passages for embedding. Timed segments are used when they still match
+ * the text, so each passage knows where it starts in the audio; otherwise sentences are grouped.
+ */
+export const chunkTranscript = (
+  text: string,
+  segments: { text: string; start_time: number; end_time: number }[] = []
+): TranscriptChunk[] => {
+  const normalize = (value: string) => value.replace(/\s+/g, " ").trim();
+
+  if (segments.length > 0 && normalize(segments.map(segment => segment.text).join(" ")) === normalize(text)) {
+    return groupIntoChunks(segments);
+  }
+
+  const sentences = text.match(/[^.!?\n]+[.!?]*\s*/g) ?? [text];
+  return groupIntoChunks(sentences.map(sentence => ({ text: sentence, start_time: null, end_time: null })));
+};
+
+/**
+ * Rebuild the semantic search passages for a transcription from its current text.
+ * Returns the number of passages stored.
+ */
+export const syncTranscriptionEmbeddings = async (
+  supabase: SupabaseClient,
+  transcriptionId: string,
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<number> => {
+  const [{ data: log, error: logError }, segments] = await Promise.all([
+    supabase
+      .from("transcription_logs")
+      .select("transcription_text")
+      .eq("id", transcriptionId)
+      .single(),
+    fetchAllSegments<{ text: string; start_time: number; end_time: number }>(
+      supabase,
+      transcriptionId,
+      "text, start_time, end_time"
+    ),
+  ]);
+
+  if (logError) throw logError;
+
+  const { error: deleteError } = await supabase
+    .from("transcription_embeddings")
+    .delete()
+    .eq("transcription_id", transcriptionId);
+
+  if (deleteError) throw deleteError;
+
+  const chunks = log.transcription_text ? chunkTranscript(log.transcription_text, segments) : [];
+  for (let start = 0; start < chunks.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = chunks.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const embeddings = await provider.embed(batch.map(chunk => chunk.content));
+
+    const { error: insertError } = await supabase
+      .from("transcription_embeddings")
+      .insert(batch.map((chunk, index) => ({
+        transcription_id: transcriptionId,
+        chunk_index: start + index,
+        content: chunk.content,
+        start_time: chunk.start_time,
+        end_time: chunk.end_time,
+        embedding: JSON.stringify(embeddings[index]),
+        provider: provider.name,
+        model: provider.model,
+      })));
+
+    if (insertError) throw insertError;
+  }
+
+  console.log(`Embedded ${chunks.length} passage(s) of ${transcriptionId} with ${provider.name}/${provider.model}`);
+  return chunks.length;
+};
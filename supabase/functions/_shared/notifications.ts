@@ -0,0 +1,209 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+
+export type NotificationEvent =
+  | "transcription_complete"
+  | "transcription_failed"
+  | "duplicate_detected"
+  | "system"
+  | "weekly_summary";
+
+export interface Notification {
+  event: NotificationEvent;
+  userId: string;
+  // Looked up from the user's account when not given
+  email?: string | null;
+  // Used as the email subject and the in-app message
+  title: string;
+  // Body text for the default email template
+  message?: string;
+  // A complete email body, replacing the default template
+  html?: string;
+  // Plain-text alternative for email clients that don't render HTML
+  text?: string;
+  // App path the in-app notification opens
+  link?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface NotificationChannels {
+  email: boolean;
+  inApp: boolean;
+}
+
+interface EventPreferences {
+  email: string | null;
+  inApp: string | null;
+  // Column defaults, for users who have never saved their preferences
+  defaults: NotificationChannels;
+}
+
+// notification_preferences columns for each event; system updates are in-app only and the weekly summary email only
+const EVENT_PREFERENCES: Record<NotificationEvent, EventPreferences> = {
+  transcription_complete: {
+    email: "email_transcription_complete",
+    inApp: "inapp_transcription_complete",
+    defaults: { email: true, inApp: true },
+  },
+  transcription_failed: {
+    email: "email_transcription_failed",
+    inApp: "inapp_transcription_failed",
+    defaults: { email: true, inApp: true },
+  },
+  duplicate_detected: {
+    email: "email_duplicate_detected",
+    inApp: "inapp_duplicate_detected",
+    defaults: { email: false, inApp: true },
+  },
+  system: {
+    email: null,
+    inApp: "inapp_system_updates",
+    defaults: { email: false, inApp: true },
+  },
+  weekly_summary: {
+    email: "email_weekly_summary",
+    inApp: null,
+    defaults: { email: false, inApp: false },
+  },
+};
+
+const EMAIL_FROM = "The Wright Scriber Pro <onboarding@resend.dev>";
+
+let resend: Resend | null = null;
+const getResend = () => {
+  resend ??= new Resend(Deno.env.get("RESEND_API_KEY") as string);
+  return resend;
+};
+
+export const escapeHTML = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export const createNotificationEmailHTML = (title: string, message: string) => {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHTML(title)}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f6f9fc; margin: 0; padding: 20px;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; overflow: hidden;">
+    <tr>
+      <td style="padding: 40px 40px 20px;">
+        <h1 style="color: #333; font-size: 24px; font-weight: bold; margin: 0 0 20px;">${escapeHTML(title)}</h1>
+        <p style="color: #333; font-size: 14px; line-height: 24px; margin: 0 0 24px; white-space: pre-wrap;">${escapeHTML(message)}</p>
+
+        <hr style="border: none; border-top: 1px solid #e6ebf1; margin: 20px 0;">
+
+        <p style="color: #8898aa; font-size: 12px; line-height: 16px; margin: 32px 0 0;">
+          This is an automated message from The Wright Scriber Pro.<br>
+          You can choose which emails you receive in your notification settings.
+        </p>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `;
+};
+
+/**
+ * The channels a user has enabled for an event, from their notification preferences.
+ */
+export const getNotificationChannels = async (
+  supabase: SupabaseClient,
+  userId: string,
+  event: NotificationEvent
+): Promise<NotificationChannels> => {
+  const columns = EVENT_PREFERENCES[event];
+  const { data: preferences, error } = await supabase
+    .from("notification_preferences")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!preferences) return columns.defaults;
+
+  return {
+    email: columns.email ? Boolean(preferences[columns.email]) : false,
+    inApp: columns.inApp ? Boolean(preferences[columns.inApp]) : false,
+  };
+};
+
+/**
+ * Deliver a notification over the channels the user has enabled for its event. Failures are
+ * logged rather than thrown, so notifying never fails the work that triggered it.
+ * Returns the channels it was delivered on.
+ */
+export const dispatchNotification = async (
+  supabase: SupabaseClient,
+  notification: Notification
+): Promise<NotificationChannels> => {
+  const delivered: NotificationChannels = { email: false, inApp: false };
+
+  let channels: NotificationChannels;
+  try {
+    channels = await getNotificationChannels(supabase, notification.userId, notification.event);
+  } catch (preferencesError) {
+    console.error("Error loading notification preferences:", preferencesError);
+    return delivered;
+  }
+
+  if (channels.inApp) {
+    const { error: inAppError } = await supabase
+      .from("notifications")
+      .insert({
+        user_id: notification.userId,
+        type: notification.event,
+        title: notification.title,
+        payload: notification.metadata ?? {},
+        link: notification.link ?? null,
+      });
+
+    if (inAppError) {
+      console.error("Error creating in-app notification:", inAppError);
+    } else {
+      delivered.inApp = true;
+    }
+  }
+
+  if (channels.email) {
+    try {
+      let email = notification.email;
+      if (!email) {
+        const { data: { user } } = await supabase.auth.admin.getUserById(notification.userId);
+        email = user?.email;
+      }
+
+      if (!email) {
+        console.warn(`No email address for user ${notification.userId}, skipping ${notification.event} email`);
+      } else {
+        const { error: emailError } = await getResend().emails.send({
+          from: EMAIL_FROM,
+          to: [email],
+          subject: notification.title,
+          html: notification.html ?? createNotificationEmailHTML(notification.title, notification.message ?? notification.title),
+          text: notification.text ?? notification.message,
+        });
+
+        if (emailError) {
+          console.error("Error sending email:", emailError);
+        } else {
+          delivered.email = true;
+          console.log(`Email sent successfully to ${email}`);
+        }
+      }
+    } catch (emailError) {
+      console.error("Error sending email notification:", emailError);
+    }
+  }
+
+  console.log(`Notified user ${notification.userId} of ${notification.event}: email ${delivered.email}, in-app ${delivered.inApp}`);
+  return delivered;
+};
@@ -0,0 +1,114 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+
+export type QueueErrorClass = "transient" | "permanent";
+
+export interface QueueFailure {
+  message: string;
+  // HTTP status of the failed call, when there was one
+  status?: number;
+}
+
+export interface QueueAttempt {
+  id: string;
+  user_id: string;
+  attempt_count: number;
+  started_at: string | null;
+}
+
+export const MAX_QUEUE_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_SECONDS = 60;
+const MAX_RETRY_DELAY_SECONDS = 60 * 60;
+
+// Rate limits, server errors and network trouble are worth another try
+const TRANSIENT_ERROR_PATTERN =
+  /\b(429|5\d\d)\b|rate limit|too many requests|timed? ?out|timeout|network|fetch failed|connection|econn|temporar|service unavailable/i;
+// Nothing about the job will change by trying again
+const PERMANENT_ERROR_PATTERN =
+  /no_captions_available|no captions|private|video unavailable|invalid youtube url|not found|no text to translate|only completed/i;
+
+/**
+ * Decide whether a failed attempt is worth retrying. The message wins over the status, since
+ * functions report provider failures like a rate limit as a generic 500; failures that match
+ * neither are treated as transient unless the status says the request itself was bad.
+ */
+export const classifyQueueError = ({ message, status }: QueueFailure): QueueErrorClass => {
+  if (TRANSIENT_ERROR_PATTERN.test(message)) return "transient";
+  if (PERMANENT_ERROR_PATTERN.test(message)) return "permanent";
+  if (status !== undefined && status >= 400 && status < 500 && status !== 408 && status !== 429) {
+    return "permanent";
+  }
+  return "transient";
+};
+
+/**
+ * Exponential backoff from a minute, doubling per attempt up to an hour, with jitter so items
+ * that failed together don't all retry together.
+ */
+export const getRetryDelaySeconds = (attempt: number) => {
+  const ceiling = Math.min(BASE_RETRY_DELAY_SECONDS * 2 ** (attempt - 1), MAX_RETRY_DELAY_SECONDS);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
+
+const recordAttempt = async (
+  supabase: SupabaseClient,
+  item: QueueAttempt,
+  succeeded: boolean,
+  failure?: QueueFailure,
+  errorClass?: QueueErrorClass
+) => {
+  const { error } = await supabase
+    .from("transcription_queue_attempts")
+    .insert({
+      queue_item_id: item.id,
+      user_id: item.user_id,
+      attempt_number: item.attempt_count,
+      succeeded,
+      error_message: failure?.message ?? null,
+      error_class: errorClass ?? null,
+      started_at: item.started_at,
+    });
+
+  if (error) {
+    console.error(`Error recording attempt ${item.attempt_count} of queue item ${item.id}:`, error);
+  }
+};
+
+export const recordQueueSuccess = (supabase: SupabaseClient, item: QueueAttempt) =>
+  recordAttempt(supabase, item, true);
+
+/**
+ * Record a failed attempt and move the item on: back to pending with a retry delay for transient
+ * errors with attempts left, otherwise to dead_letter, where it waits for a manual retry.
+ */
+export const recordQueueFailure = async (
+  supabase: SupabaseClient,
+  item: QueueAttempt,
+  failure: QueueFailure
+) => {
+  const errorClass = classifyQueueError(failure);
+  await recordAttempt(supabase, item, false, failure, errorClass);
+
+  const retry = errorClass === "transient" && item.attempt_count < MAX_QUEUE_ATTEMPTS;
+  const delaySeconds = getRetryDelaySeconds(item.attempt_count);
+
+  const { error } = await supabase
+    .from("transcription_queue")
+    .update({
+      status: retry ? "pending" : "dead_letter",
+      progress: 0,
+      error_message: failure.message,
+      last_error_class: errorClass,
+      next_attempt_at: retry ? new Date(Date.now() + delaySeconds * 1000).toISOString() : null,
+    })
+    .eq("id", item.id);
+
+  if (error) {
+    console.error(`Error updating failed queue item ${item.id}:`, error);
+  }
+
+  console.log(
+    retry
+      ? `Queue item ${item.id} failed (${errorClass}) on attempt ${item.attempt_count}, retrying in ${delaySeconds}s`
+      : `Queue item ${item.id} failed (${errorClass}) on attempt ${item.attempt_count}, moved to dead letter`
+  );
+};
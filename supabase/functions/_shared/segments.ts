@@ -0,0 +1,93 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import { TranscriptionSegment } from "./transcription.ts";
+
+// Position of one piece of a large file that the client split up; chunks overlap by `overlap` seconds
+export interface AudioChunk {
+  index: number;
+  count: number;
+  offset: number;
+  overlap: number;
+}
+
+/**
+ * Persist the provider's timestamped segments for a transcription log.
+ * Chunk segments are shifted by the chunk offset, and the overlap with the previous chunk
+ * is resolved by cutting at its midpoint: earlier segments are kept before it, this chunk's after it.
+ */
+export const saveSegments = async (
+  supabase: SupabaseClient,
+  transcriptionId: string,
+  segments?: TranscriptionSegment[],
+  chunk?: AudioChunk
+) => {
+  if (!segments || segments.length === 0) return;
+
+  const offset = chunk?.offset ?? 0;
+  const cutTime = chunk && chunk.index > 0 ? chunk.offset + chunk.overlap / 2 : 0;
+  let startIndex = 0;
+
+  if (cutTime > 0) {
+    await supabase
+      .from("transcription_segments")
+      .delete()
+      .eq("transcription_id", transcriptionId)
+      .gte("start_time", cutTime);
+
+    const { count } = await supabase
+      .from("transcription_segments")
+      .select("id", { count: "exact", head: true })
+      .eq("transcription_id", transcriptionId);
+    startIndex = count ?? 0;
+  }
+
+  const rows = segments
+    .map(segment => ({ ...segment, start: segment.start + offset, end: segment.end + offset }))
+    .filter(segment => segment.start >= cutTime)
+    .map((segment, index) => ({
+      transcription_id: transcriptionId,
+      segment_index: startIndex + index,
+      start_time: segment.start,
+      end_time: segment.end,
+      text: segment.text.trim(),
+      avg_logprob: segment.avg_logprob ?? null,
+      no_speech_prob: segment.no_speech_prob ?? null,
+    }));
+
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from("transcription_segments")
+    .insert(rows);
+
+  if (error) {
+    console.error("Error saving transcription segments:", error);
+    // Don't fail the request if segments can't be saved
+  } else {
+    console.log(`Saved ${rows.length} segments for log ${transcriptionId}`);
+  }
+};
+
+// Rows per request when reading segments; PostgREST caps responses at 1000 rows
+const SEGMENT_PAGE_SIZE = 1000;
+
+// Read every segment of a transcription log in order, a page at a time
+export const fetchAllSegments = async <T = Record<string, unknown>>(
+  supabase: SupabaseClient,
+  transcriptionId: string,
+  columns = "*"
+): Promise<T[]> => {
+  const segments: T[] = [];
+
+  for (let start = 0; ; start += SEGMENT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("transcription_segments")
+      .select(columns)
+      .eq("transcription_id", transcriptionId)
+      .order("segment_index", { ascending: true })
+      .range(start, start + SEGMENT_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    segments.push(...((data || []) as T[]));
+    if (!data || data.length < SEGMENT_PAGE_SIZE) return segments;
+  }
+};
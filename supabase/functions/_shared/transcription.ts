@@ -0,0 +1,179 @@
+// A timed piece of transcript as returned by a provider
+export interface TranscriptionSegment {
+  start: number;
+  end: number;
+  text: string;
+  avg_logprob?: number;
+  no_speech_prob?: number;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  language?: string;
+  duration?: number;
+  segments: TranscriptionSegment[];
+}
+
+export interface TranscriptionRequest {
+  file: Blob;
+  fileName?: string;
+  // "translate" produces English text regardless of the spoken language
+  task: "transcribe" | "translate";
+  model?: string;
+  language?: string;
+}
+
+export interface TranscriptionProvider {
+  name: string;
+  defaultModel: string;
+  // USD per audio minute, used to estimate spend; 0 for self-hosted and mock providers
+  costPerMinute: number;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
+
+// Post a Whisper-style multipart request and normalise the verbose_json response
+const postWhisperRequest = async (
+  url: string,
+  headers: Record<string, string>,
+  request: TranscriptionRequest,
+  model: string,
+  errorLabel: string,
+  extraFields: Record<string, string> = {}
+): Promise<TranscriptionResult> => {
+  const formData = new FormData();
+  formData.append("file", request.file, request.fileName || "audio");
+  formData.append("model", model);
+  formData.append("response_format", "verbose_json");
+  if (request.language && request.task === "transcribe") {
+    formData.append("language", request.language);
+  }
+  Object.entries(extraFields).forEach(([key, value]) => formData.append(key, value));
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers,
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${errorLabel} error: ${response.status} - ${errorText}`);
+  }
+
+  const result = await response.json();
+  return {
+    text: result.text ?? "",
+    language: result.language,
+    duration: result.duration,
+    segments: result.segments ?? [],
+  };
+};
+
+export const createOpenAIProvider = (apiKey: string | undefined): TranscriptionProvider => ({
+  name: "openai",
+  defaultModel: "whisper-1",
+  costPerMinute: 0.006,
+  transcribe(request) {
+    const endpoint = request.task === "translate" ? "translations" : "transcriptions";
+    return postWhisperRequest(
+      `https://api.openai.com/v1/audio/${endpoint}`,
+      { Authorization: `Bearer ${apiKey}` },
+      request,
+      request.model || this.defaultModel,
+      "OpenAI API"
+    );
+  },
+});
+
+/**
+ * Self-hosted server speaking the OpenAI audio API, e.g. faster-whisper-server,
+ * or whisper.cpp's server started with --inference-path /v1/audio/transcriptions.
+ */
+export const createWhisperServerProvider = (baseUrl: string, apiKey?: string): TranscriptionProvider => ({
+  name: "whisper-server",
+  defaultModel: Deno.env.get("WHISPER_SERVER_MODEL") || "base",
+  costPerMinute: Number(Deno.env.get("WHISPER_SERVER_COST_PER_MINUTE") || 0),
+  transcribe(request) {
+    const endpoint = request.task === "translate" ? "translations" : "transcriptions";
+    return postWhisperRequest(
+      `${baseUrl.replace(/\/$/, "")}/v1/audio/${endpoint}`,
+      apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+      request,
+      request.model || this.defaultModel,
+      "Whisper server",
+      // whisper.cpp's server reads this flag instead of using a separate endpoint
+      request.task === "translate" ? { translate: "true" } : {}
+    );
+  },
+});
+
+const MOCK_SEGMENT_SECONDS = 5;
+const MOCK_MAX_SEGMENTS = 20;
+
+// Deterministic offline provider: output depends only on the file size and task
+export const mockProvider: TranscriptionProvider = {
+  name: "mock",
+  defaultModel: "mock-1",
+  costPerMinute: 0,
+  transcribe(request) {
+    // Treat the file as 16 kHz 16-bit mono to derive a stable duration
+    const duration = Math.max(1, Math.round(request.file.size / 32000));
+    const segmentCount = Math.min(MOCK_MAX_SEGMENTS, Math.ceil(duration / MOCK_SEGMENT_SECONDS));
+    const verb = request.task === "translate" ? "translation" : "transcription";
+
+    const segments = Array.from({ length: segmentCount }, (_, index) => ({
+      start: index * MOCK_SEGMENT_SECONDS,
+      end: Math.min((index + 1) * MOCK_SEGMENT_SECONDS, duration),
+      text: `Mock ${verb} segment ${index + 1}.`,
+    }));
+
+    return Promise.resolve({
+      text: segments.map(segment => segment.text).join(" "),
+      language: request.task === "translate" ? "en" : request.language || "en",
+      duration,
+      segments,
+    });
+  },
+};
+
+export const TRANSCRIPTION_PROVIDERS = ["openai", "whisper-server", "mock"];
+
+// Mock providers return canned results, so they can only be chosen where ALLOW_MOCK_PROVIDERS is set (local and test setups)
+export const mockProvidersAllowed = () => Deno.env.get("ALLOW_MOCK_PROVIDERS") === "true";
+
+/**
+ * Resolve a provider by name, falling back to TRANSCRIPTION_PROVIDER and then OpenAI.
+ * Throws for unknown names, a self-hosted provider without WHISPER_SERVER_URL, or the mock provider
+ * without ALLOW_MOCK_PROVIDERS.
+ */
+export const getTranscriptionProvider = (name?: string | null): TranscriptionProvider => {
+  const providerName = name || Deno.env.get("TRANSCRIPTION_PROVIDER") || "openai";
+
+  switch (providerName) {
+    case "openai":
+      return createOpenAIProvider(Deno.env.get("OPENAI_API_KEY"));
+    case "whisper-server": {
+      const baseUrl = Deno.env.get("WHISPER_SERVER_URL");
+      if (!baseUrl) {
+        throw new Error("WHISPER_SERVER_URL is not configured");
+      }
+      return createWhisperServerProvider(baseUrl, Deno.env.get("WHISPER_SERVER_API_KEY"));
+    }
+    case "mock":
+      if (!mockProvidersAllowed()) {
+        throw new Error("The mock transcription provider is not enabled");
+      }
+      return mockProvider;
+    default:
+      throw new Error(`Unknown transcription provider: ${providerName}`);
+  }
+};
+
+// Estimated cost in USD for transcribing `durationSeconds` of audio, rounded to the column's precision
+export const estimateTranscriptionCost = (
+  provider: TranscriptionProvider,
+  durationSeconds?: number | null
+): number | null => {
+  if (durationSeconds == null) return null;
+  return Math.round((durationSeconds / 60) * provider.costPerMinute * 10000) / 10000;
+};
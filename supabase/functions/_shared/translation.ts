@@ -0,0 +1,243 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import { mockProvidersAllowed } from "./transcription.ts";
+
+// Keep each request comfortably inside the model's context, splitting on paragraph boundaries
+const MAX_CHARS_PER_REQUEST = 6000;
+
+export interface TextTranslationRequest {
+  text: string;
+  targetLanguage: string;
+  sourceLanguage?: string | null;
+  model?: string;
+}
+
+export interface TextTranslator {
+  name: string;
+  defaultModel: string;
+  translate(request: TextTranslationRequest): Promise<string>;
+}
+
+export const createOpenAITextTranslator = (apiKey: string | undefined): TextTranslator => ({
+  name: "openai",
+  defaultModel: "gpt-4o-mini",
+  async translate({ text, targetLanguage, sourceLanguage, model }) {
+    const response = await fetch("https://api.openai.com/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: model || this.defaultModel,
+        temperature: 0,
+        messages: [
+          {
+            role: "system",
+            content:
+              `Translate the user's transcript${sourceLanguage ? ` from language code "${sourceLanguage}"` : ""} ` +
+              `into the language with code "${targetLanguage}". Preserve line breaks and any "Name:" speaker labels. ` +
+              "Reply with the translation only.",
+          },
+          { role: "user", content: text },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
+    }
+
+    const result = await response.json();
+    return result.choices?.[0]?.message?.content?.trim() ?? "";
+  },
+});
+
+// Deterministic offline translator: tags each paragraph with the target language
+export const mockTextTranslator: TextTranslator = {
+  name: "mock",
+  defaultModel: "mock-1",
+  translate({ text, targetLanguage }) {
+    return Promise.resolve(
+      text.split("\n").map(line => (line.trim() ? `[${targetLanguage}] ${line}` : line)).join("\n")
+    );
+  },
+};
+
+// Resolve a translator by name, falling back to TRANSLATION_PROVIDER and then OpenAI; mock needs ALLOW_MOCK_PROVIDERS
+export const getTextTranslator = (name?: string | null): TextTranslator => {
+  const providerName = name || Deno.env.get("TRANSLATION_PROVIDER") || "openai";
+
+  switch (providerName) {
+    case "openai":
+      return createOpenAITextTranslator(Deno.env.get("OPENAI_API_KEY"));
+    case "mock":
+      if (!mockProvidersAllowed()) {
+        throw new Error("The mock translation provider is not enabled");
+      }
+      return mockTextTranslator;
+    default:
+      throw new Error(`Unknown translation provider: ${providerName}`);
+  }
+};
+
+// Split text into pieces under the request limit, preferring paragraph then sentence boundaries
+export const splitForTranslation = (text: string, maxChars = MAX_CHARS_PER_REQUEST): string[] => {
+  const pieces: string[] = [];
+  let current = "";
+
+  const units = text.split(/(\n+)/).flatMap(part =>
+    part.length > maxChars ? part.match(/[^.!?]+[.!?]*\s*/g) ?? [part] : [part]
+  );
+
+  units.forEach(unit => {
+    if (current.length + unit.length > maxChars && current.trim()) {
+      pieces.push(current);
+      current = "";
+    }
+    current += unit;
+  });
+
+  if (current.trim()) pieces.push(current);
+  return pieces;
+};
+
+export interface TranslateTranscriptOptions {
+  translator?: TextTranslator;
+  model?: string;
+  // Called after each piece is translated, e.g. to report queue progress
+  onProgress?: (completedPieces: number, totalPieces: number) => Promise<void>;
+}
+
+/**
+ * Translate a stored transcription into `targetLanguage` and save it as a linked translation record.
+ * Re-translating into the same language replaces the earlier record. Failures are recorded and rethrown.
+ */
+export const translateTranscript = async (
+  supabase: SupabaseClient,
+  transcriptionId: string,
+  targetLanguage: string,
+  { translator = getTextTranslator(), model, onProgress }: TranslateTranscriptOptions = {}
+) => {
+  const { data: log, error: logError } = await supabase
+    .from("transcription_logs")
+    .select("transcription_text, language")
+    .eq("id", transcriptionId)
+    .single();
+
+  if (logError) throw logError;
+  if (!log.transcription_text) {
+    throw new Error("Transcription has no text to translate");
+  }
+
+  const { data: translation, error: upsertError } = await supabase
+    .from("transcription_translations")
+    .upsert({
+      transcription_id: transcriptionId,
+      target_language: targetLanguage,
+      source_language: log.language,
+      translated_text: null,
+      status: "processing",
+      error_message: null,
+      provider: translator.name,
+      model: model || translator.defaultModel,
+    }, {
+      onConflict: "transcription_id,target_language",
+    })
+    .select()
+    .single();
+
+  if (upsertError) throw upsertError;
+
+  try {
+    const pieces = splitForTranslation(log.transcription_text);
+    console.log(`Translating ${transcriptionId} into ${targetLanguage} in ${pieces.length} part(s) with ${translator.name}`);
+
+    const translatedPieces: string[] = [];
+    for (const piece of pieces) {
+      translatedPieces.push(await translator.translate({
+        text: piece,
+        targetLanguage,
+        sourceLanguage: log.language,
+        model,
+      }));
+      await onProgress?.(translatedPieces.length, pieces.length);
+    }
+
+    // Rejoin on a paragraph break where the source was split on one, otherwise mid-paragraph
+    const translatedText = translatedPieces.reduce((text, piece, index) => {
+      if (index === 0) return piece;
+      const splitOnParagraph = /\n\s*$/.test(pieces[index - 1]) || /^\s*\n/.test(pieces[index]);
+      return text + (splitOnParagraph ? "\n\n" : " ") + piece;
+    }, "");
+
+    const { data: completed, error: updateError } = await supabase
+      .from("transcription_translations")
+      .update({ status: "completed", translated_text: translatedText })
+      .eq("id", translation.id)
+      .select()
+      .single();
+
+    if (updateError) throw updateError;
+    return completed;
+  } catch (error) {
+    await supabase
+      .from("transcription_translations")
+      .update({
+        status: "failed",
+        error_message: error instanceof Error ? error.message : "Unknown error",
+      })
+      .eq("id", translation.id);
+    throw error;
+  }
+};
+
+/**
+ * Run a queued translation to completion, reporting progress and the result on its queue item.
+ * The translation itself is stored against the source log by translateTranscript. Failures are
+ * recorded on the queue item rather than thrown.
+ */
+export const runQueuedTranslation = async (
+  supabase: SupabaseClient,
+  queueItemId: string,
+  transcriptionId: string,
+  targetLanguage: string,
+  translator: TextTranslator,
+  model?: string
+) => {
+  try {
+    const translation = await translateTranscript(supabase, transcriptionId, targetLanguage, {
+      translator,
+      model,
+      onProgress: async (completedPieces, totalPieces) => {
+        await supabase
+          .from("transcription_queue")
+          .update({ progress: Math.round(5 + (completedPieces / totalPieces) * 90) })
+          .eq("id", queueItemId);
+      },
+    });
+
+    await supabase
+      .from("transcription_queue")
+      .update({
+        status: "completed",
+        progress: 100,
+        completed_at: new Date().toISOString(),
+        result_text: translation.translated_text,
+        result_language: translation.target_language,
+      })
+      .eq("id", queueItemId);
+
+    console.log(`Queued translation ${queueItemId} completed`);
+  } catch (error) {
+    console.error(`Queued translation ${queueItemId} failed:`, error);
+    await supabase
+      .from("transcription_queue")
+      .update({
+        status: "failed",
+        progress: 0,
+        error_message: error instanceof Error ? error.message : "Translation failed",
+      })
+      .eq("id", queueItemId);
+  }
+};
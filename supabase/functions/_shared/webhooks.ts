@@ -0,0 +1,262 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+
+export type WebhookEvent =
+  | "transcription.completed"
+  | "transcription.failed"
+  | "duplicate.detected"
+  | "cleanup.completed";
+
+export interface WebhookEndpoint {
+  id: string;
+  user_id: string;
+  url: string;
+  secret: string;
+  events: string[];
+  enabled: boolean;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  user_id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  status: "pending" | "delivering" | "succeeded" | "failed";
+  attempt_count: number;
+}
+
+// Wait before each retry: 1 minute, 5 minutes, 30 minutes, 2 hours, 12 hours. After the last
+// retry fails the delivery is marked failed and can only be replayed by hand
+const RETRY_DELAYS_SECONDS = [60, 300, 1800, 7200, 43200];
+const MAX_ATTEMPTS = RETRY_DELAYS_SECONDS.length + 1;
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// How long a delivery stays claimed while it's being sent. If the run sending it dies, the
+// delivery becomes due again once this has passed
+export const DELIVERY_LEASE_SECONDS = 15 * 60;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+/**
+ * HMAC-SHA256 of `${timestamp}.${body}` with the endpoint's secret, hex encoded. Receivers
+ * recompute it from the X-Webhook-Timestamp header and the raw request body.
+ */
+export const signWebhookPayload = async (secret: string, timestamp: number, body: string) => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+  return toHex(signature);
+};
+
+const parseIPv4 = (address: string): number[] | null => {
+  const parts = address.split(".");
+  if (parts.length !== 4 || parts.some((part) => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null;
+  return parts.map(Number);
+};
+
+// Loopback, private, link-local (including cloud metadata), carrier-grade NAT, multicast and reserved ranges
+const isPrivateIPv4 = ([a, b]: number[]) =>
+  a === 0 ||
+  a === 10 ||
+  a === 127 ||
+  (a === 100 && b >= 64 && b <= 127) ||
+  (a === 169 && b === 254) ||
+  (a === 172 && b >= 16 && b <= 31) ||
+  (a === 192 && b === 168) ||
+  (a === 198 && (b === 18 || b === 19)) ||
+  a >= 224;
+
+const isPrivateIPv6 = (address: string) => {
+  const value = address.toLowerCase().replace(/^\[|\]$/g, "");
+  // IPv4-mapped addresses reach the IPv4 host
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(value);
+  if (mapped) {
+    const ipv4 = parseIPv4(mapped[1]);
+    return !ipv4 || isPrivateIPv4(ipv4);
+  }
+  return (
+    value === "::" ||
+    value === "::1" ||
+    value.startsWith("::ffff:") ||
+    /^f[cd]/.test(value) ||
+    /^fe[89ab]/.test(value) ||
+    value.startsWith("ff")
+  );
+};
+
+const isPrivateAddress = (address: string) => {
+  const ipv4 = parseIPv4(address);
+  return ipv4 ? isPrivateIPv4(ipv4) : isPrivateIPv6(address);
+};
+
+/**
+ * Endpoint URLs are user supplied, so only public https hosts are called: the host is resolved
+ * and refused if any of its addresses are loopback, private or link-local. Throws with the reason.
+ */
+export const assertPublicWebhookUrl = async (value: string) => {
+  const url = new URL(value);
+  if (url.protocol !== "https:") {
+    throw new Error("Webhook endpoints must use https");
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  if (hostname === "localhost" || hostname.endsWith(".localhost")) {
+    throw new Error("Webhook endpoints must be public hosts");
+  }
+
+  let addresses: string[];
+  if (parseIPv4(hostname) || hostname.includes(":")) {
+    addresses = [hostname];
+  } else {
+    const [ipv4, ipv6] = await Promise.all([
+      Deno.resolveDns(hostname, "A").catch(() => [] as string[]),
+      Deno.resolveDns(hostname, "AAAA").catch(() => [] as string[]),
+    ]);
+    addresses = [...ipv4, ...ipv6];
+  }
+
+  if (addresses.length === 0) {
+    throw new Error(`Could not resolve ${hostname}`);
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error("Webhook endpoints must be public hosts");
+  }
+};
+
+/**
+ * Send a delivery to its endpoint once and record the outcome: succeeded on a 2xx response,
+ * otherwise scheduled for a retry with backoff, or failed once the retries are used up.
+ * With retry off a failed attempt is final.
+ */
+export const attemptWebhookDelivery = async (
+  supabase: SupabaseClient,
+  delivery: WebhookDelivery,
+  endpoint: WebhookEndpoint,
+  { retry = true }: { retry?: boolean } = {}
+): Promise<boolean> => {
+  const attempt = delivery.attempt_count + 1;
+  const timestamp = Math.floor(Date.now() / 1000);
+  const body = JSON.stringify({ id: delivery.id, ...delivery.payload });
+
+  let responseStatus: number | null = null;
+  let errorMessage: string | null = null;
+
+  try {
+    await assertPublicWebhookUrl(endpoint.url);
+
+    const signature = await signWebhookPayload(endpoint.secret, timestamp, body);
+    const response = await fetch(endpoint.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "WrightScriberPro-Webhooks/1.0",
+        "X-Webhook-Id": delivery.id,
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": `sha256=${signature}`,
+      },
+      body,
+      // A redirect could point anywhere, including hosts the check above refuses
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    // Only the status is kept; response bodies aren't stored so the endpoint's content never reaches the user
+    responseStatus = response.status;
+    await response.body?.cancel();
+    if (!response.ok) {
+      errorMessage = `Endpoint responded with ${response.status}`;
+    }
+  } catch (requestError) {
+    errorMessage = requestError instanceof Error ? requestError.message : "Request failed";
+  }
+
+  const succeeded = errorMessage === null;
+  const willRetry = !succeeded && retry && attempt < MAX_ATTEMPTS;
+  const now = new Date();
+
+  const { error: updateError } = await supabase
+    .from("webhook_deliveries")
+    .update({
+      attempt_count: attempt,
+      status: succeeded ? "succeeded" : willRetry ? "pending" : "failed",
+      next_attempt_at: willRetry
+        ? new Date(now.getTime() + RETRY_DELAYS_SECONDS[attempt - 1] * 1000).toISOString()
+        : null,
+      response_status: responseStatus,
+      error_message: errorMessage,
+      delivered_at: succeeded ? now.toISOString() : null,
+    })
+    .eq("id", delivery.id);
+
+  if (updateError) {
+    console.error(`Error recording webhook delivery ${delivery.id}:`, updateError);
+  }
+
+  console.log(
+    `Webhook delivery ${delivery.id} (${delivery.event}) attempt ${attempt}: ${succeeded ? "succeeded" : errorMessage}`
+  );
+  return succeeded;
+};
+
+/**
+ * Queue an event for every enabled endpoint the user has subscribed to it, and make the first
+ * attempt straight away. Failures are logged rather than thrown, so webhooks never fail the
+ * work that triggered them; failed attempts are retried by the deliver-webhooks function.
+ */
+export const emitWebhookEvent = async (
+  supabase: SupabaseClient,
+  userId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<void> => {
+  try {
+    const { data: endpoints, error: endpointsError } = await supabase
+      .from("webhook_endpoints")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("enabled", true)
+      .contains("events", [event]);
+
+    if (endpointsError) throw endpointsError;
+    if (!endpoints || endpoints.length === 0) return;
+
+    const payload = { event, created_at: new Date().toISOString(), data };
+
+    const { data: deliveries, error: insertError } = await supabase
+      .from("webhook_deliveries")
+      .insert(
+        (endpoints as WebhookEndpoint[]).map((endpoint) => ({
+          endpoint_id: endpoint.id,
+          user_id: userId,
+          event,
+          payload,
+          // Claimed for the first attempt below so a retry run can't send it at the same time
+          status: "delivering",
+          next_attempt_at: new Date(Date.now() + DELIVERY_LEASE_SECONDS * 1000).toISOString(),
+        }))
+      )
+      .select();
+
+    if (insertError) throw insertError;
+
+    const endpointsById = new Map((endpoints as WebhookEndpoint[]).map((endpoint) => [endpoint.id, endpoint]));
+    await Promise.all(
+      (deliveries as WebhookDelivery[]).map((delivery) =>
+        attemptWebhookDelivery(supabase, delivery, endpointsById.get(delivery.endpoint_id)!)
+      )
+    );
+  } catch (webhookError) {
+    console.error(`Error emitting ${event} webhook:`, webhookError);
+  }
+};
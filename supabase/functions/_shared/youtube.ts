@@ -0,0 +1,285 @@
+import { mockProvidersAllowed } from "./transcription.ts";
+
+// What a YouTube URL points at. Channels can be referred to by ID, @handle, legacy username or custom name
+export type YouTubeUrl =
+  | { kind: "video"; videoId: string }
+  | { kind: "playlist"; playlistId: string }
+  | { kind: "channel"; channelId?: string; handle?: string; username?: string; customName?: string };
+
+export interface CaptionTrack {
+  code: string;
+  name: string;
+  isAutoGenerated: boolean;
+}
+
+export interface YouTubeVideo {
+  videoId: string;
+  title: string;
+  description: string;
+  thumbnail: string | null;
+  channelTitle: string;
+  publishedAt: string;
+}
+
+export interface YouTubeChannel {
+  channelId: string;
+  title: string;
+  // Every channel's uploads are also a playlist, which is how its videos are listed
+  uploadsPlaylistId: string;
+}
+
+export interface YouTubeClient {
+  name: string;
+  getChannel(ref: Extract<YouTubeUrl, { kind: "channel" }>): Promise<YouTubeChannel | null>;
+  getPlaylistTitle(playlistId: string): Promise<string | null>;
+  // Newest first for a channel's uploads, playlist order otherwise
+  listPlaylistVideos(playlistId: string, maxResults: number): Promise<YouTubeVideo[]>;
+  getCaptionTracks(videoId: string): Promise<CaptionTrack[]>;
+}
+
+const VIDEO_ID_PATTERN = /^[a-zA-Z0-9_-]{11}$/;
+const MAX_PAGE_SIZE = 50;
+
+/**
+ * Work out what a YouTube URL refers to. A watch URL inside a playlist is still the video;
+ * a bare 11 character ID is treated as a video ID.
+ */
+export const parseYouTubeUrl = (input: string): YouTubeUrl | null => {
+  const value = input.trim();
+  if (VIDEO_ID_PATTERN.test(value)) return { kind: "video", videoId: value };
+
+  let url: URL;
+  try {
+    url = new URL(value.startsWith("http") ? value : `https://${value}`);
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname.replace(/^(www|m|music)\./, "");
+  if (host === "youtu.be") {
+    const videoId = url.pathname.slice(1);
+    return VIDEO_ID_PATTERN.test(videoId) ? { kind: "video", videoId } : null;
+  }
+  if (host !== "youtube.com") return null;
+
+  const videoId = url.searchParams.get("v");
+  if (videoId && VIDEO_ID_PATTERN.test(videoId)) return { kind: "video", videoId };
+
+  const [first, second] = url.pathname.split("/").filter(Boolean);
+  if ((first === "embed" || first === "shorts" || first === "live") && second && VIDEO_ID_PATTERN.test(second)) {
+    return { kind: "video", videoId: second };
+  }
+
+  const playlistId = url.searchParams.get("list");
+  if (playlistId) return { kind: "playlist", playlistId };
+
+  if (first?.startsWith("@")) return { kind: "channel", handle: first };
+  if (first === "channel" && second) return { kind: "channel", channelId: second };
+  if (first === "user" && second) return { kind: "channel", username: second };
+  if (first === "c" && second) return { kind: "channel", customName: second };
+
+  return null;
+};
+
+/**
+ * Read the caption tracks YouTube lists on the watch page. Data API caption listings need OAuth,
+ * so this is how search results get their caption badges too.
+ */
+const fetchCaptionTracks = async (videoId: string): Promise<CaptionTrack[]> => {
+  const videoPageResponse = await fetch(`https://www.youtube.com/watch?v=${videoId}`);
+  if (!videoPageResponse.ok) return [];
+
+  const html = await videoPageResponse.text();
+  const captionTracksMatch = html.match(/"captionTracks":\s*(\[.*?\])/);
+  if (!captionTracksMatch) return [];
+
+  const captionTracks: Array<{ languageCode: string; name?: { simpleText?: string }; kind?: string }> =
+    JSON.parse(captionTracksMatch[1]);
+  return captionTracks.map((track) => ({
+    code: track.languageCode,
+    name: track.name?.simpleText || track.languageCode,
+    isAutoGenerated: track.kind === "asr",
+  }));
+};
+
+export const createYouTubeDataClient = (apiKey: string): YouTubeClient => {
+  const request = async (resource: string, params: Record<string, string>) => {
+    const url = new URL(`https://www.googleapis.com/youtube/v3/${resource}`);
+    Object.entries(params).forEach(([key, value]) => url.searchParams.append(key, value));
+    url.searchParams.append("key", apiKey);
+
+    const response = await fetch(url.toString());
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`YouTube API error: ${response.status} - ${errorText}`);
+    }
+    return response.json();
+  };
+
+  return {
+    name: "youtube-data-api",
+    async getChannel(ref) {
+      let channelId = ref.channelId;
+
+      // Custom /c/ names can only be found through search
+      if (!channelId && ref.customName) {
+        const search = await request("search", { part: "snippet", type: "channel", q: ref.customName, maxResults: "1" });
+        channelId = search.items?.[0]?.id?.channelId;
+        if (!channelId) return null;
+      }
+
+      const params: Record<string, string> = channelId
+        ? { id: channelId }
+        : ref.handle
+          ? { forHandle: ref.handle }
+          : { forUsername: ref.username ?? "" };
+      const data = await request("channels", { part: "snippet,contentDetails", ...params });
+      const channel = data.items?.[0];
+      if (!channel) return null;
+
+      return {
+        channelId: channel.id,
+        title: channel.snippet.title,
+        uploadsPlaylistId: channel.contentDetails.relatedPlaylists.uploads,
+      };
+    },
+    async getPlaylistTitle(playlistId) {
+      const data = await request("playlists", { part: "snippet", id: playlistId });
+      return data.items?.[0]?.snippet?.title ?? null;
+    },
+    async listPlaylistVideos(playlistId, maxResults) {
+      const videos: YouTubeVideo[] = [];
+      let pageToken: string | undefined;
+
+      do {
+        const data = await request("playlistItems", {
+          part: "snippet,contentDetails",
+          playlistId,
+          maxResults: String(Math.min(MAX_PAGE_SIZE, maxResults - videos.length)),
+          ...(pageToken && { pageToken }),
+        });
+
+        for (const item of data.items ?? []) {
+          // Private and deleted videos stay in playlists but can't be transcribed
+          if (!item.contentDetails?.videoPublishedAt) continue;
+          videos.push({
+            videoId: item.contentDetails.videoId,
+            title: item.snippet.title,
+            description: item.snippet.description,
+            thumbnail: item.snippet.thumbnails?.medium?.url ?? item.snippet.thumbnails?.default?.url ?? null,
+            channelTitle: item.snippet.videoOwnerChannelTitle ?? item.snippet.channelTitle,
+            publishedAt: item.contentDetails.videoPublishedAt,
+          });
+        }
+        pageToken = data.nextPageToken;
+      } while (pageToken && videos.length < maxResults);
+
+      return videos.slice(0, maxResults);
+    },
+    getCaptionTracks: fetchCaptionTracks,
+  };
+};
+
+const MOCK_VIDEO_COUNT = 12;
+const MOCK_EPOCH = Date.UTC(2025, 0, 1);
+
+// Deterministic offline client: every channel and playlist has the same dozen videos, one a day,
+// newest first, and every third video has no captions
+export const mockYouTubeClient: YouTubeClient = {
+  name: "mock",
+  getChannel(ref) {
+    const name = ref.channelId ?? ref.handle ?? ref.username ?? ref.customName ?? "channel";
+    return Promise.resolve({
+      channelId: ref.channelId ?? `UCmock${name.replace(/\W/g, "")}`,
+      title: `Mock channel ${name}`,
+      uploadsPlaylistId: `UUmock${name.replace(/\W/g, "")}`,
+    });
+  },
+  getPlaylistTitle(playlistId) {
+    return Promise.resolve(`Mock playlist ${playlistId}`);
+  },
+  listPlaylistVideos(playlistId, maxResults) {
+    return Promise.resolve(
+      Array.from({ length: Math.min(MOCK_VIDEO_COUNT, maxResults) }, (_, index) => {
+        const number = MOCK_VIDEO_COUNT - index;
+        return {
+          videoId: `mockvid${String(number).padStart(4, "0")}`,
+          title: `Mock video ${number}`,
+          description: `Video ${number} of ${playlistId}`,
+          thumbnail: null,
+          channelTitle: "Mock channel",
+          publishedAt: new Date(MOCK_EPOCH + number * 24 * 60 * 60 * 1000).toISOString(),
+        };
+      })
+    );
+  },
+  getCaptionTracks(videoId) {
+    const number = Number(videoId.slice(-4));
+    return Promise.resolve(
+      number % 3 === 0 ? [] : [{ code: "en", name: "English", isAutoGenerated: number % 2 === 0 }]
+    );
+  },
+};
+
+// Resolve a client by name, falling back to YOUTUBE_CLIENT and then the Data API; mock needs ALLOW_MOCK_PROVIDERS
+export const getYouTubeClient = (name?: string | null): YouTubeClient => {
+  const clientName = name || Deno.env.get("YOUTUBE_CLIENT") || "youtube-data-api";
+
+  switch (clientName) {
+    case "youtube-data-api": {
+      const apiKey = Deno.env.get("YOUTUBE_API_KEY");
+      if (!apiKey) {
+        throw new Error("YouTube API key not configured");
+      }
+      return createYouTubeDataClient(apiKey);
+    }
+    case "mock":
+      if (!mockProvidersAllowed()) {
+        throw new Error("The mock YouTube client is not enabled");
+      }
+      return mockYouTubeClient;
+    default:
+      throw new Error(`Unknown YouTube client: ${clientName}`);
+  }
+};
+
+/**
+ * The caption summary shown as badges next to search and import results. A video whose captions
+ * can't be read is reported as having none rather than failing the listing.
+ */
+export const checkVideoCaptions = async (client: YouTubeClient, videoId: string, targetLanguage?: string) => {
+  try {
+    const languages = await client.getCaptionTracks(videoId);
+    return {
+      available: languages.length > 0,
+      languages,
+      hasRequestedLanguage: targetLanguage ? languages.some((lang) => lang.code === targetLanguage) : false,
+    };
+  } catch (error) {
+    console.error("Error checking captions:", error);
+    return { available: false, languages: [] as CaptionTrack[], hasRequestedLanguage: false };
+  }
+};
+
+/**
+ * List what a playlist or channel URL contains. Returns null when the URL is neither, or the
+ * channel doesn't exist.
+ */
+export const expandYouTubeUrl = async (client: YouTubeClient, url: string, maxResults: number) => {
+  const parsed = parseYouTubeUrl(url);
+  if (!parsed || parsed.kind === "video") return null;
+
+  if (parsed.kind === "playlist") {
+    const [title, videos] = await Promise.all([
+      client.getPlaylistTitle(parsed.playlistId),
+      client.listPlaylistVideos(parsed.playlistId, maxResults),
+    ]);
+    return { kind: "playlist" as const, id: parsed.playlistId, title: title ?? "Playlist", videos };
+  }
+
+  const channel = await client.getChannel(parsed);
+  if (!channel) return null;
+
+  const videos = await client.listPlaylistVideos(channel.uploadsPlaylistId, maxResults);
+  return { kind: "channel" as const, id: channel.channelId, title: channel.title, videos };
+};
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { emitWebhookEvent } from "../_shared/webhooks.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -19,8 +20,56 @@ interface TranscriptionLog {
   file_checksum: string;
   created_at: string;
   file_title: string;
+  file_path: string | null;
 }
 
+const AUDIO_BUCKET = "audio-uploads";
+
+// Remove stored audio no longer referenced by any log and return the bytes freed
+const removeOrphanedAudio = async (
+  supabase: ReturnType<typeof createClient>,
+  filePaths: string[]
+): Promise<number> => {
+  if (filePaths.length === 0) return 0;
+
+  const { data: stillReferenced, error: referenceError } = await supabase
+    .from("transcription_logs")
+    .select("file_path")
+    .in("file_path", filePaths);
+
+  if (referenceError) {
+    console.error("Error checking audio references:", referenceError);
+    return 0;
+  }
+
+  const referenced = new Set((stillReferenced || []).map((log) => log.file_path));
+  const orphaned = filePaths.filter((path) => !referenced.has(path));
+  if (orphaned.length === 0) return 0;
+
+  let bytesFreed = 0;
+  for (const path of orphaned) {
+    const separator = path.lastIndexOf("/");
+    const { data: objects } = await supabase.storage
+      .from(AUDIO_BUCKET)
+      .list(path.slice(0, separator), { search: path.slice(separator + 1) });
+
+    const object = objects?.find((item) => item.name === path.slice(separator + 1));
+    bytesFreed += object?.metadata?.size ?? 0;
+  }
+
+  const { error: removeError } = await supabase.storage
+    .from(AUDIO_BUCKET)
+    .remove(orphaned);
+
+  if (removeError) {
+    console.error("Error removing audio files:", removeError);
+    return 0;
+  }
+
+  console.log(`Removed ${orphaned.length} orphaned audio files (${bytesFreed} bytes)`);
+  return bytesFreed;
+};
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -131,6 +180,7 @@ serve(async (req) => {
 
     // Find duplicates to delete
     const toDelete: string[] = [];
+    const deletedFilePaths = new Set<string>();
     let spaceFreedBytes = 0;
 
     for (const [checksum, logs] of checksumGroups.entries()) {
@@ -148,8 +198,9 @@ serve(async (req) => {
 
         for (const log of itemsToDelete) {
           toDelete.push(log.id);
-          // Estimate space freed (rough estimate: 1MB per transcription)
-          spaceFreedBytes += 1024 * 1024;
+          if (log.file_path) {
+            deletedFilePaths.add(log.file_path);
+          }
         }
       }
     }
@@ -170,6 +221,8 @@ serve(async (req) => {
 
       filesDeleted = toDelete.length;
       console.log(`Deleted ${filesDeleted} duplicate transcriptions`);
+
+      spaceFreedBytes = await removeOrphanedAudio(supabase, [...deletedFilePaths]);
     }
 
     // Log the cleanup activity
@@ -197,6 +250,13 @@ serve(async (req) => {
       },
     });
 
+    await emitWebhookEvent(supabase, user.id, "cleanup.completed", {
+      files_deleted: filesDeleted,
+      space_freed_bytes: spaceFreedBytes,
+      deleted_transcription_ids: toDelete,
+      scheduled: false,
+    });
+
     const response = {
       message: "Cleanup completed successfully",
       filesDeleted,
@@ -0,0 +1,167 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import { isScheduledRequest } from "../_shared/cron.ts";
+import { attemptWebhookDelivery, DELIVERY_LEASE_SECONDS, WebhookDelivery, WebhookEndpoint } from "../_shared/webhooks.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Deliveries retried per run; the rest wait for the next minute
+const BATCH_SIZE = 50;
+
+// Called every minute by pg_cron (with the cron secret) to retry due deliveries, or by a
+// signed-in user with a deliveryId to replay one of their deliveries as a new delivery
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { deliveryId } = await req.json().catch(() => ({}));
+
+    if (deliveryId) {
+      const authHeader = req.headers.get("Authorization");
+      if (!authHeader) {
+        return new Response(
+          JSON.stringify({ error: "Missing authorization header" }),
+          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const token = authHeader.replace("Bearer ", "");
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+      if (authError || !user) {
+        return new Response(
+          JSON.stringify({ error: "Unauthorized" }),
+          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: original, error: originalError } = await supabase
+        .from("webhook_deliveries")
+        .select("*, webhook_endpoints(*)")
+        .eq("id", deliveryId)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (originalError) throw originalError;
+      if (!original) {
+        return new Response(
+          JSON.stringify({ error: "Delivery not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (!(original.webhook_endpoints as WebhookEndpoint).enabled) {
+        return new Response(
+          JSON.stringify({ error: "Endpoint is disabled" }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // A replay is a single attempt; it isn't retried if it fails
+      const { data: replay, error: replayError } = await supabase
+        .from("webhook_deliveries")
+        .insert({
+          endpoint_id: original.endpoint_id,
+          user_id: user.id,
+          event: original.event,
+          payload: original.payload,
+          status: "delivering",
+          attempt_count: 0,
+          next_attempt_at: null,
+          replay_of: original.id,
+        })
+        .select()
+        .single();
+
+      if (replayError) throw replayError;
+
+      await attemptWebhookDelivery(
+        supabase,
+        replay as WebhookDelivery,
+        original.webhook_endpoints as WebhookEndpoint,
+        { retry: false }
+      );
+
+      const { data: result } = await supabase
+        .from("webhook_deliveries")
+        .select("*")
+        .eq("id", replay.id)
+        .single();
+
+      return new Response(
+        JSON.stringify({ delivery: result }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!isScheduledRequest(req)) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: due, error: dueError } = await supabase.rpc("claim_due_webhook_deliveries", {
+      _limit: BATCH_SIZE,
+      _lease_seconds: DELIVERY_LEASE_SECONDS,
+    });
+
+    if (dueError) throw dueError;
+
+    const claimed = (due || []) as WebhookDelivery[];
+    const { data: endpoints, error: endpointsError } = claimed.length > 0
+      ? await supabase
+        .from("webhook_endpoints")
+        .select("*")
+        .in("id", [...new Set(claimed.map(delivery => delivery.endpoint_id))])
+      : { data: [], error: null };
+
+    if (endpointsError) throw endpointsError;
+
+    const endpointsById = new Map((endpoints as WebhookEndpoint[]).map(endpoint => [endpoint.id, endpoint]));
+
+    let succeeded = 0;
+    let failed = 0;
+
+    for (const delivery of claimed) {
+      const endpoint = endpointsById.get(delivery.endpoint_id)!;
+
+      // Endpoints disabled since the event was queued don't receive it
+      if (!endpoint.enabled) {
+        await supabase
+          .from("webhook_deliveries")
+          .update({ status: "failed", next_attempt_at: null, error_message: "Endpoint disabled" })
+          .eq("id", delivery.id);
+        failed++;
+        continue;
+      }
+
+      if (await attemptWebhookDelivery(supabase, delivery, endpoint)) {
+        succeeded++;
+      } else {
+        failed++;
+      }
+    }
+
+    console.log(`Webhook retry run finished - Due: ${claimed.length}, Succeeded: ${succeeded}, Failed: ${failed}`);
+
+    return new Response(
+      JSON.stringify({ message: "Webhook retry run completed", succeeded, failed }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in deliver-webhooks function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error occurred" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,111 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import { EmbeddingProvider, getEmbeddingProvider, syncTranscriptionEmbeddings } from "../_shared/embeddings.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Transcripts indexed per request when backfilling, to stay inside the function time limit
+const BACKFILL_BATCH_SIZE = 10;
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Get authenticated user
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Missing authorization header" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { transcriptionId, provider: providerName } = await req.json();
+
+    let provider: EmbeddingProvider;
+    try {
+      provider = getEmbeddingProvider(providerName);
+    } catch (providerError) {
+      return new Response(
+        JSON.stringify({ error: providerError instanceof Error ? providerError.message : "Invalid embedding provider" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (transcriptionId) {
+      // Only the owner of a transcription may re-index it
+      const { data: log } = await supabase
+        .from("transcription_logs")
+        .select("id")
+        .eq("id", transcriptionId)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (!log) {
+        return new Response(
+          JSON.stringify({ error: "Transcription not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const passages = await syncTranscriptionEmbeddings(supabase, transcriptionId, provider);
+
+      return new Response(
+        JSON.stringify({ success: true, indexed: 1, passages, remaining: 0 }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Without a transcription ID, backfill the user's completed transcripts that have no passages yet
+    const { data: missing, error: missingError } = await supabase.rpc("get_unindexed_transcriptions", {
+      _user_id: user.id,
+      _limit: BACKFILL_BATCH_SIZE,
+    });
+
+    if (missingError) throw missingError;
+
+    const batch: { transcription_id: string; total_missing: number }[] = missing || [];
+    const totalMissing = batch.length > 0 ? Number(batch[0].total_missing) : 0;
+
+    // A transcript that produced no passages is still missing, so it doesn't count as progress
+    let indexed = 0;
+    for (const { transcription_id: id } of batch) {
+      try {
+        const passages = await syncTranscriptionEmbeddings(supabase, id, provider);
+        if (passages > 0) indexed++;
+      } catch (indexError) {
+        console.error(`Error indexing transcription ${id}:`, indexError);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, indexed, failed: batch.length - indexed, remaining: totalMissing - indexed }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in embed-transcription function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error occurred" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
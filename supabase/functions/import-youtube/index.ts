@@ -0,0 +1,106 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import { checkVideoCaptions, expandYouTubeUrl, getYouTubeClient, YouTubeClient } from "../_shared/youtube.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const DEFAULT_MAX_RESULTS = 50;
+const MAX_RESULTS_LIMIT = 200;
+// Caption checks scrape watch pages, so only a few run at once to stay clear of YouTube's rate limits
+const CAPTION_CHECK_BATCH_SIZE = 8;
+
+// Lists the videos in a playlist or channel with the same caption details search-youtube gives,
+// so the client can pick which ones to queue
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Get authenticated user
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Missing authorization header" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { url, language, maxResults = DEFAULT_MAX_RESULTS, client: clientName } = await req.json();
+
+    if (!url || typeof url !== "string") {
+      return new Response(
+        JSON.stringify({ error: "A playlist or channel URL is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    let youtube: YouTubeClient;
+    try {
+      youtube = getYouTubeClient(clientName);
+    } catch (clientError) {
+      return new Response(
+        JSON.stringify({ error: clientError instanceof Error ? clientError.message : "Invalid YouTube client" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const limit = Math.min(Math.max(1, Number(maxResults) || DEFAULT_MAX_RESULTS), MAX_RESULTS_LIMIT);
+    console.log(`Importing ${url} for user ${user.id}, language: ${language || "any"}, max: ${limit}, client: ${youtube.name}`);
+
+    const source = await expandYouTubeUrl(youtube, url, limit);
+    if (!source) {
+      return new Response(
+        JSON.stringify({ error: "Not a playlist or channel URL, or the channel couldn't be found" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const results = [];
+    for (let start = 0; start < source.videos.length; start += CAPTION_CHECK_BATCH_SIZE) {
+      const batch = source.videos.slice(start, start + CAPTION_CHECK_BATCH_SIZE);
+      results.push(...await Promise.all(
+        batch.map(async (video) => ({
+          ...video,
+          url: `https://www.youtube.com/watch?v=${video.videoId}`,
+          captions: await checkVideoCaptions(youtube, video.videoId, language),
+        }))
+      ));
+    }
+
+    console.log(`Found ${results.length} videos in ${source.kind} ${source.id}`);
+
+    return new Response(
+      JSON.stringify({
+        source: { kind: source.kind, id: source.id, title: source.title, url },
+        results,
+        totalResults: results.length,
+        targetLanguage: language,
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in import-youtube function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error occurred" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
 import { Resend } from "https://esm.sh/resend@4.0.0";
+import { dispatchNotification } from "../_shared/notifications.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -278,6 +279,17 @@ const handler = async (req: Request): Promise<Response> => {
       }
     });
 
+    // The alert email always goes out; admins also see it in-app if they have system updates enabled
+    await Promise.all(adminUserIds.map(userId =>
+      dispatchNotification(supabase, {
+        event: "system",
+        userId,
+        title: `Transcription error rate at ${errorRate.toFixed(2)}% (${stats.timeWindow.toLowerCase()})`,
+        link: "/admin/analytics",
+        metadata: { total, failed, error_rate: stats.errorRate },
+      })
+    ));
+
     return new Response(
       JSON.stringify({
         message: "Error alert sent to admins",
@@ -0,0 +1,369 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import { isScheduledRequest } from "../_shared/cron.ts";
+import { QueueFailure, recordQueueFailure, recordQueueSuccess } from "../_shared/queueRetry.ts";
+import { getTextTranslator, runQueuedTranslation } from "../_shared/translation.ts";
+
+// Supabase's edge runtime keeps the worker alive for promises passed to waitUntil
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Items processing at once across all users, unless QUEUE_CONCURRENCY overrides it
+const DEFAULT_CONCURRENCY = 3;
+// Items processing at once for any one user, unless QUEUE_MAX_PER_USER overrides it
+const DEFAULT_MAX_PER_USER = 2;
+// Items that have reported no progress for this long were lost by a worker that stopped
+const STALE_AFTER_MINUTES = 30;
+const STALE_ERROR_MESSAGE = "Processing timed out";
+// Split audio of dead-lettered items is kept this long so they can still be retried by hand
+const PARTS_RETENTION_DAYS = 7;
+const AUDIO_BUCKET = "audio-uploads";
+
+// What upload, recording and re-run items carry in source_metadata
+interface AudioSourceMetadata {
+  fileName?: string;
+  fileChecksum?: string;
+  // Parts of a file too large to send in one request, in order, with their offsets in seconds
+  chunks?: { path: string; offset: number }[];
+  chunkOverlap?: number;
+  // Set once the parts of a dead-lettered item have been removed
+  partsExpired?: boolean;
+}
+
+interface QueueItem {
+  id: string;
+  user_id: string;
+  source_type: string;
+  source_ref: string;
+  source_metadata: AudioSourceMetadata;
+  video_title: string;
+  language: string | null;
+  target_language: string | null;
+  transcription_log_id: string | null;
+  attempt_count: number;
+  started_at: string | null;
+}
+
+// Paths come from queue rows and logs that users can write, so storage is only touched inside the owner's folder
+const isOwnedPath = (userId: string, path: string) =>
+  path.startsWith(`${userId}/`) && !path.split("/").includes("..");
+
+// Remove the stored parts of a split file; the original stays with the transcription
+const removeAudioParts = async (
+  supabase: SupabaseClient,
+  item: { id: string; user_id: string },
+  metadata: AudioSourceMetadata
+) => {
+  const paths = (metadata.chunks ?? []).map((chunk) => chunk.path).filter((path) => isOwnedPath(item.user_id, path));
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage
+    .from(AUDIO_BUCKET)
+    .remove(paths);
+
+  if (error) {
+    console.error(`Error removing audio parts for queue item ${item.id}:`, error);
+  }
+};
+
+/**
+ * Transcribe, or translate when the item has a target language, audio stored for an upload, recording
+ * or re-run. Each part is read from storage and sent to transcribe-audio on behalf of the item's owner,
+ * which records the transcription; this reports progress and the result on the item.
+ */
+const runQueuedAudioJob = async (
+  supabase: SupabaseClient,
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  item: QueueItem
+): Promise<QueueFailure | null> => {
+  const metadata = item.source_metadata ?? {};
+  if (metadata.partsExpired) {
+    return { message: "The split audio for this item has expired; upload the file again", status: 410 };
+  }
+
+  let path = item.source_ref;
+  let fileName = metadata.fileName ?? item.video_title;
+  let fileChecksum = metadata.fileChecksum ?? "";
+  let source = item.source_type === "recording" ? "recording" : "upload";
+
+  // A re-run reads the audio stored with the original transcription
+  if (item.source_type === "rerun") {
+    const { data: log } = await supabase
+      .from("transcription_logs")
+      .select("file_path, file_title, file_checksum, source")
+      .eq("id", item.source_ref)
+      .eq("user_id", item.user_id)
+      .maybeSingle();
+
+    if (!log?.file_path) {
+      return { message: "The original audio for this transcription is no longer stored", status: 404 };
+    }
+    path = log.file_path;
+    fileName = log.file_title;
+    fileChecksum = log.file_checksum ?? "";
+    source = log.source === "recording" ? "recording" : "upload";
+  }
+
+  const parts = metadata.chunks?.length ? metadata.chunks : [{ path, offset: 0 }];
+  if (!isOwnedPath(item.user_id, path) || parts.some((part) => !isOwnedPath(item.user_id, part.path))) {
+    return { message: "Audio not found", status: 403 };
+  }
+  const functionName = item.target_language ? "translate-audio" : "transcribe-audio";
+
+  let data: Record<string, unknown> = {};
+  for (let index = 0; index < parts.length; index++) {
+    await supabase
+      .from("transcription_queue")
+      .update({ progress: Math.round(10 + (index / parts.length) * 85) })
+      .eq("id", item.id);
+
+    const { data: audio, error: downloadError } = await supabase.storage
+      .from(AUDIO_BUCKET)
+      .download(parts[index].path);
+
+    if (downloadError) throw downloadError;
+
+    const formData = new FormData();
+    formData.append("file", audio, parts.length > 1 ? `${fileName}.part${index + 1}.wav` : fileName);
+    formData.append("fileName", fileName);
+    formData.append("fileChecksum", fileChecksum);
+    formData.append("source", source);
+    formData.append("userId", item.user_id);
+    if (item.source_type === "rerun") formData.append("force", "true");
+    if (item.target_language) formData.append("targetLanguage", item.target_language);
+    if (parts.length > 1) {
+      formData.append("chunkIndex", String(index));
+      formData.append("chunkCount", String(parts.length));
+      formData.append("chunkOffset", String(parts[index].offset));
+      formData.append("chunkOverlap", String(metadata.chunkOverlap ?? 0));
+    }
+    if (index === 0) formData.append("filePath", path);
+    if (data.logId) formData.append("transcriptionId", String(data.logId));
+
+    const response = await fetch(`${supabaseUrl}/functions/v1/${functionName}`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${supabaseServiceKey}` },
+      body: formData,
+    });
+
+    data = await response.json().catch(() => ({}));
+    if (!response.ok || data.error) {
+      return {
+        message: String(data.details || data.error || `Transcription failed with status ${response.status}`),
+        status: response.status,
+      };
+    }
+
+    // A duplicate of an earlier file returns the existing transcription straight away
+    if (data.cached) break;
+  }
+
+  await supabase
+    .from("transcription_queue")
+    .update({
+      status: "completed",
+      progress: 100,
+      completed_at: new Date().toISOString(),
+      transcription_log_id: data.logId ?? null,
+      result_text: data.text ?? null,
+      result_duration: data.duration ?? null,
+      result_language: data.language ?? null,
+    })
+    .eq("id", item.id);
+
+  // The parts were only kept for the job
+  await removeAudioParts(supabase, item, metadata);
+  return null;
+};
+
+/**
+ * Run one claimed queue item and apply the retry policy to the outcome. YouTube items are handed
+ * to transcribe-youtube on behalf of their owner, which reports progress and the log ID on the item.
+ * Audio items are sent to transcribe-audio part by part, and translations run here.
+ */
+const processQueueItem = async (
+  supabase: SupabaseClient,
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  item: QueueItem
+) => {
+  console.log(`Processing queue item ${item.id} (${item.source_type}), attempt ${item.attempt_count}: ${item.video_title}`);
+
+  let failure: QueueFailure | null = null;
+  try {
+    if (item.source_type === "translation") {
+      // Queue rows are written by users, so the source log has to be checked against the item's owner
+      const { data: log } = await supabase
+        .from("transcription_logs")
+        .select("status")
+        .eq("id", item.transcription_log_id)
+        .eq("user_id", item.user_id)
+        .maybeSingle();
+
+      if (!log) {
+        failure = { message: "Transcription not found", status: 404 };
+      } else if (log.status !== "completed") {
+        failure = { message: "Only completed transcriptions can be translated", status: 409 };
+      } else {
+        await runQueuedTranslation(
+          supabase,
+          item.id,
+          item.transcription_log_id!,
+          item.target_language!,
+          getTextTranslator()
+        );
+      }
+    } else if (item.source_type === "upload" || item.source_type === "recording" || item.source_type === "rerun") {
+      failure = await runQueuedAudioJob(supabase, supabaseUrl, supabaseServiceKey, item);
+    } else {
+      const response = await fetch(`${supabaseUrl}/functions/v1/transcribe-youtube`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${supabaseServiceKey}`,
+        },
+        body: JSON.stringify({
+          youtubeUrl: item.source_ref,
+          language: item.language ?? "en",
+          userId: item.user_id,
+          queueItemId: item.id,
+        }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok || data.error) {
+        failure = {
+          message: data.details || data.error || `Transcription failed with status ${response.status}`,
+          status: response.status,
+        };
+      }
+    }
+  } catch (error) {
+    console.error(`Error processing queue item ${item.id}:`, error);
+    failure = { message: error instanceof Error ? error.message : "Processing failed" };
+  }
+
+  // The job records its own outcome on the item; translations only report failures that way
+  const { data: current } = await supabase
+    .from("transcription_queue")
+    .select("status, error_message")
+    .eq("id", item.id)
+    .maybeSingle();
+
+  // Deleted while it was processing
+  if (!current) return;
+
+  if (!failure && current.status === "completed") {
+    await recordQueueSuccess(supabase, item);
+    console.log(`Queue item ${item.id} completed`);
+    return;
+  }
+
+  await recordQueueFailure(supabase, item, failure ?? { message: current.error_message || "Processing failed" });
+};
+
+// Called every minute by pg_cron, and from the queue manager to start pending items straight away
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Runs for pg_cron with the cron secret, or for a signed-in user's "Process Now"
+    if (!isScheduledRequest(req)) {
+      const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+      const { data: { user } } = token
+        ? await supabase.auth.getUser(token)
+        : { data: { user: null } };
+
+      if (!user) {
+        return new Response(
+          JSON.stringify({ error: "Unauthorized" }),
+          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    // Callers can't choose the limits, so they come from the environment rather than the request
+    const concurrency = Math.max(
+      1,
+      Number(Deno.env.get("QUEUE_CONCURRENCY") ?? DEFAULT_CONCURRENCY) || DEFAULT_CONCURRENCY
+    );
+    const maxPerUser = Math.max(
+      1,
+      Number(Deno.env.get("QUEUE_MAX_PER_USER") ?? DEFAULT_MAX_PER_USER) || DEFAULT_MAX_PER_USER
+    );
+
+    const staleBefore = new Date(Date.now() - STALE_AFTER_MINUTES * 60 * 1000).toISOString();
+    const { data: stale, error: staleError } = await supabase
+      .from("transcription_queue")
+      .select("id, user_id, attempt_count, started_at")
+      .eq("status", "processing")
+      .lt("updated_at", staleBefore);
+
+    if (staleError) {
+      console.error("Error loading stale queue items:", staleError);
+    }
+    for (const item of stale || []) {
+      await recordQueueFailure(supabase, item, { message: STALE_ERROR_MESSAGE });
+    }
+
+    // Dead-lettered items that nobody retried don't need their split audio any more
+    const partsBefore = new Date(Date.now() - PARTS_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { data: expired, error: expiredError } = await supabase
+      .from("transcription_queue")
+      .select("id, user_id, source_metadata")
+      .eq("status", "dead_letter")
+      .lt("updated_at", partsBefore)
+      .not("source_metadata->chunks", "is", null);
+
+    if (expiredError) {
+      console.error("Error loading expired queue items:", expiredError);
+    }
+    for (const item of expired || []) {
+      const metadata: AudioSourceMetadata = item.source_metadata;
+      await removeAudioParts(supabase, item, metadata);
+      await supabase
+        .from("transcription_queue")
+        .update({ source_metadata: { ...metadata, chunks: undefined, partsExpired: true } })
+        .eq("id", item.id);
+    }
+
+    const { data: claimed, error: claimError } = await supabase.rpc("claim_transcription_queue_items", {
+      _max_concurrency: concurrency,
+      _max_per_user: maxPerUser,
+    });
+
+    if (claimError) throw claimError;
+
+    const items = (claimed || []) as QueueItem[];
+    console.log(`Claimed ${items.length} queue items (concurrency ${concurrency}, ${maxPerUser} per user)`);
+
+    if (items.length > 0) {
+      // Respond straight away; each item reports its own progress and outcome
+      EdgeRuntime.waitUntil(
+        Promise.all(items.map((item) => processQueueItem(supabase, supabaseUrl, supabaseServiceKey, item)))
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ message: "Queue worker run started", claimed: items.length, timedOut: stale?.length ?? 0 }),
+      { status: 202, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in process-transcription-queue function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error occurred" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
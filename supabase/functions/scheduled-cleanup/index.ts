@@ -1,10 +1,13 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0';
+import { emitWebhookEvent } from '../_shared/webhooks.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const AUDIO_BUCKET = 'audio-uploads';
+
 interface CleanupConfig {
   id: string;
   user_id: string;
@@ -170,6 +173,48 @@ function shouldRunCleanup(schedule: string, lastRun: CleanupHistory | null): boo
   return hoursSinceLastRun >= 23;
 }
 
+// Remove stored audio no longer referenced by any log and return the bytes freed
+async function removeOrphanedAudio(supabase: ReturnType<typeof createClient>, filePaths: string[]): Promise<number> {
+  if (filePaths.length === 0) return 0;
+
+  const { data: stillReferenced, error: referenceError } = await supabase
+    .from('transcription_logs')
+    .select('file_path')
+    .in('file_path', filePaths);
+
+  if (referenceError) {
+    console.error('Failed to check audio references:', referenceError);
+    return 0;
+  }
+
+  const referenced = new Set((stillReferenced || []).map((log) => log.file_path));
+  const orphaned = filePaths.filter((path) => !referenced.has(path));
+  if (orphaned.length === 0) return 0;
+
+  let bytesFreed = 0;
+  for (const path of orphaned) {
+    const separator = path.lastIndexOf('/');
+    const { data: objects } = await supabase.storage
+      .from(AUDIO_BUCKET)
+      .list(path.slice(0, separator), { search: path.slice(separator + 1) });
+
+    const object = objects?.find((item) => item.name === path.slice(separator + 1));
+    bytesFreed += object?.metadata?.size ?? 0;
+  }
+
+  const { error: removeError } = await supabase.storage
+    .from(AUDIO_BUCKET)
+    .remove(orphaned);
+
+  if (removeError) {
+    console.error('Failed to remove audio files:', removeError);
+    return 0;
+  }
+
+  console.log(`Removed ${orphaned.length} orphaned audio files (${bytesFreed} bytes)`);
+  return bytesFreed;
+}
+
 async function runCleanupForUser(supabase: any, config: CleanupConfig) {
   console.log(`Running cleanup for user ${config.user_id}`);
 
@@ -207,6 +252,7 @@ async function runCleanupForUser(supabase: any, config: CleanupConfig) {
 
   // Find duplicates to delete
   const toDelete: string[] = [];
+  const deletedFilePaths = new Set<string>();
   let totalSpaceFreed = 0;
 
   for (const [checksum, duplicates] of checksumGroups) {
@@ -222,9 +268,8 @@ async function runCleanupForUser(supabase: any, config: CleanupConfig) {
       const itemDate = new Date(item.created_at);
       if (itemDate <= cutoffDate) {
         toDelete.push(item.id);
-        // Estimate file size (this is approximate)
-        if (item.transcription_text) {
-          totalSpaceFreed += item.transcription_text.length;
+        if (item.file_path) {
+          deletedFilePaths.add(item.file_path);
         }
       }
     }
@@ -242,6 +287,8 @@ async function runCleanupForUser(supabase: any, config: CleanupConfig) {
     if (deleteError) {
       throw new Error(`Failed to delete duplicates: ${deleteError.message}`);
     }
+
+    totalSpaceFreed = await removeOrphanedAudio(supabase, [...deletedFilePaths]);
   }
 
   // Log the cleanup
@@ -276,6 +323,13 @@ async function runCleanupForUser(supabase: any, config: CleanupConfig) {
     console.error('Failed to log activity:', activityError);
   }
 
+  await emitWebhookEvent(supabase, config.user_id, 'cleanup.completed', {
+    files_deleted: toDelete.length,
+    space_freed_bytes: totalSpaceFreed,
+    deleted_transcription_ids: toDelete,
+    scheduled: true,
+  });
+
   return {
     files_deleted: toDelete.length,
     space_freed: totalSpaceFreed,
@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import { checkVideoCaptions, createYouTubeDataClient } from "../_shared/youtube.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -9,54 +10,6 @@ const corsHeaders = {
 
 const youtubeApiKey = Deno.env.get("YOUTUBE_API_KEY");
 
-interface CaptionTrack {
-  code: string;
-  name: string;
-  isAutoGenerated: boolean;
-}
-
-// Check if a video has captions in specific language
-async function checkVideoCaptions(videoId: string, targetLanguage?: string): Promise<{ 
-  available: boolean; 
-  languages: CaptionTrack[];
-  hasTargetLanguage: boolean;
-}> {
-  try {
-    const videoPageResponse = await fetch(`https://www.youtube.com/watch?v=${videoId}`);
-    
-    if (!videoPageResponse.ok) {
-      return { available: false, languages: [], hasTargetLanguage: false };
-    }
-    
-    const html = await videoPageResponse.text();
-    const captionTracksMatch = html.match(/"captionTracks":\s*(\[.*?\])/);
-    
-    if (!captionTracksMatch) {
-      return { available: false, languages: [], hasTargetLanguage: false };
-    }
-    
-    const captionTracks = JSON.parse(captionTracksMatch[1]);
-    const languages: CaptionTrack[] = captionTracks.map((track: any) => ({
-      code: track.languageCode,
-      name: track.name?.simpleText || track.languageCode,
-      isAutoGenerated: track.kind === 'asr'
-    }));
-
-    const hasTargetLanguage = targetLanguage 
-      ? languages.some(lang => lang.code === targetLanguage)
-      : false;
-    
-    return { 
-      available: languages.length > 0, 
-      languages,
-      hasTargetLanguage
-    };
-  } catch (error) {
-    console.error("Error checking captions:", error);
-    return { available: false, languages: [], hasTargetLanguage: false };
-  }
-}
-
 serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -138,10 +91,11 @@ serve(async (req: Request) => {
     }
 
     // Process results and check caption availability
+    const youtube = createYouTubeDataClient(youtubeApiKey);
     const results = await Promise.all(
       searchData.items.map(async (item: any) => {
         const videoId = item.id.videoId;
-        const captionInfo = await checkVideoCaptions(videoId, language);
+        const captions = await checkVideoCaptions(youtube, videoId, language);
 
         return {
           videoId,
@@ -151,11 +105,7 @@ serve(async (req: Request) => {
           channelTitle: item.snippet.channelTitle,
           publishedAt: item.snippet.publishedAt,
           url: `https://www.youtube.com/watch?v=${videoId}`,
-          captions: {
-            available: captionInfo.available,
-            languages: captionInfo.languages,
-            hasRequestedLanguage: captionInfo.hasTargetLanguage
-          }
+          captions
         };
       })
     );
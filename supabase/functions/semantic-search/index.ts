@@ -0,0 +1,83 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import { EmbeddingProvider, getEmbeddingProvider } from "../_shared/embeddings.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MAX_MATCH_COUNT = 50;
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Get authenticated user
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Missing authorization header" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { query, matchCount = 10, minSimilarity = 0, provider: providerName } = await req.json();
+    if (!query || typeof query !== "string" || !query.trim()) {
+      return new Response(
+        JSON.stringify({ error: "A search query is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    let provider: EmbeddingProvider;
+    try {
+      provider = getEmbeddingProvider(providerName);
+    } catch (providerError) {
+      return new Response(
+        JSON.stringify({ error: providerError instanceof Error ? providerError.message : "Invalid embedding provider" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const [queryEmbedding] = await provider.embed([query.trim()]);
+
+    // The service role bypasses row level security, so results are scoped to the caller explicitly
+    const { data: passages, error: matchError } = await supabase.rpc("match_transcription_passages", {
+      _query_embedding: JSON.stringify(queryEmbedding),
+      _user_id: user.id,
+      _model: provider.model,
+      _match_count: Math.min(Math.max(Number(matchCount) || 10, 1), MAX_MATCH_COUNT),
+      _min_similarity: Number(minSimilarity) || 0,
+    });
+
+    if (matchError) throw matchError;
+
+    return new Response(
+      JSON.stringify({ success: true, passages: passages || [], provider: provider.name, model: provider.model }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in semantic-search function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error occurred" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
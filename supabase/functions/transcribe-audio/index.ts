@@ -1,15 +1,51 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
-import { Resend } from "https://esm.sh/resend@2.0.0";
+import { labelSpeakers } from "../_shared/diarization.ts";
+import { syncTranscriptionEmbeddings } from "../_shared/embeddings.ts";
+import { dispatchNotification } from "../_shared/notifications.ts";
+import { AudioChunk, fetchAllSegments, saveSegments } from "../_shared/segments.ts";
+import { emitWebhookEvent } from "../_shared/webhooks.ts";
+import {
+  estimateTranscriptionCost,
+  getTranscriptionProvider,
+  TranscriptionProvider,
+} from "../_shared/transcription.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-const openAIApiKey = Deno.env.get("OPENAI_API_KEY");
-const resend = new Resend(Deno.env.get("RESEND_API_KEY") as string);
+const AUDIO_BUCKET = "audio-uploads";
+const WHISPER_MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+// Store the original audio as <user_id>/<checksum> so duplicates share one object
+const storeAudioFile = async (
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  fileChecksum: string,
+  audioFile: File
+): Promise<string | null> => {
+  if (!fileChecksum) return null;
+
+  const filePath = `${userId}/${fileChecksum}`;
+  const { error } = await supabase.storage
+    .from(AUDIO_BUCKET)
+    .upload(filePath, audioFile, {
+      contentType: audioFile.type || "application/octet-stream",
+      upsert: true,
+    });
+
+  if (error) {
+    console.error("Error storing audio file:", error);
+    // Don't fail the request if the audio can't be stored
+    return null;
+  }
+
+  console.log(`Stored audio file at ${filePath}`);
+  return filePath;
+};
 
 const createEmailHTML = (fileName: string, transcriptionText: string, duration?: number, language?: string, timestamp?: string) => {
   return `
@@ -87,8 +123,14 @@ serve(async (req: Request) => {
       );
     }
 
+    const formData = await req.formData();
     const token = authHeader.replace("Bearer ", "");
-    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    const userId = formData.get("userId") as string | null;
+
+    // The queue worker calls with the service role key on behalf of the queue item's owner
+    const { data: { user }, error: authError } = token === supabaseServiceKey && userId
+      ? await supabase.auth.admin.getUserById(userId)
+      : await supabase.auth.getUser(token);
 
     if (authError || !user) {
       return new Response(
@@ -97,10 +139,23 @@ serve(async (req: Request) => {
       );
     }
 
-    const formData = await req.formData();
     const audioFile = formData.get("file") as File;
     const fileName = formData.get("fileName") as string;
     const fileChecksum = formData.get("fileChecksum") as string;
+    const source = formData.get("source") === "recording" ? "recording" : "upload";
+    // Re-runs transcribe audio that already has a transcription, so skip returning it as a duplicate
+    const force = formData.get("force") === "true";
+    const chunkCount = Number(formData.get("chunkCount") || 1);
+    const chunk: AudioChunk | undefined = chunkCount > 1
+      ? {
+          index: Number(formData.get("chunkIndex") || 0),
+          count: chunkCount,
+          offset: Number(formData.get("chunkOffset") || 0),
+          overlap: Number(formData.get("chunkOverlap") || 0),
+        }
+      : undefined;
+    const isFirstChunk = !chunk || chunk.index === 0;
+    const isLastChunk = !chunk || chunk.index === chunk.count - 1;
 
     if (!audioFile) {
       return new Response(
@@ -109,10 +164,45 @@ serve(async (req: Request) => {
       );
     }
 
-    console.log(`Processing transcription for user ${user.id}, file: ${fileName}, checksum: ${fileChecksum}`);
+    let provider: TranscriptionProvider;
+    try {
+      provider = getTranscriptionProvider(formData.get("provider") as string | null);
+    } catch (providerError) {
+      return new Response(
+        JSON.stringify({ error: providerError instanceof Error ? providerError.message : "Invalid transcription provider" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const model = (formData.get("model") as string | null) || provider.defaultModel;
+
+    if (audioFile.size > WHISPER_MAX_UPLOAD_BYTES) {
+      return new Response(
+        JSON.stringify({ error: "Audio exceeds the 25MB transcription limit; upload it in chunks" }),
+        { status: 413, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    console.log(`Processing transcription for user ${user.id}, file: ${fileName}, checksum: ${fileChecksum}` +
+      (chunk ? `, chunk ${chunk.index + 1}/${chunk.count}` : "") + `, provider: ${provider.name}/${model}`);
+
+    // Progress for chunked uploads is keyed by checksum, since the client has no log id until the first chunk returns
+    const progressKey = chunk && fileChecksum ? `upload-${fileChecksum}` : null;
+    const updateProgress = async (status: string, progress: number, message: string) => {
+      if (!progressKey) return;
+      await supabase.from("transcription_progress").upsert({
+        user_id: user.id,
+        video_id: progressKey,
+        status,
+        progress,
+        message,
+        updated_at: new Date().toISOString()
+      }, {
+        onConflict: "user_id,video_id"
+      });
+    };
 
     // Check for duplicate file by checksum
-    if (fileChecksum) {
+    if (fileChecksum && isFirstChunk && !force) {
       const { data: existingLog } = await supabase
         .from('transcription_logs')
         .select('*')
@@ -125,6 +215,21 @@ serve(async (req: Request) => {
 
       if (existingLog) {
         console.log('Duplicate file found, returning cached result');
+        await dispatchNotification(supabase, {
+          event: "duplicate_detected",
+          userId: user.id,
+          email: user.email,
+          title: `Duplicate File Detected: ${fileName}`,
+          message: `${fileName} matches "${existingLog.file_title}", which you have already transcribed, so the existing transcription was reused.`,
+          link: `/history?log=${existingLog.id}`,
+          metadata: { transcription_id: existingLog.id, file_checksum: fileChecksum, file_name: fileName },
+        });
+        await emitWebhookEvent(supabase, user.id, "duplicate.detected", {
+          transcription_id: existingLog.id,
+          file_checksum: fileChecksum,
+          file_name: fileName,
+        });
+
         return new Response(
           JSON.stringify({
             text: existingLog.transcription_text,
@@ -139,115 +244,199 @@ serve(async (req: Request) => {
       }
     }
 
-    // Create transcription log entry with pending status
-    const { data: logEntry, error: logError } = await supabase
-      .from("transcription_logs")
-      .insert({
-        user_id: user.id,
-        file_title: fileName,
-        file_checksum: fileChecksum,
-        status: "processing",
-      })
-      .select()
-      .single();
+    let logEntry;
+    if (isFirstChunk) {
+      // Chunked and queued uploads store the original file before calling, so it is only stored here
+      // when the request doesn't say where it already is
+      const uploadedPath = formData.get("filePath") as string | null;
+      const filePath = uploadedPath || chunk
+        ? (uploadedPath?.startsWith(`${user.id}/`) ? uploadedPath : null)
+        : await storeAudioFile(supabase, user.id, fileChecksum, audioFile);
 
-    if (logError) {
-      console.error("Error creating log entry:", logError);
-      return new Response(
-        JSON.stringify({ error: "Failed to create log entry" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      // Create transcription log entry with pending status
+      const { data: createdLog, error: logError } = await supabase
+        .from("transcription_logs")
+        .insert({
+          user_id: user.id,
+          file_title: fileName,
+          file_checksum: fileChecksum,
+          file_path: filePath,
+          provider: provider.name,
+          model,
+          source,
+          status: "processing",
+        })
+        .select()
+        .single();
+
+      if (logError) {
+        console.error("Error creating log entry:", logError);
+        return new Response(
+          JSON.stringify({ error: "Failed to create log entry" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      logEntry = createdLog;
+    } else {
+      // Later chunks continue the log created by the first one
+      const { data: existingLog } = await supabase
+        .from("transcription_logs")
+        .select("*")
+        .eq("id", formData.get("transcriptionId") as string)
+        .eq("user_id", user.id)
+        .eq("status", "processing")
+        .maybeSingle();
+
+      if (!existingLog) {
+        return new Response(
+          JSON.stringify({ error: "Transcription for this chunk not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      logEntry = existingLog;
+    }
+
+    if (chunk) {
+      await updateProgress(
+        "processing",
+        Math.round((chunk.index / chunk.count) * 100),
+        `Transcribing part ${chunk.index + 1} of ${chunk.count}...`
       );
     }
 
-    // Prepare form data for OpenAI Whisper
-    const whisperFormData = new FormData();
-    whisperFormData.append("file", audioFile);
-    whisperFormData.append("model", "whisper-1");
-    whisperFormData.append("response_format", "verbose_json");
-
-    // Send to OpenAI Whisper
-    const whisperResponse = await fetch("https://api.openai.com/v1/audio/transcriptions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${openAIApiKey}`,
-      },
-      body: whisperFormData,
-    });
+    let result;
+    try {
+      result = await provider.transcribe({
+        file: audioFile,
+        fileName,
+        task: "transcribe",
+        model,
+      });
+    } catch (providerError) {
+      console.error(`${provider.name} transcription error:`, providerError);
+      const errorText = providerError instanceof Error ? providerError.message : "Unknown error";
 
-    if (!whisperResponse.ok) {
-      const errorText = await whisperResponse.text();
-      console.error("OpenAI API error:", errorText);
-      
       // Update log with error
       await supabase
         .from("transcription_logs")
         .update({
           status: "failed",
-          error_message: `OpenAI API error: ${errorText}`,
+          error_message: chunk
+            ? `Transcription failed on part ${chunk.index + 1} of ${chunk.count}: ${errorText}`
+            : errorText,
         })
         .eq("id", logEntry.id);
 
+      await updateProgress("failed", 0, "Transcription failed");
+
+      await dispatchNotification(supabase, {
+        event: "transcription_failed",
+        userId: user.id,
+        email: user.email,
+        title: `Transcription Failed: ${fileName}`,
+        message: `We couldn't transcribe ${fileName}: ${errorText}`,
+        link: `/history?log=${logEntry.id}`,
+        metadata: { transcription_id: logEntry.id, file_name: fileName, error: errorText },
+      });
+      await emitWebhookEvent(supabase, user.id, "transcription.failed", {
+        transcription_id: logEntry.id,
+        file_title: fileName,
+        source,
+        error: errorText,
+      });
+
       return new Response(
         JSON.stringify({ error: "Transcription failed", details: errorText }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    const result = await whisperResponse.json();
     console.log("Transcription successful");
 
+    await saveSegments(supabase, logEntry.id, result.segments, chunk);
+
+    if (chunk && !isLastChunk) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          logId: logEntry.id,
+          chunkIndex: chunk.index,
+          completed: false,
+        }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // A chunked transcript is the stitched segments; a single upload uses the provider's text as-is
+    let transcriptionText: string = result.text;
+    let duration: number | undefined = result.duration;
+    if (chunk) {
+      const storedSegments = await fetchAllSegments<{ text: string }>(supabase, logEntry.id, "text");
+      transcriptionText = storedSegments.map(segment => segment.text).join(" ");
+      duration = chunk.offset + (result.duration ?? 0);
+    }
+
+    // Speaker labelling stage; a failure here shouldn't fail the transcription
+    try {
+      await labelSpeakers(supabase, logEntry.id);
+    } catch (diarizationError) {
+      console.error("Error labelling speakers:", diarizationError);
+    }
+
     // Update log with success and transcription text
     await supabase
       .from("transcription_logs")
       .update({
         status: "completed",
-        transcription_text: result.text,
+        transcription_text: transcriptionText,
+        duration_seconds: duration ?? null,
+        language: result.language ?? null,
+        estimated_cost: estimateTranscriptionCost(provider, duration),
       })
       .eq("id", logEntry.id);
 
-    // Send email notification
+    // Semantic search indexing; a failure here shouldn't fail the transcription
     try {
-      const timestamp = new Date().toLocaleString("en-GB", {
-        day: "2-digit",
-        month: "2-digit",
-        year: "numeric",
-        hour: "2-digit",
-        minute: "2-digit",
-        second: "2-digit",
-        hour12: false,
-      });
+      await syncTranscriptionEmbeddings(supabase, logEntry.id);
+    } catch (embeddingError) {
+      console.error("Error indexing transcript for semantic search:", embeddingError);
+    }
 
-      const html = createEmailHTML(
-        fileName,
-        result.text,
-        result.duration,
-        result.language,
-        timestamp
-      );
+    await updateProgress("completed", 100, "Transcription saved successfully!");
 
-      const { error: emailError } = await resend.emails.send({
-        from: "The Wright Scriber Pro <onboarding@resend.dev>",
-        to: [user.email!],
-        subject: `Transcription Complete: ${fileName}`,
-        html,
-      });
+    // Notify by email and/or in-app, as the user's notification preferences allow
+    const timestamp = new Date().toLocaleString("en-GB", {
+      day: "2-digit",
+      month: "2-digit",
+      year: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hour12: false,
+    });
 
-      if (emailError) {
-        console.error("Error sending email:", emailError);
-        // Don't fail the request if email fails
-      } else {
-        console.log(`Email sent successfully to ${user.email}`);
-      }
-    } catch (emailError) {
-      console.error("Error sending email notification:", emailError);
-      // Don't fail the request if email fails
-    }
+    await dispatchNotification(supabase, {
+      event: "transcription_complete",
+      userId: user.id,
+      email: user.email,
+      title: `Transcription Complete: ${fileName}`,
+      html: createEmailHTML(fileName, transcriptionText, duration, result.language, timestamp),
+      link: `/history?log=${logEntry.id}`,
+      metadata: { transcription_id: logEntry.id, file_name: fileName },
+    });
+    await emitWebhookEvent(supabase, user.id, "transcription.completed", {
+      transcription_id: logEntry.id,
+      file_title: fileName,
+      source,
+      duration_seconds: duration ?? null,
+      language: result.language ?? null,
+    });
 
     return new Response(
       JSON.stringify({
         success: true,
-        text: result.text,
-        duration: result.duration,
+        text: transcriptionText,
+        duration,
         language: result.language,
         logId: logEntry.id,
       }),
@@ -1,16 +1,24 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
-import { Resend } from "https://esm.sh/resend@2.0.0";
+import { labelSpeakers } from "../_shared/diarization.ts";
+import { syncTranscriptionEmbeddings } from "../_shared/embeddings.ts";
+import { dispatchNotification } from "../_shared/notifications.ts";
+import { saveSegments } from "../_shared/segments.ts";
+import { emitWebhookEvent } from "../_shared/webhooks.ts";
+import { parseYouTubeUrl } from "../_shared/youtube.ts";
+import {
+  estimateTranscriptionCost,
+  getTranscriptionProvider,
+  TranscriptionProvider,
+  TranscriptionSegment,
+} from "../_shared/transcription.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-const openAIApiKey = Deno.env.get("OPENAI_API_KEY");
-const resend = new Resend(Deno.env.get("RESEND_API_KEY") as string);
-
 const createEmailHTML = (fileName: string, transcriptionText: string, duration?: number, language?: string, timestamp?: string) => {
   return `
 <!DOCTYPE html>
@@ -68,19 +76,38 @@ const createEmailHTML = (fileName: string, transcriptionText: string, duration?:
   `;
 };
 
-// Extract YouTube video ID from URL
-function extractVideoId(url: string): string | null {
-  const patterns = [
-    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/,
-    /^([a-zA-Z0-9_-]{11})$/
-  ];
-  
-  for (const pattern of patterns) {
-    const match = url.match(pattern);
-    if (match) return match[1];
+// Parse a YouTube timedtext XML document into timed caption cues
+function parseCaptionXml(xml: string): TranscriptionSegment[] {
+  const cues: TranscriptionSegment[] = [];
+
+  for (const match of xml.matchAll(/<text([^>]*)>(.*?)<\/text>/gs)) {
+    // Decode HTML entities
+    const text = match[2]
+      .replace(/&amp;/g, "&")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/<[^>]+>/g, "") // Remove any remaining HTML tags
+      .replace(/\s+/g, " ")
+      .trim();
+
+    if (!text) continue;
+
+    const start = parseFloat(match[1].match(/start="([\d.]+)"/)?.[1] ?? "0");
+    const dur = parseFloat(match[1].match(/dur="([\d.]+)"/)?.[1] ?? "0");
+    cues.push({ start, end: start + dur, text });
   }
-  
-  return null;
+
+  // Auto-generated captions overlap, so clip each cue at the start of the next one
+  cues.forEach((cue, index) => {
+    const next = cues[index + 1];
+    if (next && next.start > cue.start && cue.end > next.start) {
+      cue.end = next.start;
+    }
+  });
+
+  return cues;
 }
 
 // Fallback: Check captions using YouTube Data API v3
@@ -149,7 +176,7 @@ async function checkCaptionsViaAPI(videoId: string): Promise<{ available: boolea
 }
 
 // Strategy 1: Get transcript directly from YouTube (fastest, most reliable)
-async function getYouTubeTranscript(videoId: string, language: string = 'en'): Promise<string | null> {
+async function getYouTubeTranscript(videoId: string, language: string = 'en'): Promise<TranscriptionSegment[] | null> {
   console.log(`Attempting to fetch YouTube transcript/captions in language: ${language}...`);
   
   try {
@@ -163,28 +190,11 @@ async function getYouTubeTranscript(videoId: string, language: string = 'en'): P
       const xml = await captionApiResponse.text();
       
       if (xml && xml.trim().length > 0 && xml.includes('<text')) {
-        const textMatches = xml.matchAll(/<text[^>]*>(.*?)<\/text>/g);
-        const texts: string[] = [];
+        const cues = parseCaptionXml(xml);
         
-        for (const match of textMatches) {
-          const text = match[1]
-            .replace(/&amp;/g, "&")
-            .replace(/&lt;/g, "<")
-            .replace(/&gt;/g, ">")
-            .replace(/&quot;/g, '"')
-            .replace(/&#39;/g, "'")
-            .replace(/<[^>]+>/g, "")
-            .trim();
-          
-          if (text) {
-            texts.push(text);
-          }
-        }
-        
-        if (texts.length > 0) {
-          const transcript = texts.join(" ");
-          console.log(`Successfully extracted transcript via direct API (${transcript.length} characters)`);
-          return transcript;
+        if (cues.length > 0) {
+          console.log(`Successfully extracted transcript via direct API (${cues.length} cues)`);
+          return cues;
         }
       }
     }
@@ -256,34 +266,16 @@ async function getYouTubeTranscript(videoId: string, language: string = 'en'): P
     
     const captionXml = await captionResponse.text();
     
-    // Parse XML and extract text
-    const textMatches = captionXml.matchAll(/<text[^>]*>(.*?)<\/text>/g);
-    const texts: string[] = [];
-    
-    for (const match of textMatches) {
-      // Decode HTML entities
-      const text = match[1]
-        .replace(/&amp;/g, "&")
-        .replace(/&lt;/g, "<")
-        .replace(/&gt;/g, ">")
-        .replace(/&quot;/g, '"')
-        .replace(/&#39;/g, "'")
-        .replace(/<[^>]+>/g, "") // Remove any remaining HTML tags
-        .trim();
-      
-      if (text) {
-        texts.push(text);
-      }
-    }
+    // Parse XML into timed cues
+    const cues = parseCaptionXml(captionXml);
     
-    if (texts.length === 0) {
+    if (cues.length === 0) {
       console.log("No text extracted from captions");
       return null;
     }
     
-    const transcript = texts.join(" ");
-    console.log(`Successfully extracted transcript (${transcript.length} characters)`);
-    return transcript;
+    console.log(`Successfully extracted transcript (${cues.length} cues)`);
+    return cues;
     
   } catch (error: any) {
     console.error("Error fetching YouTube transcript:", error.message);
@@ -292,7 +284,7 @@ async function getYouTubeTranscript(videoId: string, language: string = 'en'): P
 }
 
 // Strategy 2: Use third-party transcript API
-async function getTranscriptViaAPI(videoId: string, language: string = 'en'): Promise<string | null> {
+async function getTranscriptViaAPI(videoId: string, language: string = 'en'): Promise<TranscriptionSegment[] | null> {
   console.log(`Attempting to fetch transcript via API in language: ${language}...`);
   
   try {
@@ -311,32 +303,15 @@ async function getTranscriptViaAPI(videoId: string, language: string = 'en'): Pr
     }
     
     // Parse XML
-    const textMatches = xml.matchAll(/<text[^>]*>(.*?)<\/text>/g);
-    const texts: string[] = [];
-    
-    for (const match of textMatches) {
-      const text = match[1]
-        .replace(/&amp;/g, "&")
-        .replace(/&lt;/g, "<")
-        .replace(/&gt;/g, ">")
-        .replace(/&quot;/g, '"')
-        .replace(/&#39;/g, "'")
-        .replace(/<[^>]+>/g, "")
-        .trim();
-      
-      if (text) {
-        texts.push(text);
-      }
-    }
+    const cues = parseCaptionXml(xml);
     
-    if (texts.length === 0) {
+    if (cues.length === 0) {
       console.log("No text found in transcript API response");
       return null;
     }
     
-    const transcript = texts.join(" ");
-    console.log(`Successfully fetched transcript via API (${transcript.length} characters)`);
-    return transcript;
+    console.log(`Successfully fetched transcript via API (${cues.length} cues)`);
+    return cues;
     
   } catch (error: any) {
     console.error("Error with transcript API:", error.message);
@@ -349,7 +324,7 @@ async function getYouTubeContent(
   videoId: string, 
   language: string = 'en',
   updateProgress?: (status: string, progress: number, message: string) => Promise<void>
-): Promise<{ text?: string; audioBlob?: Blob; title: string; method: string; language?: string }> {
+): Promise<{ text?: string; segments?: TranscriptionSegment[]; audioBlob?: Blob; title: string; method: string; language?: string }> {
   // Get video title from YouTube oEmbed API
   const videoInfoResponse = await fetch(`https://www.youtube.com/oembed?url=https://www.youtube.com/watch?v=${videoId}&format=json`);
   let title = `YouTube Video ${videoId}`;
@@ -362,19 +337,19 @@ async function getYouTubeContent(
   console.log(`Processing video: ${title}, language: ${language}`);
 
   // Try to get transcript first (much faster and cheaper)
-  let transcript = await getYouTubeTranscript(videoId, language);
+  let cues = await getYouTubeTranscript(videoId, language);
   
-  if (transcript) {
+  if (cues) {
     console.log("Using direct YouTube transcript");
-    return { text: transcript, title, method: "youtube_captions", language };
+    return { text: cues.map(cue => cue.text).join(" "), segments: cues, title, method: "youtube_captions", language };
   }
 
   // Try alternative transcript API
-  transcript = await getTranscriptViaAPI(videoId, language);
+  cues = await getTranscriptViaAPI(videoId, language);
   
-  if (transcript) {
+  if (cues) {
     console.log("Using transcript API");
-    return { text: transcript, title, method: "transcript_api", language };
+    return { text: cues.map(cue => cue.text).join(" "), segments: cues, title, method: "transcript_api", language };
   }
 
   // No captions available - return info for client-side audio download
@@ -401,18 +376,31 @@ serve(async (req: Request) => {
       );
     }
 
+    const {
+      youtubeUrl,
+      language: requestedLanguage = 'en',
+      checkOnly = false,
+      previewOnly = false,
+      provider: providerName,
+      model: requestedModel,
+      queueItemId,
+      userId,
+    } = await req.json();
+
     const token = authHeader.replace("Bearer ", "");
-    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
 
-    if (authError || !user) {
+    // The queue worker calls with the service role key on behalf of the queue item's owner
+    const { data: { user } } = token === supabaseServiceKey && userId
+      ? await supabase.auth.admin.getUserById(userId)
+      : await supabase.auth.getUser(token);
+
+    if (!user) {
       return new Response(
         JSON.stringify({ error: "Unauthorized" }),
         { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    const { youtubeUrl, language: requestedLanguage = 'en', checkOnly = false, previewOnly = false } = await req.json();
-
     if (!youtubeUrl) {
       return new Response(
         JSON.stringify({ error: "No YouTube URL provided" }),
@@ -420,14 +408,19 @@ serve(async (req: Request) => {
       );
     }
 
-    // Extract video ID
-    const videoId = extractVideoId(youtubeUrl);
-    if (!videoId) {
+    // Extract video ID; playlists and channels are expanded by import-youtube and queued video by video
+    const parsedUrl = parseYouTubeUrl(youtubeUrl);
+    if (parsedUrl?.kind !== "video") {
       return new Response(
-        JSON.stringify({ error: "Invalid YouTube URL" }),
+        JSON.stringify({
+          error: parsedUrl
+            ? `This is a ${parsedUrl.kind} URL; import it to choose which videos to transcribe`
+            : "Invalid YouTube URL",
+        }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
+    const videoId = parsedUrl.videoId;
 
     // If previewOnly mode, fetch and return first few caption lines
     if (previewOnly) {
@@ -481,27 +474,9 @@ serve(async (req: Request) => {
         }
         
         const captionXml = await captionResponse.text();
-        const textMatches = captionXml.matchAll(/<text[^>]*>(.*?)<\/text>/g);
-        const texts: string[] = [];
-        
-        let count = 0;
-        for (const match of textMatches) {
-          if (count >= 5) break; // Get first 5 lines
-          
-          const text = match[1]
-            .replace(/&amp;/g, "&")
-            .replace(/&lt;/g, "<")
-            .replace(/&gt;/g, ">")
-            .replace(/&quot;/g, '"')
-            .replace(/&#39;/g, "'")
-            .replace(/<[^>]+>/g, "")
-            .trim();
-          
-          if (text) {
-            texts.push(text);
-            count++;
-          }
-        }
+        const texts = parseCaptionXml(captionXml)
+          .slice(0, 5) // Get first 5 lines
+          .map(cue => cue.text);
         
         return new Response(
           JSON.stringify({ 
@@ -615,8 +590,35 @@ serve(async (req: Request) => {
       }
     }
 
+    // Only used when the video has no captions and its audio has to be transcribed
+    let provider: TranscriptionProvider;
+    try {
+      provider = getTranscriptionProvider(providerName);
+    } catch (providerError) {
+      return new Response(
+        JSON.stringify({ error: providerError instanceof Error ? providerError.message : "Invalid transcription provider" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const model: string = requestedModel || provider.defaultModel;
+
     console.log(`Processing YouTube transcription for user ${user.id}, video: ${videoId}, language: ${requestedLanguage}`);
 
+    // Queue items mirror the log's progress and outcome, so the queue shows real progress
+    const updateQueueItem = async (fields: Record<string, unknown>) => {
+      if (!queueItemId) return;
+
+      const { error: queueError } = await supabase
+        .from('transcription_queue')
+        .update(fields)
+        .eq('id', queueItemId)
+        .eq('user_id', user.id);
+
+      if (queueError) {
+        console.error("Error updating queue item:", queueError);
+      }
+    };
+
     // Helper function to update progress
     const updateProgress = async (status: string, progress: number, message: string) => {
       await supabase.from('transcription_progress').upsert({
@@ -629,14 +631,18 @@ serve(async (req: Request) => {
       }, {
         onConflict: 'user_id,video_id'
       });
+      await updateQueueItem({ progress });
     };
 
+    await updateProgress('processing', 10, 'Fetching video captions...');
+
     let content: any;
     try {
       content = await getYouTubeContent(videoId, requestedLanguage, updateProgress);
     } catch (contentError: any) {
       console.error("Failed to get YouTube content:", contentError);
-      
+      await updateQueueItem({ status: 'failed', progress: 0, error_message: contentError.message || "Failed to process video" });
+
       // Return a more helpful error message
       return new Response(
         JSON.stringify({ 
@@ -653,6 +659,10 @@ serve(async (req: Request) => {
       .insert({
         user_id: user.id,
         file_title: content.title,
+        // Caption transcripts record how they were fetched rather than a transcription provider
+        provider: content.text ? content.method : provider.name,
+        model: content.text ? null : model,
+        source: "youtube",
         status: "processing",
       })
       .select()
@@ -660,65 +670,95 @@ serve(async (req: Request) => {
 
     if (logError) {
       console.error("Error creating log entry:", logError);
+      await updateQueueItem({ status: 'failed', progress: 0, error_message: "Failed to create log entry" });
       return new Response(
         JSON.stringify({ error: "Failed to create log entry" }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
+    await updateQueueItem({ transcription_log_id: logEntry.id });
+    await updateProgress('processing', 40, 'Processing transcript...');
+
     let transcriptionText: string;
     let duration: number | undefined;
     let language: string | undefined;
 
     // If we got text directly from captions, use it
     if (content.text) {
-      console.log("Using captions directly, no Whisper needed");
+      console.log("Using captions directly, no audio transcription needed");
       transcriptionText = content.text;
       language = content.language || requestedLanguage; // Use detected language from captions
+      duration = content.segments?.[content.segments.length - 1]?.end;
+
+      await saveSegments(supabase, logEntry.id, content.segments);
     } else if (content.audioBlob) {
-      // Fallback: transcribe audio with Whisper
-      console.log("Transcribing audio with Whisper");
-      
-      const whisperFormData = new FormData();
-      whisperFormData.append("file", content.audioBlob, "audio.mp3");
-      whisperFormData.append("model", "whisper-1");
-      whisperFormData.append("response_format", "verbose_json");
-
-      const whisperResponse = await fetch("https://api.openai.com/v1/audio/transcriptions", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${openAIApiKey}`,
-        },
-        body: whisperFormData,
-      });
+      // Fallback: transcribe the audio with the selected provider
+      console.log(`Transcribing audio with ${provider.name}/${model}`);
+
+      let result;
+      try {
+        result = await provider.transcribe({
+          file: content.audioBlob,
+          fileName: "audio.mp3",
+          task: "transcribe",
+          model,
+        });
+      } catch (providerError) {
+        console.error(`${provider.name} transcription error:`, providerError);
+        const errorText = providerError instanceof Error ? providerError.message : "Unknown error";
 
-      if (!whisperResponse.ok) {
-        const errorText = await whisperResponse.text();
-        console.error("OpenAI API error:", errorText);
-        
         await supabase
           .from("transcription_logs")
           .update({
             status: "failed",
-            error_message: `OpenAI API error: ${errorText}`,
+            error_message: errorText,
           })
           .eq("id", logEntry.id);
 
+        await updateQueueItem({ status: 'failed', progress: 0, error_message: errorText });
+
+        await dispatchNotification(supabase, {
+          event: "transcription_failed",
+          userId: user.id,
+          email: user.email,
+          title: `YouTube Transcription Failed: ${content.title}`,
+          message: `We couldn't transcribe ${content.title}: ${errorText}`,
+          link: `/history?log=${logEntry.id}`,
+          metadata: { transcription_id: logEntry.id, video_id: videoId, error: errorText },
+        });
+        await emitWebhookEvent(supabase, user.id, "transcription.failed", {
+          transcription_id: logEntry.id,
+          file_title: content.title,
+          source: "youtube",
+          video_id: videoId,
+          error: errorText,
+        });
+
         return new Response(
           JSON.stringify({ error: "Transcription failed", details: errorText }),
           { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
 
-      const result = await whisperResponse.json();
       transcriptionText = result.text;
       duration = result.duration;
       language = result.language;
+
+      await saveSegments(supabase, logEntry.id, result.segments);
     } else {
       throw new Error("No content available from any method");
     }
 
     console.log("Transcription successful");
+    await updateProgress('processing', 70, 'Labelling speakers...');
+
+    // Speaker labelling stage; a failure here shouldn't fail the transcription
+    try {
+      await labelSpeakers(supabase, logEntry.id);
+    } catch (diarizationError) {
+      console.error("Error labelling speakers:", diarizationError);
+    }
 
     // Update final progress
     await updateProgress('completed', 100, 'Transcription saved successfully!');
@@ -729,44 +769,57 @@ serve(async (req: Request) => {
       .update({
         status: "completed",
         transcription_text: transcriptionText,
+        duration_seconds: duration ?? null,
+        language: language ?? null,
+        // Captions are free; only audio sent to a provider has a cost
+        estimated_cost: content.text ? 0 : estimateTranscriptionCost(provider, duration),
       })
       .eq("id", logEntry.id);
 
-    // Send email notification
+    // Semantic search indexing; a failure here shouldn't fail the transcription
     try {
-      const timestamp = new Date().toLocaleString("en-GB", {
-        day: "2-digit",
-        month: "2-digit",
-        year: "numeric",
-        hour: "2-digit",
-        minute: "2-digit",
-        second: "2-digit",
-        hour12: false,
-      });
+      await syncTranscriptionEmbeddings(supabase, logEntry.id);
+    } catch (embeddingError) {
+      console.error("Error indexing transcript for semantic search:", embeddingError);
+    }
 
-      const html = createEmailHTML(
-        content.title,
-        transcriptionText,
-        duration,
-        language,
-        timestamp
-      );
+    await updateQueueItem({
+      status: 'completed',
+      progress: 100,
+      completed_at: new Date().toISOString(),
+      result_text: transcriptionText,
+      result_duration: duration ?? null,
+      result_language: language ?? null,
+    });
 
-      const { error: emailError } = await resend.emails.send({
-        from: "The Wright Scriber Pro <onboarding@resend.dev>",
-        to: [user.email!],
-        subject: `YouTube Transcription Complete: ${content.title}`,
-        html,
-      });
+    // Notify by email and/or in-app, as the user's notification preferences allow
+    const timestamp = new Date().toLocaleString("en-GB", {
+      day: "2-digit",
+      month: "2-digit",
+      year: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hour12: false,
+    });
 
-      if (emailError) {
-        console.error("Error sending email:", emailError);
-      } else {
-        console.log(`Email sent successfully to ${user.email}`);
-      }
-    } catch (emailError) {
-      console.error("Error sending email notification:", emailError);
-    }
+    await dispatchNotification(supabase, {
+      event: "transcription_complete",
+      userId: user.id,
+      email: user.email,
+      title: `YouTube Transcription Complete: ${content.title}`,
+      html: createEmailHTML(content.title, transcriptionText, duration, language, timestamp),
+      link: `/history?log=${logEntry.id}`,
+      metadata: { transcription_id: logEntry.id, video_id: videoId },
+    });
+    await emitWebhookEvent(supabase, user.id, "transcription.completed", {
+      transcription_id: logEntry.id,
+      file_title: content.title,
+      source: "youtube",
+      video_id: videoId,
+      duration_seconds: duration ?? null,
+      language: language ?? null,
+    });
 
     return new Response(
       JSON.stringify({
@@ -782,6 +835,7 @@ serve(async (req: Request) => {
     );
   } catch (error: any) {
     console.error("Error in transcribe-youtube function:", error);
+    // The queue worker marks its item failed from the error response
     return new Response(
       JSON.stringify({ error: error.message }),
       { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -1,15 +1,49 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { labelSpeakers } from "../_shared/diarization.ts";
+import { syncTranscriptionEmbeddings } from "../_shared/embeddings.ts";
+import { dispatchNotification } from "../_shared/notifications.ts";
+import { saveSegments } from "../_shared/segments.ts";
+import { emitWebhookEvent } from "../_shared/webhooks.ts";
+import { estimateTranscriptionCost, getTranscriptionProvider, TranscriptionProvider } from "../_shared/transcription.ts";
+import { getTextTranslator, TextTranslator, translateTranscript } from "../_shared/translation.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const AUDIO_BUCKET = 'audio-uploads';
+
+// Store the original audio as <user_id>/<checksum> so duplicates share one object
+const storeAudioFile = async (
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  fileChecksum: string,
+  file: File
+): Promise<string | null> => {
+  if (!fileChecksum) return null;
+
+  const filePath = `${userId}/${fileChecksum}`;
+  const { error } = await supabase.storage
+    .from(AUDIO_BUCKET)
+    .upload(filePath, file, {
+      contentType: file.type || 'application/octet-stream',
+      upsert: true,
+    });
+
+  if (error) {
+    console.error('Error storing audio file:', error);
+    // Don't fail the request if the audio can't be stored
+    return null;
+  }
+
+  console.log(`Stored audio file at ${filePath}`);
+  return filePath;
+};
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -33,14 +67,18 @@ serve(async (req) => {
       },
     });
 
-    // Verify user is authenticated
-    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    // Get form data
+    const formData = await req.formData();
+
+    // The queue worker calls with the service role key on behalf of the queue item's owner
+    const userId = formData.get('userId') as string | null;
+    const { data: { user }, error: userError } = authHeader === `Bearer ${supabaseServiceKey}` && userId
+      ? await supabase.auth.admin.getUserById(userId)
+      : await supabase.auth.getUser();
     if (userError || !user) {
       throw new Error('Unauthorized');
     }
 
-    // Get form data
-    const formData = await req.formData();
     const file = formData.get('file') as File;
     const fileName = formData.get('fileName') as string;
     const fileChecksum = formData.get('fileChecksum') as string;
@@ -49,27 +87,99 @@ serve(async (req) => {
       throw new Error('No file provided');
     }
 
-    console.log(`Translating file: ${fileName}, size: ${file.size} bytes, checksum: ${fileChecksum}`);
+    let provider: TranscriptionProvider;
+    let translator: TextTranslator | null;
+    const targetLanguage = (formData.get('targetLanguage') as string | null) || 'en';
+
+    // English comes straight from the provider's audio translation; other languages are
+    // transcribed first and then run through the text-translation stage
+    const translatesAudio = targetLanguage === 'en';
+    try {
+      provider = getTranscriptionProvider(formData.get('provider') as string | null);
+      translator = translatesAudio
+        ? null
+        : getTextTranslator(formData.get('translationProvider') as string | null);
+    } catch (providerError) {
+      return new Response(
+        JSON.stringify({ error: providerError instanceof Error ? providerError.message : 'Invalid provider' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const model = (formData.get('model') as string | null) || provider.defaultModel;
+
+    console.log(`Translating file: ${fileName} into ${targetLanguage}, size: ${file.size} bytes, checksum: ${fileChecksum}, provider: ${provider.name}/${model}`);
 
-    // Check for duplicate file by checksum (for translations)
+    // Reuse a stored translation for this language, or translate the source transcript into it
+    const respondWithTextTranslation = async (logId: string, cached: boolean) => {
+      const { data: existingTranslation } = await supabase
+        .from('transcription_translations')
+        .select('*')
+        .eq('transcription_id', logId)
+        .eq('target_language', targetLanguage)
+        .eq('status', 'completed')
+        .maybeSingle();
+
+      const translation = existingTranslation ?? await translateTranscript(supabase, logId, targetLanguage, { translator: translator! });
+
+      return new Response(
+        JSON.stringify({
+          text: translation.translated_text,
+          logId,
+          translationId: translation.id,
+          language: targetLanguage,
+          cached: cached && !!existingTranslation,
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    };
+
+    // Check for duplicate file by checksum
     if (fileChecksum) {
-      const { data: existingLog } = await supabase
+      let existingQuery = supabase
         .from('transcription_logs')
         .select('*')
         .eq('file_checksum', fileChecksum)
         .eq('user_id', user.id)
-        .eq('status', 'completed')
+        .eq('status', 'completed');
+
+      // An English result can only be reused if the stored text is already English
+      if (translatesAudio) {
+        existingQuery = existingQuery.eq('language', 'en');
+      }
+
+      const { data: existingLog } = await existingQuery
         .order('created_at', { ascending: false })
         .limit(1)
-        .single();
+        .maybeSingle();
 
       if (existingLog) {
-        console.log('Duplicate file found, returning cached result');
+        console.log('Duplicate file found, reusing existing transcription');
+        await dispatchNotification(supabase, {
+          event: 'duplicate_detected',
+          userId: user.id,
+          email: user.email,
+          title: `Duplicate File Detected: ${fileName}`,
+          message: `${fileName} matches "${existingLog.file_title}", which you have already transcribed, so the existing transcription was reused.`,
+          link: `/history?log=${existingLog.id}`,
+          metadata: { transcription_id: existingLog.id, file_checksum: fileChecksum, file_name: fileName },
+        });
+        await emitWebhookEvent(supabase, user.id, 'duplicate.detected', {
+          transcription_id: existingLog.id,
+          file_checksum: fileChecksum,
+          file_name: fileName,
+        });
+
+        if (!translatesAudio) {
+          return await respondWithTextTranslation(existingLog.id, true);
+        }
+
         return new Response(
           JSON.stringify({
             text: existingLog.transcription_text,
             logId: existingLog.id,
-            language: 'en',
+            language: existingLog.language,
             cached: true,
             message: 'Returned cached translation for duplicate file',
           }),
@@ -80,6 +190,8 @@ serve(async (req) => {
       }
     }
 
+    const filePath = await storeAudioFile(supabase, user.id, fileChecksum, file);
+
     // Create a log entry in the database
     const { data: logData, error: logError } = await supabase
       .from('transcription_logs')
@@ -87,6 +199,10 @@ serve(async (req) => {
         user_id: user.id,
         file_title: fileName,
         file_checksum: fileChecksum,
+        file_path: filePath,
+        provider: provider.name,
+        model,
+        source: 'translate',
         status: 'processing',
       })
       .select()
@@ -100,38 +216,34 @@ serve(async (req) => {
     const logId = logData.id;
 
     try {
-      // Prepare form data for OpenAI
-      const openAIFormData = new FormData();
-      openAIFormData.append('file', file);
-      openAIFormData.append('model', 'whisper-1');
-
-      console.log('Sending to OpenAI translation API...');
-
-      // Send to OpenAI Whisper translation endpoint
-      // Note: Translation endpoint translates audio to English
-      const response = await fetch('https://api.openai.com/v1/audio/translations', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${openAIApiKey}`,
-        },
-        body: openAIFormData,
+      console.log(`Sending to ${provider.name} for ${translatesAudio ? 'translation' : 'transcription'}...`);
+
+      const result = await provider.transcribe({
+        file,
+        fileName,
+        task: translatesAudio ? 'translate' : 'transcribe',
+        model,
       });
+      console.log('Audio processed successfully, length:', result.text.length);
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('OpenAI API error:', response.status, errorText);
-        throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
-      }
+      await saveSegments(supabase, logId, result.segments);
 
-      const result = await response.json();
-      console.log('Translation successful, length:', result.text.length);
+      // Speaker labelling stage; a failure here shouldn't fail the translation
+      try {
+        await labelSpeakers(supabase, logId);
+      } catch (diarizationError) {
+        console.error('Error labelling speakers:', diarizationError);
+      }
 
-      // Update the log with the translation
+      // Update the log with the English translation, or the source transcript for other languages
       const { error: updateError } = await supabase
         .from('transcription_logs')
         .update({
           status: 'completed',
           transcription_text: result.text,
+          duration_seconds: result.duration ?? null,
+          language: translatesAudio ? 'en' : result.language ?? null,
+          estimated_cost: estimateTranscriptionCost(provider, result.duration),
         })
         .eq('id', logId);
 
@@ -140,16 +252,46 @@ serve(async (req) => {
         throw new Error('Failed to update transcription log');
       }
 
-      return new Response(
-        JSON.stringify({
-          text: result.text,
-          logId: logId,
-          language: 'en', // Translations are always to English
-        }),
-        {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
+      // Semantic search indexing; a failure here shouldn't fail the translation
+      try {
+        await syncTranscriptionEmbeddings(supabase, logId);
+      } catch (embeddingError) {
+        console.error('Error indexing transcript for semantic search:', embeddingError);
+      }
+
+      await dispatchNotification(supabase, {
+        event: 'transcription_complete',
+        userId: user.id,
+        email: user.email,
+        title: `Translation Complete: ${fileName}`,
+        message: translatesAudio
+          ? `${fileName} has been translated into English.`
+          : `${fileName} has been transcribed and is being translated into ${targetLanguage}.`,
+        link: `/history?log=${logId}`,
+        metadata: { transcription_id: logId, file_name: fileName, target_language: targetLanguage },
+      });
+      await emitWebhookEvent(supabase, user.id, 'transcription.completed', {
+        transcription_id: logId,
+        file_title: fileName,
+        source: 'translate',
+        duration_seconds: result.duration ?? null,
+        language: translatesAudio ? 'en' : result.language ?? null,
+        target_language: targetLanguage,
+      });
+
+      if (translatesAudio) {
+        return new Response(
+          JSON.stringify({
+            text: result.text,
+            logId: logId,
+            language: 'en',
+            duration: result.duration,
+          }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
 
     } catch (error) {
       console.error('Translation error:', error);
@@ -163,9 +305,28 @@ serve(async (req) => {
         })
         .eq('id', logId);
 
+      await dispatchNotification(supabase, {
+        event: 'transcription_failed',
+        userId: user.id,
+        email: user.email,
+        title: `Translation Failed: ${fileName}`,
+        message: `We couldn't translate ${fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        link: `/history?log=${logId}`,
+        metadata: { transcription_id: logId, file_name: fileName, target_language: targetLanguage },
+      });
+      await emitWebhookEvent(supabase, user.id, 'transcription.failed', {
+        transcription_id: logId,
+        file_title: fileName,
+        source: 'translate',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
       throw error;
     }
 
+    // The transcript is saved at this point; a failed text translation is recorded on its translation record
+    return await respondWithTextTranslation(logId, false);
+
   } catch (error) {
     console.error('Error in translate-audio function:', error);
     return new Response(
@@ -0,0 +1,152 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import { isScheduledRequest } from "../_shared/cron.ts";
+import { getYouTubeClient, YouTubeClient } from "../_shared/youtube.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Watches checked per run, least recently checked first, to stay inside the API quota
+const WATCHES_PER_RUN = 50;
+// Recent uploads looked at per channel; anything older was seen on an earlier run
+const RECENT_UPLOADS = 15;
+
+interface ChannelWatch {
+  id: string;
+  user_id: string;
+  channel_id: string;
+  channel_title: string;
+  language: string;
+  last_published_at: string | null;
+}
+
+/**
+ * Queue a channel's uploads published since the watch last saw one. The first check of a new watch
+ * only records where the channel is up to, so existing videos aren't queued all at once.
+ * Returns the number of videos queued.
+ */
+const checkChannel = async (supabase: SupabaseClient, youtube: YouTubeClient, watch: ChannelWatch) => {
+  const channel = await youtube.getChannel({ kind: "channel", channelId: watch.channel_id });
+  if (!channel) throw new Error(`Channel ${watch.channel_id} not found`);
+
+  const videos = await youtube.listPlaylistVideos(channel.uploadsPlaylistId, RECENT_UPLOADS);
+  const newest = videos.reduce<string | null>(
+    (latest, video) => (!latest || video.publishedAt > latest ? video.publishedAt : latest),
+    watch.last_published_at
+  );
+
+  let newVideos = watch.last_published_at
+    ? videos.filter((video) => new Date(video.publishedAt) > new Date(watch.last_published_at!))
+    : [];
+
+  // Skip anything the user already queued, e.g. from an import
+  if (newVideos.length > 0) {
+    const { data: existing } = await supabase
+      .from("transcription_queue")
+      .select("video_id")
+      .eq("user_id", watch.user_id)
+      .in("video_id", newVideos.map((video) => video.videoId));
+
+    const queuedIds = new Set((existing || []).map((item) => item.video_id));
+    newVideos = newVideos.filter((video) => !queuedIds.has(video.videoId));
+  }
+
+  if (newVideos.length > 0) {
+    const { error: insertError } = await supabase
+      .from("transcription_queue")
+      .insert(newVideos.map((video) => {
+        const url = `https://www.youtube.com/watch?v=${video.videoId}`;
+        return {
+          user_id: watch.user_id,
+          source_type: "youtube",
+          source_ref: url,
+          video_id: video.videoId,
+          video_url: url,
+          video_title: video.title,
+          video_thumbnail: video.thumbnail,
+          channel_title: video.channelTitle || channel.title,
+          language: watch.language,
+        };
+      }));
+
+    if (insertError) throw insertError;
+  }
+
+  await supabase
+    .from("youtube_channel_watches")
+    .update({
+      channel_title: channel.title,
+      last_published_at: newest,
+      last_checked_at: new Date().toISOString(),
+    })
+    .eq("id", watch.id);
+
+  return newVideos.length;
+};
+
+// Called every 30 minutes by pg_cron; queued videos are picked up by process-transcription-queue
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isScheduledRequest(req)) {
+    return new Response(
+      JSON.stringify({ error: "Unauthorized" }),
+      { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Only pg_cron calls this function, and the client comes from YOUTUBE_CLIENT rather than the request
+    const youtube = getYouTubeClient();
+
+    const { data: watches, error: watchesError } = await supabase
+      .from("youtube_channel_watches")
+      .select("id, user_id, channel_id, channel_title, language, last_published_at")
+      .eq("enabled", true)
+      .order("last_checked_at", { ascending: true, nullsFirst: true })
+      .limit(WATCHES_PER_RUN);
+
+    if (watchesError) throw watchesError;
+
+    let queued = 0;
+    let failed = 0;
+    for (const watch of (watches || []) as ChannelWatch[]) {
+      try {
+        const count = await checkChannel(supabase, youtube, watch);
+        if (count > 0) {
+          console.log(`Queued ${count} new videos from ${watch.channel_title} for user ${watch.user_id}`);
+        }
+        queued += count;
+      } catch (error) {
+        failed++;
+        console.error(`Error checking channel ${watch.channel_id} for watch ${watch.id}:`, error);
+        // Move it to the back of the line so one broken channel doesn't hold up the rest
+        await supabase
+          .from("youtube_channel_watches")
+          .update({ last_checked_at: new Date().toISOString() })
+          .eq("id", watch.id);
+      }
+    }
+
+    console.log(`Checked ${watches?.length ?? 0} channel watches, queued ${queued} videos, ${failed} failed`);
+
+    return new Response(
+      JSON.stringify({ checked: watches?.length ?? 0, queued, failed }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in watch-youtube-channels function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error occurred" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,337 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.80.0";
+import { isScheduledRequest } from "../_shared/cron.ts";
+import { dispatchNotification, escapeHTML } from "../_shared/notifications.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const SUMMARY_PERIOD_DAYS = 7;
+// Users sent a summary more recently than this are skipped, so a repeated run doesn't email twice
+const MIN_HOURS_BETWEEN_SUMMARIES = 6 * 24;
+const TOP_TAG_COUNT = 5;
+
+interface TagCount {
+  name: string;
+  count: number;
+}
+
+interface WeeklySummary {
+  periodStart: Date;
+  periodEnd: Date;
+  completed: number;
+  failed: number;
+  minutesProcessed: number;
+  duplicatesDetected: number;
+  topTags: TagCount[];
+  cleanupRuns: number;
+  filesCleanedUp: number;
+  spaceFreedBytes: number;
+}
+
+const formatDay = (date: Date) =>
+  date.toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "numeric" });
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Gather one user's activity between the period start and end
+const buildWeeklySummary = async (
+  supabase: SupabaseClient,
+  userId: string,
+  periodStart: Date,
+  periodEnd: Date
+): Promise<WeeklySummary> => {
+  const since = periodStart.toISOString();
+  const until = periodEnd.toISOString();
+
+  const [
+    { data: logs, error: logsError },
+    { data: taggings, error: taggingsError },
+    { data: cleanups, error: cleanupsError },
+  ] = await Promise.all([
+    supabase
+      .from("transcription_logs")
+      .select("id, status, duration_seconds, file_checksum")
+      .eq("user_id", userId)
+      .gte("created_at", since)
+      .lt("created_at", until),
+    supabase
+      .from("transcription_tags")
+      .select("tags(name), transcription_logs!inner(user_id, created_at)")
+      .eq("transcription_logs.user_id", userId)
+      .gte("transcription_logs.created_at", since)
+      .lt("transcription_logs.created_at", until),
+    supabase
+      .from("duplicate_cleanup_history")
+      .select("files_deleted, space_freed_bytes")
+      .eq("user_id", userId)
+      .gte("run_at", since)
+      .lt("run_at", until),
+  ]);
+
+  if (logsError) throw logsError;
+  if (taggingsError) throw taggingsError;
+  if (cleanupsError) throw cleanupsError;
+
+  const completedLogs = (logs || []).filter(log => log.status === "completed");
+  const processedSeconds = completedLogs.reduce((total, log) => total + (Number(log.duration_seconds) || 0), 0);
+
+  // A file counts as a duplicate when another of the user's transcriptions has the same checksum
+  const checksums = [...new Set((logs || []).map(log => log.file_checksum).filter(Boolean))];
+  let duplicatesDetected = 0;
+  if (checksums.length > 0) {
+    const { data: matches, error: matchesError } = await supabase
+      .from("transcription_logs")
+      .select("file_checksum")
+      .eq("user_id", userId)
+      .in("file_checksum", checksums);
+
+    if (matchesError) throw matchesError;
+
+    const checksumCounts = new Map<string, number>();
+    (matches || []).forEach(match => {
+      checksumCounts.set(match.file_checksum, (checksumCounts.get(match.file_checksum) || 0) + 1);
+    });
+    duplicatesDetected = (logs || []).filter(log => log.file_checksum && (checksumCounts.get(log.file_checksum) || 0) > 1).length;
+  }
+
+  const tagCounts = new Map<string, number>();
+  (taggings || []).forEach((tagging: { tags: { name: string } | null }) => {
+    if (tagging.tags?.name) {
+      tagCounts.set(tagging.tags.name, (tagCounts.get(tagging.tags.name) || 0) + 1);
+    }
+  });
+
+  return {
+    periodStart,
+    periodEnd,
+    completed: completedLogs.length,
+    failed: (logs || []).filter(log => log.status === "failed").length,
+    minutesProcessed: Math.round(processedSeconds / 6) / 10,
+    duplicatesDetected,
+    topTags: Array.from(tagCounts.entries())
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_TAG_COUNT),
+    cleanupRuns: cleanups?.length || 0,
+    filesCleanedUp: (cleanups || []).reduce((total, run) => total + (run.files_deleted || 0), 0),
+    spaceFreedBytes: (cleanups || []).reduce((total, run) => total + (Number(run.space_freed_bytes) || 0), 0),
+  };
+};
+
+const hasActivity = (summary: WeeklySummary) =>
+  summary.completed + summary.failed + summary.cleanupRuns > 0;
+
+const createSummaryText = (summary: WeeklySummary) => {
+  const lines = [
+    `Your weekly summary (${formatDay(summary.periodStart)} - ${formatDay(summary.periodEnd)})`,
+    "",
+    `Transcriptions completed: ${summary.completed}`,
+    `Transcriptions failed: ${summary.failed}`,
+    `Minutes processed: ${summary.minutesProcessed}`,
+    `Duplicates detected: ${summary.duplicatesDetected}`,
+    "",
+    "Top tags:",
+    ...(summary.topTags.length > 0
+      ? summary.topTags.map(tag => `- ${tag.name} (${tag.count})`)
+      : ["- No tags used this week"]),
+    "",
+    summary.cleanupRuns > 0
+      ? `Cleanup runs: ${summary.cleanupRuns} (${summary.filesCleanedUp} files removed, ${formatMegabytes(summary.spaceFreedBytes)} freed)`
+      : "Cleanup runs: none",
+    "",
+    "You're receiving this because weekly summaries are enabled in your notification settings.",
+  ];
+
+  return lines.join("\n");
+};
+
+const createSummaryHTML = (summary: WeeklySummary) => {
+  const statCell = (label: string, value: string | number, color: string) => `
+            <td style="padding: 8px; width: 25%;">
+              <div style="background-color: #f9fafb; border: 1px solid #e5e7eb; border-radius: 6px; padding: 16px; text-align: center;">
+                <div style="color: ${color}; font-size: 24px; font-weight: bold;">${value}</div>
+                <div style="color: #6b7280; font-size: 12px; margin-top: 4px;">${label}</div>
+              </div>
+            </td>`;
+
+  const tagRows = summary.topTags.length > 0
+    ? summary.topTags.map(tag => `
+            <tr>
+              <td style="padding: 8px 12px; border-bottom: 1px solid #e5e7eb; color: #333; font-size: 14px;">${escapeHTML(tag.name)}</td>
+              <td style="padding: 8px 12px; border-bottom: 1px solid #e5e7eb; color: #333; font-size: 14px; text-align: right;">${tag.count}</td>
+            </tr>`).join("")
+    : `
+            <tr>
+              <td colspan="2" style="padding: 8px 12px; color: #6b7280; font-size: 14px;">No tags used this week</td>
+            </tr>`;
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Your Weekly Summary</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f6f9fc; margin: 0; padding: 20px;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; overflow: hidden;">
+    <tr>
+      <td style="padding: 40px 40px 20px;">
+        <h1 style="color: #333; font-size: 24px; font-weight: bold; margin: 0 0 8px;">Your Weekly Summary</h1>
+        <p style="color: #6b7280; font-size: 14px; margin: 0 0 24px;">${formatDay(summary.periodStart)} – ${formatDay(summary.periodEnd)}</p>
+
+        <table width="100%" cellpadding="0" cellspacing="0">
+          <tr>
+            ${statCell("Completed", summary.completed, "#16a34a")}
+            ${statCell("Failed", summary.failed, "#dc2626")}
+            ${statCell("Minutes", summary.minutesProcessed, "#2563eb")}
+            ${statCell("Duplicates", summary.duplicatesDetected, "#ea580c")}
+          </tr>
+        </table>
+
+        <h2 style="color: #333; font-size: 18px; font-weight: bold; margin: 28px 0 12px;">Top Tags</h2>
+        <table width="100%" cellpadding="0" cellspacing="0" style="border: 1px solid #e5e7eb; border-radius: 6px; border-collapse: collapse;">
+          ${tagRows}
+        </table>
+
+        <h2 style="color: #333; font-size: 18px; font-weight: bold; margin: 28px 0 12px;">Duplicate Cleanup</h2>
+        <p style="color: #333; font-size: 14px; line-height: 22px; margin: 0;">
+          ${summary.cleanupRuns > 0
+            ? `${summary.cleanupRuns} cleanup run${summary.cleanupRuns !== 1 ? "s" : ""} removed ${summary.filesCleanedUp} file${summary.filesCleanedUp !== 1 ? "s" : ""} and freed ${formatMegabytes(summary.spaceFreedBytes)}.`
+            : "No cleanup runs this week."}
+        </p>
+
+        <hr style="border: none; border-top: 1px solid #e6ebf1; margin: 28px 0 20px;">
+
+        <p style="color: #8898aa; font-size: 12px; line-height: 16px; margin: 0;">
+          This is an automated message from The Wright Scriber Pro.<br>
+          You're receiving this because weekly summaries are enabled in your notification settings.
+        </p>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `;
+};
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isScheduledRequest(req)) {
+    return new Response(
+      JSON.stringify({ error: "Unauthorized" }),
+      { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    console.log("Starting weekly summary run...");
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const periodEnd = new Date();
+    const periodStart = new Date(periodEnd.getTime() - SUMMARY_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+    const sentBefore = new Date(periodEnd.getTime() - MIN_HOURS_BETWEEN_SUMMARIES * 60 * 60 * 1000);
+
+    const sentAt = periodEnd.toISOString();
+    const notSentSince = `weekly_summary_sent_at.is.null,weekly_summary_sent_at.lt.${sentBefore.toISOString()}`;
+
+    const { data: subscribers, error: subscribersError } = await supabase
+      .from("notification_preferences")
+      .select("user_id, weekly_summary_sent_at")
+      .eq("email_weekly_summary", true)
+      .or(notSentSince);
+
+    if (subscribersError) throw subscribersError;
+
+    console.log(`Found ${subscribers?.length || 0} users opted in to the weekly summary`);
+
+    let sent = 0;
+    let skipped = 0;
+    let failed = 0;
+
+    // Give a subscriber back to the next run when no summary went out to them
+    const releaseSubscriber = (subscriber: { user_id: string; weekly_summary_sent_at: string | null }) =>
+      supabase
+        .from("notification_preferences")
+        .update({ weekly_summary_sent_at: subscriber.weekly_summary_sent_at })
+        .eq("user_id", subscriber.user_id)
+        .eq("weekly_summary_sent_at", sentAt);
+
+    for (const subscriber of subscribers || []) {
+      // Claim the subscriber before building anything; a run that overlaps this one finds them
+      // already marked and skips them, so nobody gets the summary twice
+      const { data: claimed, error: claimError } = await supabase
+        .from("notification_preferences")
+        .update({ weekly_summary_sent_at: sentAt })
+        .eq("user_id", subscriber.user_id)
+        .eq("email_weekly_summary", true)
+        .or(notSentSince)
+        .select("user_id")
+        .maybeSingle();
+
+      if (claimError) {
+        console.error(`Error claiming weekly summary for user ${subscriber.user_id}:`, claimError);
+        failed++;
+        continue;
+      }
+      if (!claimed) {
+        skipped++;
+        continue;
+      }
+
+      try {
+        const summary = await buildWeeklySummary(supabase, subscriber.user_id, periodStart, periodEnd);
+
+        // Nothing happened this week, so there's nothing worth an email
+        if (!hasActivity(summary)) {
+          await releaseSubscriber(subscriber);
+          skipped++;
+          continue;
+        }
+
+        const delivered = await dispatchNotification(supabase, {
+          event: "weekly_summary",
+          userId: subscriber.user_id,
+          title: `Your weekly summary: ${summary.completed} transcription${summary.completed !== 1 ? "s" : ""} completed`,
+          html: createSummaryHTML(summary),
+          text: createSummaryText(summary),
+          metadata: { period_start: periodStart.toISOString(), period_end: periodEnd.toISOString() },
+        });
+
+        if (!delivered.email) {
+          await releaseSubscriber(subscriber);
+          failed++;
+          continue;
+        }
+
+        sent++;
+      } catch (summaryError) {
+        console.error(`Error building weekly summary for user ${subscriber.user_id}:`, summaryError);
+        await releaseSubscriber(subscriber);
+        failed++;
+      }
+    }
+
+    console.log(`Weekly summary run finished - Sent: ${sent}, Skipped: ${skipped}, Failed: ${failed}`);
+
+    return new Response(
+      JSON.stringify({ message: "Weekly summary run completed", sent, skipped, failed }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in weekly-summary function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error occurred" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,31 @@
+-- Create transcription_segments table for timestamped Whisper segments
+CREATE TABLE public.transcription_segments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transcription_id UUID NOT NULL REFERENCES public.transcription_logs(id) ON DELETE CASCADE,
+  segment_index INTEGER NOT NULL,
+  start_time DECIMAL NOT NULL,
+  end_time DECIMAL NOT NULL,
+  text TEXT NOT NULL,
+  avg_logprob DECIMAL,
+  no_speech_prob DECIMAL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  UNIQUE(transcription_id, segment_index)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.transcription_segments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for transcription_segments table
+CREATE POLICY "Users can view segments of their transcriptions"
+  ON public.transcription_segments
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.transcription_logs
+      WHERE transcription_logs.id = transcription_segments.transcription_id
+      AND transcription_logs.user_id = auth.uid()
+    )
+  );
+
+-- Create index for ordered segment lookups per transcription
+CREATE INDEX idx_transcription_segments_transcription_id ON public.transcription_segments(transcription_id, segment_index);
@@ -0,0 +1,27 @@
+-- Create private storage bucket for original uploaded audio
+-- Objects are stored as <user_id>/<file_checksum> and written by the transcription edge functions
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('audio-uploads', 'audio-uploads', false);
+
+-- Allow users to view their own audio
+CREATE POLICY "Users can view their own audio uploads"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'audio-uploads' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
+
+-- Allow users to delete their own audio
+CREATE POLICY "Users can delete their own audio uploads"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'audio-uploads' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
+
+-- Index for finding logs that still reference a stored file
+CREATE INDEX IF NOT EXISTS idx_transcription_logs_file_path ON public.transcription_logs(file_path);
@@ -0,0 +1,99 @@
+-- Create transcription revisions table
+CREATE TABLE public.transcription_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transcription_id UUID NOT NULL REFERENCES public.transcription_logs(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  transcription_text TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  created_by UUID NOT NULL,
+  change_summary TEXT,
+  UNIQUE(transcription_id, version_number)
+);
+
+-- Enable RLS
+ALTER TABLE public.transcription_revisions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view revisions of their own transcriptions"
+ON public.transcription_revisions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.transcription_logs
+    WHERE transcription_logs.id = transcription_revisions.transcription_id
+    AND transcription_logs.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can create revisions of their own transcriptions"
+ON public.transcription_revisions
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.transcription_logs
+    WHERE transcription_logs.id = transcription_revisions.transcription_id
+    AND transcription_logs.user_id = auth.uid()
+  )
+  AND auth.uid() = created_by
+);
+
+-- Create indexes
+CREATE INDEX idx_transcription_revisions_transcription_id ON public.transcription_revisions(transcription_id, version_number DESC);
+
+-- Function to automatically keep the previous text when a transcript is edited
+CREATE OR REPLACE FUNCTION public.create_transcription_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  next_version INTEGER;
+  old_word_count INTEGER;
+  new_word_count INTEGER;
+  char_delta INTEGER;
+BEGIN
+  -- Only edits of existing text create revisions, not the initial transcription result
+  IF TG_OP = 'UPDATE'
+    AND OLD.transcription_text IS NOT NULL
+    AND OLD.transcription_text IS DISTINCT FROM NEW.transcription_text
+  THEN
+    -- Get the next version number
+    SELECT COALESCE(MAX(version_number), 0) + 1
+    INTO next_version
+    FROM transcription_revisions
+    WHERE transcription_id = NEW.id;
+
+    old_word_count := COALESCE(array_length(regexp_split_to_array(btrim(OLD.transcription_text), '\s+'), 1), 0);
+    new_word_count := COALESCE(array_length(regexp_split_to_array(btrim(COALESCE(NEW.transcription_text, '')), '\s+'), 1), 0);
+    char_delta := length(COALESCE(NEW.transcription_text, '')) - length(OLD.transcription_text);
+
+    -- Store the text as it was before this edit, attributed to whoever made the edit
+    INSERT INTO transcription_revisions (
+      transcription_id,
+      version_number,
+      transcription_text,
+      created_by,
+      change_summary
+    ) VALUES (
+      OLD.id,
+      next_version,
+      OLD.transcription_text,
+      COALESCE(auth.uid(), OLD.user_id),
+      format('Edited: %s → %s words (%s%s characters)',
+        old_word_count,
+        new_word_count,
+        CASE WHEN char_delta >= 0 THEN '+' ELSE '' END,
+        char_delta)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Create trigger for automatic revisions
+CREATE TRIGGER transcription_revision_trigger
+BEFORE UPDATE ON public.transcription_logs
+FOR EACH ROW
+EXECUTE FUNCTION public.create_transcription_revision();
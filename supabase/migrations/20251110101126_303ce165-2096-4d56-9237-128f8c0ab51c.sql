@@ -0,0 +1,59 @@
+-- Add speaker assignment to transcription segments (0-based, set by the diarization stage)
+ALTER TABLE public.transcription_segments ADD COLUMN speaker_index INTEGER;
+
+-- Create transcription_speakers table for per-log speaker names
+CREATE TABLE public.transcription_speakers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transcription_id UUID NOT NULL REFERENCES public.transcription_logs(id) ON DELETE CASCADE,
+  speaker_index INTEGER NOT NULL,
+  display_name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  UNIQUE(transcription_id, speaker_index)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.transcription_speakers ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for transcription_speakers table
+CREATE POLICY "Users can view speakers of their transcriptions"
+  ON public.transcription_speakers
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.transcription_logs
+      WHERE transcription_logs.id = transcription_speakers.transcription_id
+      AND transcription_logs.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can name speakers of their transcriptions"
+  ON public.transcription_speakers
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.transcription_logs
+      WHERE transcription_logs.id = transcription_speakers.transcription_id
+      AND transcription_logs.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can rename speakers of their transcriptions"
+  ON public.transcription_speakers
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.transcription_logs
+      WHERE transcription_logs.id = transcription_speakers.transcription_id
+      AND transcription_logs.user_id = auth.uid()
+    )
+  );
+
+-- Create index for speaker lookups per transcription
+CREATE INDEX idx_transcription_speakers_transcription_id ON public.transcription_speakers(transcription_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_transcription_speakers_updated_at
+  BEFORE UPDATE ON public.transcription_speakers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,9 @@
+-- Allow users to upload their own audio directly, for files too large to pass through the transcription function
+CREATE POLICY "Users can upload their own audio uploads"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'audio-uploads' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
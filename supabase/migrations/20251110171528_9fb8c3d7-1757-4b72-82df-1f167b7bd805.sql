@@ -0,0 +1,3 @@
+-- Record which transcription provider and model produced each log
+ALTER TABLE public.transcription_logs ADD COLUMN provider TEXT;
+ALTER TABLE public.transcription_logs ADD COLUMN model TEXT;
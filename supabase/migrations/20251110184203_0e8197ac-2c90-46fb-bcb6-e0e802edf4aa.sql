@@ -0,0 +1,57 @@
+-- Persist transcription metadata so usage and spend can be reported per log
+ALTER TABLE public.transcription_logs ADD COLUMN duration_seconds NUMERIC;
+ALTER TABLE public.transcription_logs ADD COLUMN language TEXT;
+ALTER TABLE public.transcription_logs ADD COLUMN source TEXT;
+ALTER TABLE public.transcription_logs ADD COLUMN estimated_cost NUMERIC(10, 4);
+
+COMMENT ON COLUMN public.transcription_logs.source IS 'How the audio arrived: upload, recording, youtube or translate';
+COMMENT ON COLUMN public.transcription_logs.estimated_cost IS 'Estimated provider cost in USD, derived from duration and model pricing';
+
+-- Backfill what the queue already recorded for YouTube transcriptions
+UPDATE public.transcription_logs
+SET
+  duration_seconds = transcription_queue.result_duration,
+  language = transcription_queue.result_language,
+  source = 'youtube'
+FROM public.transcription_queue
+WHERE transcription_queue.transcription_log_id = transcription_logs.id;
+
+CREATE INDEX idx_transcription_logs_source ON public.transcription_logs(source);
+CREATE INDEX idx_transcription_logs_language ON public.transcription_logs(language);
+
+-- Admin-only usage report across all users, without exposing transcript text
+CREATE OR REPLACE FUNCTION public.get_transcription_usage()
+RETURNS TABLE (
+  status TEXT,
+  error_message TEXT,
+  user_id UUID,
+  user_email TEXT,
+  duration_seconds NUMERIC,
+  language TEXT,
+  source TEXT,
+  estimated_cost NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view transcription usage';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    transcription_logs.status,
+    transcription_logs.error_message,
+    transcription_logs.user_id,
+    profiles.email,
+    transcription_logs.duration_seconds,
+    transcription_logs.language,
+    transcription_logs.source,
+    transcription_logs.estimated_cost
+  FROM public.transcription_logs
+  LEFT JOIN public.profiles ON profiles.id = transcription_logs.user_id;
+END;
+$$;
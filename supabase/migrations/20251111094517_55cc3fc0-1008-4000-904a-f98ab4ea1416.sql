@@ -0,0 +1,50 @@
+-- Create transcription_translations table: text translations linked to a source transcription
+CREATE TABLE public.transcription_translations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transcription_id UUID NOT NULL REFERENCES public.transcription_logs(id) ON DELETE CASCADE,
+  target_language TEXT NOT NULL,
+  source_language TEXT,
+  translated_text TEXT,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed', 'failed')),
+  error_message TEXT,
+  provider TEXT,
+  model TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  UNIQUE(transcription_id, target_language)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.transcription_translations ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for transcription_translations table
+CREATE POLICY "Users can view translations of their transcriptions"
+  ON public.transcription_translations
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.transcription_logs
+      WHERE transcription_logs.id = transcription_translations.transcription_id
+      AND transcription_logs.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete translations of their transcriptions"
+  ON public.transcription_translations
+  FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.transcription_logs
+      WHERE transcription_logs.id = transcription_translations.transcription_id
+      AND transcription_logs.user_id = auth.uid()
+    )
+  );
+
+-- Create index for translation lookups per transcription
+CREATE INDEX idx_transcription_translations_transcription_id ON public.transcription_translations(transcription_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_transcription_translations_updated_at
+  BEFORE UPDATE ON public.transcription_translations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
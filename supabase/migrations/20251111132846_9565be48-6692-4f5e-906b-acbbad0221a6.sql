@@ -0,0 +1,16 @@
+-- Let the queue carry translation jobs for existing transcriptions alongside YouTube videos
+ALTER TABLE public.transcription_queue
+  ADD COLUMN job_type TEXT NOT NULL DEFAULT 'youtube' CHECK (job_type IN ('youtube', 'translation')),
+  ADD COLUMN target_language TEXT;
+
+-- Translation jobs have no video; they point at the source log through transcription_log_id
+ALTER TABLE public.transcription_queue ALTER COLUMN video_id DROP NOT NULL;
+ALTER TABLE public.transcription_queue ALTER COLUMN video_url DROP NOT NULL;
+
+ALTER TABLE public.transcription_queue
+  ADD CONSTRAINT transcription_queue_job_source CHECK (
+    (job_type = 'youtube' AND video_id IS NOT NULL AND video_url IS NOT NULL)
+    OR (job_type = 'translation' AND transcription_log_id IS NOT NULL AND target_language IS NOT NULL)
+  );
+
+CREATE INDEX idx_transcription_queue_job_type ON public.transcription_queue(job_type);
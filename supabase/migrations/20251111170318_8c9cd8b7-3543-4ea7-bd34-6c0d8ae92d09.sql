@@ -0,0 +1,136 @@
+-- Content search now takes a tsquery compiled by the client's query parser (boolean operators,
+-- phrases, prefixes and proximity) plus the tag: and status: field operators from the same query
+DROP FUNCTION IF EXISTS public.search_transcription_logs(
+  TEXT, TEXT, TEXT, TEXT[], UUID[], TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE,
+  INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER
+);
+
+-- Required tags must all be present; the query statuses and excluded tags/statuses narrow
+-- the filters chosen in the UI rather than replacing them.
+CREATE FUNCTION public.search_transcription_logs(
+  _search_query TEXT DEFAULT NULL,
+  _content_tsquery TEXT DEFAULT NULL,
+  _checksum_query TEXT DEFAULT NULL,
+  _statuses TEXT[] DEFAULT NULL,
+  _tag_ids UUID[] DEFAULT NULL,
+  _required_tags TEXT[] DEFAULT NULL,
+  _excluded_tags TEXT[] DEFAULT NULL,
+  _query_statuses TEXT[] DEFAULT NULL,
+  _excluded_statuses TEXT[] DEFAULT NULL,
+  _start_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _end_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _min_length INTEGER DEFAULT NULL,
+  _max_length INTEGER DEFAULT NULL,
+  _sort_field TEXT DEFAULT NULL,
+  _sort_direction TEXT DEFAULT NULL,
+  _page_size INTEGER DEFAULT 10,
+  _page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  rank REAL,
+  snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    -- A query of only stop words compiles to an empty tsquery, which shouldn't filter anything out
+    SELECT CASE WHEN numnode(parsed.tsquery) > 0 THEN parsed.tsquery END AS tsquery
+    FROM (SELECT to_tsquery('english', nullif(trim(_content_tsquery), '')) AS tsquery) AS parsed
+  ),
+  matches AS (
+    SELECT
+      logs.id,
+      logs.file_title,
+      logs.status,
+      logs.created_at,
+      logs.transcription_text,
+      query.tsquery,
+      CASE WHEN query.tsquery IS NULL THEN 0 ELSE ts_rank_cd(logs.search_vector, query.tsquery) END AS rank
+    FROM public.transcription_logs AS logs
+    CROSS JOIN query
+    WHERE logs.user_id = auth.uid()
+      AND (query.tsquery IS NULL OR logs.search_vector @@ query.tsquery)
+      AND (
+        coalesce(_search_query, '') = ''
+        OR logs.file_title ILIKE '%' || replace(replace(replace(_search_query, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+      )
+      AND (
+        coalesce(trim(_checksum_query), '') = ''
+        OR logs.file_checksum ILIKE '%' || replace(replace(replace(trim(_checksum_query), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+      )
+      AND (_statuses IS NULL OR logs.status = ANY(_statuses))
+      AND (_query_statuses IS NULL OR logs.status = ANY(_query_statuses))
+      AND (_excluded_statuses IS NULL OR NOT logs.status = ANY(_excluded_statuses))
+      AND (_start_date IS NULL OR logs.created_at >= _start_date)
+      AND (_end_date IS NULL OR logs.created_at <= _end_date)
+      AND (_min_length IS NULL OR char_length(coalesce(logs.transcription_text, '')) >= _min_length)
+      AND (_max_length IS NULL OR char_length(coalesce(logs.transcription_text, '')) <= _max_length)
+      AND (
+        _tag_ids IS NULL
+        OR EXISTS (
+          SELECT 1 FROM public.transcription_tags
+          WHERE transcription_tags.transcription_id = logs.id
+            AND transcription_tags.tag_id = ANY(_tag_ids)
+        )
+      )
+      AND (
+        _required_tags IS NULL
+        OR NOT EXISTS (
+          SELECT 1 FROM unnest(_required_tags) AS required(name)
+          WHERE NOT EXISTS (
+            SELECT 1 FROM public.transcription_tags
+            JOIN public.tags ON tags.id = transcription_tags.tag_id
+            WHERE transcription_tags.transcription_id = logs.id
+              AND lower(tags.name) = lower(required.name)
+          )
+        )
+      )
+      AND (
+        _excluded_tags IS NULL
+        OR NOT EXISTS (
+          SELECT 1 FROM public.transcription_tags
+          JOIN public.tags ON tags.id = transcription_tags.tag_id
+          WHERE transcription_tags.transcription_id = logs.id
+            AND lower(tags.name) = ANY(SELECT lower(excluded.name) FROM unnest(_excluded_tags) AS excluded(name))
+        )
+      )
+  ),
+  ordered AS (
+    SELECT
+      matches.*,
+      count(*) OVER () AS total_count,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN _sort_field = 'file_title' AND _sort_direction = 'asc' THEN lower(matches.file_title) END ASC,
+          CASE WHEN _sort_field = 'file_title' AND _sort_direction = 'desc' THEN lower(matches.file_title) END DESC,
+          CASE WHEN _sort_field = 'status' AND _sort_direction = 'asc' THEN matches.status END ASC,
+          CASE WHEN _sort_field = 'status' AND _sort_direction = 'desc' THEN matches.status END DESC,
+          CASE WHEN _sort_field = 'created_at' AND _sort_direction = 'asc' THEN matches.created_at END ASC,
+          CASE WHEN _sort_field = 'created_at' AND _sort_direction = 'desc' THEN matches.created_at END DESC,
+          matches.rank DESC,
+          matches.created_at DESC
+      ) AS position
+    FROM matches
+  )
+  -- Bound the page by position so snippets are only built for the rows returned
+  SELECT
+    ordered.id,
+    ordered.rank::REAL,
+    CASE
+      WHEN ordered.tsquery IS NOT NULL THEN ts_headline(
+        'english',
+        ordered.transcription_text,
+        ordered.tsquery,
+        'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=25, MinWords=10, FragmentDelimiter=" … "'
+      )
+    END AS snippet,
+    ordered.total_count
+  FROM ordered
+  WHERE ordered.position > _page_offset
+    AND (_page_size IS NULL OR ordered.position <= _page_offset + _page_size)
+  ORDER BY ordered.position;
+$$;
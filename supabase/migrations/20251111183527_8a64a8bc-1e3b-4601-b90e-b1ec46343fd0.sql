@@ -0,0 +1,100 @@
+-- Enable pgvector for semantic search
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- Create transcription_embeddings table: transcript passages and their embedding vectors
+CREATE TABLE public.transcription_embeddings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transcription_id UUID NOT NULL REFERENCES public.transcription_logs(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  start_time NUMERIC,
+  end_time NUMERIC,
+  embedding extensions.vector(1536) NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  UNIQUE(transcription_id, chunk_index)
+);
+
+COMMENT ON COLUMN public.transcription_embeddings.start_time IS 'Start of the passage in seconds, when the transcript has timed segments';
+
+-- Enable Row Level Security
+ALTER TABLE public.transcription_embeddings ENABLE ROW LEVEL SECURITY;
+
+-- Embeddings are written by edge functions with the service role; users can only read their own
+CREATE POLICY "Users can view embeddings of their transcriptions"
+  ON public.transcription_embeddings
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.transcription_logs
+      WHERE transcription_logs.id = transcription_embeddings.transcription_id
+      AND transcription_logs.user_id = auth.uid()
+    )
+  );
+
+-- Create indexes for per-transcription lookups and nearest-neighbour search
+CREATE INDEX idx_transcription_embeddings_transcription_id ON public.transcription_embeddings(transcription_id);
+CREATE INDEX idx_transcription_embeddings_embedding ON public.transcription_embeddings
+  USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- Drop passages as soon as the transcript text changes so search never points at stale text;
+-- the editor then asks for the transcript to be embedded again
+CREATE OR REPLACE FUNCTION public.clear_stale_transcription_embeddings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.transcription_text IS DISTINCT FROM NEW.transcription_text THEN
+    DELETE FROM transcription_embeddings WHERE transcription_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_stale_transcription_embeddings_trigger
+AFTER UPDATE OF transcription_text ON public.transcription_logs
+FOR EACH ROW
+EXECUTE FUNCTION public.clear_stale_transcription_embeddings();
+
+-- Nearest passages to a query embedding. Runs with the caller's privileges, so row level
+-- security limits results to the caller's own transcriptions; only vectors from the same
+-- model are comparable, hence the model filter.
+CREATE OR REPLACE FUNCTION public.match_transcription_passages(
+  _query_embedding extensions.vector(1536),
+  _user_id UUID,
+  _model TEXT,
+  _match_count INTEGER DEFAULT 10,
+  _min_similarity DOUBLE PRECISION DEFAULT 0
+)
+RETURNS TABLE (
+  transcription_id UUID,
+  file_title TEXT,
+  chunk_index INTEGER,
+  content TEXT,
+  start_time NUMERIC,
+  end_time NUMERIC,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    transcription_embeddings.transcription_id,
+    transcription_logs.file_title,
+    transcription_embeddings.chunk_index,
+    transcription_embeddings.content,
+    transcription_embeddings.start_time,
+    transcription_embeddings.end_time,
+    1 - (transcription_embeddings.embedding <=> _query_embedding) AS similarity
+  FROM public.transcription_embeddings
+  JOIN public.transcription_logs ON transcription_logs.id = transcription_embeddings.transcription_id
+  WHERE transcription_logs.user_id = _user_id
+    AND transcription_embeddings.model = _model
+    AND 1 - (transcription_embeddings.embedding <=> _query_embedding) >= _min_similarity
+  ORDER BY transcription_embeddings.embedding <=> _query_embedding
+  LIMIT _match_count;
+$$;
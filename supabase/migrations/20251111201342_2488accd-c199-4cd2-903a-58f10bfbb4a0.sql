@@ -0,0 +1,273 @@
+-- Keyset pagination for the history list: one index per sortable column, each led by user_id,
+-- so fetching a page costs the same however deep into the history it is
+CREATE INDEX IF NOT EXISTS idx_transcription_logs_user_created_at
+  ON public.transcription_logs(user_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_transcription_logs_user_file_title
+  ON public.transcription_logs(user_id, lower(file_title), id);
+CREATE INDEX IF NOT EXISTS idx_transcription_logs_user_status
+  ON public.transcription_logs(user_id, status, id);
+
+DROP FUNCTION IF EXISTS public.search_transcription_logs(
+  TEXT, TEXT, TEXT, TEXT[], UUID[], TEXT[], TEXT[], TEXT[], TEXT[],
+  TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER
+);
+
+-- The caller's logs matching the history filters. Kept as a plain SQL function (no SET clause)
+-- so the planner inlines it and can still walk the sort indexes above.
+CREATE FUNCTION public.filter_transcription_logs(
+  _search_query TEXT DEFAULT NULL,
+  _content_tsquery TEXT DEFAULT NULL,
+  _checksum_query TEXT DEFAULT NULL,
+  _statuses TEXT[] DEFAULT NULL,
+  _tag_ids UUID[] DEFAULT NULL,
+  _required_tags TEXT[] DEFAULT NULL,
+  _excluded_tags TEXT[] DEFAULT NULL,
+  _query_statuses TEXT[] DEFAULT NULL,
+  _excluded_statuses TEXT[] DEFAULT NULL,
+  _start_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _end_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _min_length INTEGER DEFAULT NULL,
+  _max_length INTEGER DEFAULT NULL
+)
+RETURNS SETOF public.transcription_logs
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT logs.*
+  FROM public.transcription_logs AS logs
+  WHERE logs.user_id = auth.uid()
+    AND (
+      -- A query of only stop words compiles to an empty tsquery, which shouldn't filter anything out
+      coalesce(trim(_content_tsquery), '') = ''
+      OR numnode(to_tsquery('english', _content_tsquery)) = 0
+      OR logs.search_vector @@ to_tsquery('english', _content_tsquery)
+    )
+    AND (
+      coalesce(_search_query, '') = ''
+      OR logs.file_title ILIKE '%' || replace(replace(replace(_search_query, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+    AND (
+      coalesce(trim(_checksum_query), '') = ''
+      OR logs.file_checksum ILIKE '%' || replace(replace(replace(trim(_checksum_query), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+    AND (_statuses IS NULL OR logs.status = ANY(_statuses))
+    AND (_query_statuses IS NULL OR logs.status = ANY(_query_statuses))
+    AND (_excluded_statuses IS NULL OR NOT logs.status = ANY(_excluded_statuses))
+    AND (_start_date IS NULL OR logs.created_at >= _start_date)
+    AND (_end_date IS NULL OR logs.created_at <= _end_date)
+    AND (_min_length IS NULL OR char_length(coalesce(logs.transcription_text, '')) >= _min_length)
+    AND (_max_length IS NULL OR char_length(coalesce(logs.transcription_text, '')) <= _max_length)
+    AND (
+      _tag_ids IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.transcription_tags
+        WHERE transcription_tags.transcription_id = logs.id
+          AND transcription_tags.tag_id = ANY(_tag_ids)
+      )
+    )
+    AND (
+      _required_tags IS NULL
+      OR NOT EXISTS (
+        SELECT 1 FROM unnest(_required_tags) AS required(name)
+        WHERE NOT EXISTS (
+          SELECT 1 FROM public.transcription_tags
+          JOIN public.tags ON tags.id = transcription_tags.tag_id
+          WHERE transcription_tags.transcription_id = logs.id
+            AND lower(tags.name) = lower(required.name)
+        )
+      )
+    )
+    AND (
+      _excluded_tags IS NULL
+      OR NOT EXISTS (
+        SELECT 1 FROM public.transcription_tags
+        JOIN public.tags ON tags.id = transcription_tags.tag_id
+        WHERE transcription_tags.transcription_id = logs.id
+          AND lower(tags.name) = ANY(SELECT lower(excluded.name) FROM unnest(_excluded_tags) AS excluded(name))
+      )
+    );
+$$;
+
+-- One page of matching logs after the (_cursor_value, _cursor_id) keyset cursor, which is the
+-- sort_value and id of the last row of the previous page. _backward pages towards the start
+-- (the row before the cursor) and, without a cursor, returns the last page. _page_offset is
+-- only for opening a page number directly, where no cursor is known yet.
+CREATE FUNCTION public.search_transcription_logs(
+  _search_query TEXT DEFAULT NULL,
+  _content_tsquery TEXT DEFAULT NULL,
+  _checksum_query TEXT DEFAULT NULL,
+  _statuses TEXT[] DEFAULT NULL,
+  _tag_ids UUID[] DEFAULT NULL,
+  _required_tags TEXT[] DEFAULT NULL,
+  _excluded_tags TEXT[] DEFAULT NULL,
+  _query_statuses TEXT[] DEFAULT NULL,
+  _excluded_statuses TEXT[] DEFAULT NULL,
+  _start_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _end_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _min_length INTEGER DEFAULT NULL,
+  _max_length INTEGER DEFAULT NULL,
+  _sort_field TEXT DEFAULT NULL,
+  _sort_direction TEXT DEFAULT NULL,
+  _page_size INTEGER DEFAULT 10,
+  _cursor_value TEXT DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _backward BOOLEAN DEFAULT false,
+  _page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  rank REAL,
+  snippet TEXT,
+  sort_value TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  content_query tsquery;
+  sort_key TEXT;
+  sort_type TEXT;
+  descending BOOLEAN := true;
+  scan_descending BOOLEAN;
+BEGIN
+  IF coalesce(trim(_content_tsquery), '') <> '' THEN
+    content_query := to_tsquery('english', _content_tsquery);
+    IF numnode(content_query) = 0 THEN
+      content_query := NULL;
+    END IF;
+  END IF;
+
+  -- Sort by the chosen column, else by relevance when searching content, else newest first.
+  -- The id breaks ties so every row has a unique position for the cursor.
+  IF _sort_field = 'file_title' AND _sort_direction IN ('asc', 'desc') THEN
+    sort_key := 'lower(logs.file_title)';
+    sort_type := 'text';
+    descending := _sort_direction = 'desc';
+  ELSIF _sort_field = 'status' AND _sort_direction IN ('asc', 'desc') THEN
+    sort_key := 'logs.status';
+    sort_type := 'text';
+    descending := _sort_direction = 'desc';
+  ELSIF _sort_field = 'created_at' AND _sort_direction IN ('asc', 'desc') THEN
+    sort_key := 'logs.created_at';
+    sort_type := 'timestamptz';
+    descending := _sort_direction = 'desc';
+  ELSIF content_query IS NOT NULL THEN
+    sort_key := 'ts_rank_cd(logs.search_vector, $14)';
+    sort_type := 'real';
+  ELSE
+    sort_key := 'logs.created_at';
+    sort_type := 'timestamptz';
+  END IF;
+
+  scan_descending := descending <> coalesce(_backward, false);
+
+  -- Rows are fetched in scan order from the cursor, then put back into display order, so a
+  -- backward page still reads top to bottom. Snippets are only built for the rows returned.
+  RETURN QUERY EXECUTE format(
+    $query$
+      SELECT
+        page.id,
+        page.rank,
+        CASE
+          WHEN $14 IS NOT NULL THEN ts_headline(
+            'english',
+            page.transcription_text,
+            $14,
+            'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=25, MinWords=10, FragmentDelimiter=" … "'
+          )
+        END,
+        page.sort_value
+      FROM (
+        SELECT
+          logs.id,
+          logs.transcription_text,
+          (CASE WHEN $14 IS NULL THEN 0 ELSE ts_rank_cd(logs.search_vector, $14) END)::REAL AS rank,
+          %1$s AS sort_key,
+          (%1$s)::TEXT AS sort_value
+        FROM public.filter_transcription_logs($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13) AS logs
+        WHERE %2$s
+        ORDER BY %1$s %3$s, logs.id %3$s
+        LIMIT $17
+        OFFSET $18
+      ) AS page
+      ORDER BY page.sort_key %4$s, page.id %4$s
+    $query$,
+    sort_key,
+    CASE
+      WHEN _cursor_id IS NULL THEN 'true'
+      ELSE format('(%s, logs.id) %s ($15::%s, $16)', sort_key, CASE WHEN scan_descending THEN '<' ELSE '>' END, sort_type)
+    END,
+    CASE WHEN scan_descending THEN 'DESC' ELSE 'ASC' END,
+    CASE WHEN descending THEN 'DESC' ELSE 'ASC' END
+  )
+  USING
+    _search_query, _content_tsquery, _checksum_query, _statuses, _tag_ids, _required_tags,
+    _excluded_tags, _query_statuses, _excluded_statuses, _start_date, _end_date, _min_length,
+    _max_length, content_query, _cursor_value, _cursor_id, _page_size,
+    CASE WHEN _cursor_id IS NULL THEN greatest(coalesce(_page_offset, 0), 0) ELSE 0 END;
+END;
+$$;
+
+-- Counting is separate from paging so it only runs when the filters change, not on every page
+CREATE FUNCTION public.count_transcription_logs(
+  _search_query TEXT DEFAULT NULL,
+  _content_tsquery TEXT DEFAULT NULL,
+  _checksum_query TEXT DEFAULT NULL,
+  _statuses TEXT[] DEFAULT NULL,
+  _tag_ids UUID[] DEFAULT NULL,
+  _required_tags TEXT[] DEFAULT NULL,
+  _excluded_tags TEXT[] DEFAULT NULL,
+  _query_statuses TEXT[] DEFAULT NULL,
+  _excluded_statuses TEXT[] DEFAULT NULL,
+  _start_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _end_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _min_length INTEGER DEFAULT NULL,
+  _max_length INTEGER DEFAULT NULL
+)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT count(*)
+  FROM public.filter_transcription_logs(
+    _search_query, _content_tsquery, _checksum_query, _statuses, _tag_ids, _required_tags,
+    _excluded_tags, _query_statuses, _excluded_statuses, _start_date, _end_date, _min_length, _max_length
+  );
+$$;
+
+-- Summary figures for the history header, so they don't need the whole history on the client
+CREATE FUNCTION public.get_transcription_stats()
+RETURNS TABLE (
+  total BIGINT,
+  completed BIGINT,
+  failed BIGINT,
+  processing BIGINT,
+  average_length NUMERIC,
+  duplicate_groups BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE logs.status = 'completed'),
+    count(*) FILTER (WHERE logs.status = 'failed'),
+    count(*) FILTER (WHERE logs.status = 'processing'),
+    coalesce(round(avg(char_length(logs.transcription_text)) FILTER (WHERE coalesce(logs.transcription_text, '') <> '')), 0),
+    (
+      SELECT count(*)
+      FROM (
+        SELECT 1
+        FROM public.transcription_logs AS duplicates
+        WHERE duplicates.user_id = auth.uid()
+          AND duplicates.file_checksum IS NOT NULL
+        GROUP BY duplicates.file_checksum
+        HAVING count(*) > 1
+      ) AS groups
+    )
+  FROM public.transcription_logs AS logs
+  WHERE logs.user_id = auth.uid();
+$$;
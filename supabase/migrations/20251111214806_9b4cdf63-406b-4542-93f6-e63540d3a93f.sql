@@ -0,0 +1,23 @@
+-- When each user was last sent their weekly summary, so a repeated run doesn't email them twice
+ALTER TABLE public.notification_preferences
+ADD COLUMN weekly_summary_sent_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_notification_preferences_email_weekly_summary
+ON public.notification_preferences(email_weekly_summary)
+WHERE email_weekly_summary;
+
+-- Send the weekly summaries every Monday at 08:00 UTC
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'weekly-summary',
+  '0 8 * * 1',
+  $$
+  SELECT net.http_post(
+    url := 'https://okspcuzngoublrmtjreh.supabase.co/functions/v1/weekly-summary',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,95 @@
+-- Endpoints users register to receive transcription lifecycle events
+CREATE TABLE public.webhook_endpoints (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  description TEXT,
+  -- Shared secret the payload signature is computed with
+  secret TEXT NOT NULL,
+  events TEXT[] NOT NULL DEFAULT '{}',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT webhook_endpoints_url_check CHECK (url ~* '^https?://'),
+  CONSTRAINT webhook_endpoints_events_check CHECK (
+    events <@ ARRAY['transcription.completed', 'transcription.failed', 'duplicate.detected', 'cleanup.completed']
+  )
+);
+
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own webhook endpoints"
+ON public.webhook_endpoints
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own webhook endpoints"
+ON public.webhook_endpoints
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own webhook endpoints"
+ON public.webhook_endpoints
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own webhook endpoints"
+ON public.webhook_endpoints
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_webhook_endpoints_user_id ON public.webhook_endpoints(user_id);
+
+CREATE TRIGGER update_webhook_endpoints_updated_at
+  BEFORE UPDATE ON public.webhook_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row per event sent to an endpoint, updated on every attempt. Replays are new rows
+CREATE TABLE public.webhook_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
+  response_status INTEGER,
+  response_body TEXT,
+  error_message TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  replay_of UUID REFERENCES public.webhook_deliveries(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT webhook_deliveries_status_check CHECK (status IN ('pending', 'succeeded', 'failed'))
+);
+
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Deliveries are written by edge functions; users only read their log
+CREATE POLICY "Users can view their own webhook deliveries"
+ON public.webhook_deliveries
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_webhook_deliveries_endpoint_id_created_at ON public.webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX idx_webhook_deliveries_due ON public.webhook_deliveries(next_attempt_at)
+WHERE status = 'pending';
+
+-- Retry due deliveries every minute
+SELECT cron.schedule(
+  'deliver-webhooks',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://okspcuzngoublrmtjreh.supabase.co/functions/v1/deliver-webhooks',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,59 @@
+-- The queue worker picks pending items oldest first
+CREATE INDEX idx_transcription_queue_pending ON public.transcription_queue(created_at)
+WHERE status = 'pending';
+
+-- Claim pending queue items for the worker, up to _max_concurrency items processing at once.
+-- Claims are serialised by an advisory lock so overlapping runs can't exceed the limit, and
+-- SKIP LOCKED leaves rows another transaction is updating (e.g. a user pausing them) alone
+CREATE OR REPLACE FUNCTION public.claim_transcription_queue_items(_max_concurrency INTEGER)
+RETURNS SETOF public.transcription_queue
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _available INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('claim_transcription_queue_items'));
+
+  SELECT _max_concurrency - count(*)
+  INTO _available
+  FROM public.transcription_queue
+  WHERE status = 'processing';
+
+  IF _available <= 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.transcription_queue AS queue
+  SET status = 'processing',
+      progress = 5,
+      started_at = now(),
+      error_message = NULL
+  WHERE queue.id IN (
+    SELECT id
+    FROM public.transcription_queue
+    WHERE status = 'pending'
+    ORDER BY created_at
+    LIMIT _available
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING queue.*;
+END;
+$$;
+
+-- Only the worker, running as the service role, claims items
+REVOKE EXECUTE ON FUNCTION public.claim_transcription_queue_items(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Run the queue worker every minute
+SELECT cron.schedule(
+  'process-transcription-queue',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://okspcuzngoublrmtjreh.supabase.co/functions/v1/process-transcription-queue',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb
+  );
+  $$
+);
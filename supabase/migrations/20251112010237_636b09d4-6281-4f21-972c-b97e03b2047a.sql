@@ -0,0 +1,77 @@
+-- Retry state for queue items: transient failures wait until next_attempt_at and try again,
+-- permanent ones and items out of attempts move to dead_letter
+ALTER TABLE public.transcription_queue
+  ADD COLUMN attempt_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN next_attempt_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN last_error_class TEXT CHECK (last_error_class IN ('transient', 'permanent'));
+
+ALTER TABLE public.transcription_queue DROP CONSTRAINT transcription_queue_status_check;
+ALTER TABLE public.transcription_queue
+  ADD CONSTRAINT transcription_queue_status_check
+  CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'paused', 'dead_letter'));
+
+-- One row per attempt at a queue item, written by the worker when the attempt finishes
+CREATE TABLE public.transcription_queue_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  queue_item_id UUID NOT NULL REFERENCES public.transcription_queue(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  attempt_number INTEGER NOT NULL,
+  succeeded BOOLEAN NOT NULL,
+  error_message TEXT,
+  error_class TEXT CHECK (error_class IN ('transient', 'permanent')),
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+ALTER TABLE public.transcription_queue_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own queue attempts"
+ON public.transcription_queue_attempts
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_transcription_queue_attempts_queue_item_id
+ON public.transcription_queue_attempts(queue_item_id, attempt_number);
+
+-- Claim as before, skipping items waiting out a retry delay, and count the attempt
+CREATE OR REPLACE FUNCTION public.claim_transcription_queue_items(_max_concurrency INTEGER)
+RETURNS SETOF public.transcription_queue
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _available INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('claim_transcription_queue_items'));
+
+  SELECT _max_concurrency - count(*)
+  INTO _available
+  FROM public.transcription_queue
+  WHERE status = 'processing';
+
+  IF _available <= 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.transcription_queue AS queue
+  SET status = 'processing',
+      progress = 5,
+      started_at = now(),
+      error_message = NULL,
+      attempt_count = queue.attempt_count + 1
+  WHERE queue.id IN (
+    SELECT id
+    FROM public.transcription_queue
+    WHERE status = 'pending'
+      AND (next_attempt_at IS NULL OR next_attempt_at <= now())
+    ORDER BY created_at
+    LIMIT _available
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING queue.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_transcription_queue_items(INTEGER) FROM PUBLIC, anon, authenticated;
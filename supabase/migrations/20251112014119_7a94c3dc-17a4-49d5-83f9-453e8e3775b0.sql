@@ -0,0 +1,85 @@
+-- Higher priority items run first; queue_position orders items within a priority and is what
+-- drag-to-reorder changes. Items aren't started before not_before
+ALTER TABLE public.transcription_queue
+  ADD COLUMN priority INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN queue_position DOUBLE PRECISION NOT NULL DEFAULT extract(epoch FROM now()),
+  ADD COLUMN not_before TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.transcription_queue
+SET queue_position = extract(epoch FROM COALESCE(created_at, now()));
+
+DROP INDEX IF EXISTS public.idx_transcription_queue_pending;
+CREATE INDEX idx_transcription_queue_pending ON public.transcription_queue(priority DESC, queue_position)
+WHERE status = 'pending';
+
+-- Claim by priority and queue position, taking at most _max_per_user items processing for any one
+-- user so a large batch can't starve everyone else. Within a priority, users take turns
+DROP FUNCTION IF EXISTS public.claim_transcription_queue_items(INTEGER);
+
+CREATE OR REPLACE FUNCTION public.claim_transcription_queue_items(
+  _max_concurrency INTEGER,
+  _max_per_user INTEGER DEFAULT 2
+)
+RETURNS SETOF public.transcription_queue
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _available INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('claim_transcription_queue_items'));
+
+  SELECT _max_concurrency - count(*)
+  INTO _available
+  FROM public.transcription_queue
+  WHERE status = 'processing';
+
+  IF _available <= 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH running AS (
+    SELECT user_id, count(*) AS processing
+    FROM public.transcription_queue
+    WHERE status = 'processing'
+    GROUP BY user_id
+  ),
+  candidates AS (
+    SELECT
+      q.id,
+      q.priority,
+      q.queue_position,
+      row_number() OVER (PARTITION BY q.user_id ORDER BY q.priority DESC, q.queue_position) AS user_rank,
+      COALESCE(running.processing, 0) AS processing
+    FROM public.transcription_queue AS q
+    LEFT JOIN running ON running.user_id = q.user_id
+    WHERE q.status = 'pending'
+      AND (q.next_attempt_at IS NULL OR q.next_attempt_at <= now())
+      AND (q.not_before IS NULL OR q.not_before <= now())
+  ),
+  chosen AS (
+    SELECT id
+    FROM candidates
+    WHERE user_rank + processing <= _max_per_user
+    ORDER BY priority DESC, user_rank, queue_position
+    LIMIT _available
+  ),
+  locked AS (
+    SELECT q.id
+    FROM public.transcription_queue AS q
+    WHERE q.id IN (SELECT id FROM chosen)
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.transcription_queue AS queue
+  SET status = 'processing',
+      progress = 5,
+      started_at = now(),
+      error_message = NULL,
+      attempt_count = queue.attempt_count + 1
+  WHERE queue.id IN (SELECT id FROM locked)
+  RETURNING queue.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_transcription_queue_items(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
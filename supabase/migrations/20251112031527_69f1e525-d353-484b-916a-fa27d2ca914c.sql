@@ -0,0 +1,34 @@
+-- Describe every queue job by what it reads rather than assuming a YouTube video:
+--   youtube      source_ref is the video URL
+--   upload       source_ref is the original file's path in the audio-uploads bucket
+--   recording    source_ref is the recording's path in the audio-uploads bucket
+--   translation  source_ref is the transcription log to translate
+--   rerun        source_ref is the transcription log whose stored audio is transcribed again
+-- source_metadata carries what the job needs beyond that, like the file name, checksum and chunk paths.
+-- video_title stays the item's display title; the other video_* columns only describe YouTube sources.
+ALTER TABLE public.transcription_queue
+  ADD COLUMN source_type TEXT,
+  ADD COLUMN source_ref TEXT,
+  ADD COLUMN source_metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+UPDATE public.transcription_queue
+SET source_type = job_type,
+    source_ref = CASE WHEN job_type = 'translation' THEN transcription_log_id::text ELSE video_url END;
+
+ALTER TABLE public.transcription_queue ALTER COLUMN source_type SET NOT NULL;
+ALTER TABLE public.transcription_queue ALTER COLUMN source_ref SET NOT NULL;
+ALTER TABLE public.transcription_queue
+  ADD CONSTRAINT transcription_queue_source_type_check
+  CHECK (source_type IN ('youtube', 'upload', 'recording', 'translation', 'rerun'));
+
+ALTER TABLE public.transcription_queue DROP CONSTRAINT transcription_queue_job_source;
+DROP INDEX IF EXISTS public.idx_transcription_queue_job_type;
+ALTER TABLE public.transcription_queue DROP COLUMN job_type;
+
+-- Translations still write their result against the source log and target language
+ALTER TABLE public.transcription_queue
+  ADD CONSTRAINT transcription_queue_job_source CHECK (
+    source_type <> 'translation' OR (transcription_log_id IS NOT NULL AND target_language IS NOT NULL)
+  );
+
+CREATE INDEX idx_transcription_queue_source_type ON public.transcription_queue(source_type);
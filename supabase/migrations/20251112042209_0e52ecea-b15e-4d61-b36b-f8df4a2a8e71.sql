@@ -0,0 +1,63 @@
+-- Channels a user follows: new uploads are added to their transcription queue as they appear
+CREATE TABLE public.youtube_channel_watches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  channel_id TEXT NOT NULL,
+  channel_title TEXT NOT NULL,
+  channel_url TEXT NOT NULL,
+  -- Caption language the queued videos are transcribed in
+  language TEXT NOT NULL DEFAULT 'en',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  -- Publish time of the newest upload already seen; only later uploads are queued
+  last_published_at TIMESTAMP WITH TIME ZONE,
+  last_checked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT youtube_channel_watches_user_channel_key UNIQUE (user_id, channel_id)
+);
+
+ALTER TABLE public.youtube_channel_watches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own channel watches"
+ON public.youtube_channel_watches
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own channel watches"
+ON public.youtube_channel_watches
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own channel watches"
+ON public.youtube_channel_watches
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own channel watches"
+ON public.youtube_channel_watches
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_youtube_channel_watches_enabled ON public.youtube_channel_watches(enabled, last_checked_at);
+
+CREATE TRIGGER update_youtube_channel_watches_updated_at
+  BEFORE UPDATE ON public.youtube_channel_watches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Check watched channels for new uploads every 30 minutes
+SELECT cron.schedule(
+  'watch-youtube-channels',
+  '*/30 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://okspcuzngoublrmtjreh.supabase.co/functions/v1/watch-youtube-channels',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb
+  );
+  $$
+);
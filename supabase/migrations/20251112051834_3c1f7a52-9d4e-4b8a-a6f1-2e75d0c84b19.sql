@@ -0,0 +1,132 @@
+-- Aggregate transcription usage in the database: returning one row per log hit the API's row limit
+-- once there were more than 1000 logs, so the admin totals were wrong
+DROP FUNCTION IF EXISTS public.get_transcription_usage();
+
+-- Admin-only status counts, plus minutes and spend across completed transcriptions
+CREATE FUNCTION public.get_transcription_usage()
+RETURNS TABLE (
+  total BIGINT,
+  completed BIGINT,
+  failed BIGINT,
+  processing BIGINT,
+  pending BIGINT,
+  duration_seconds NUMERIC,
+  estimated_cost NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view transcription usage';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE logs.status = 'completed'),
+    count(*) FILTER (WHERE logs.status = 'failed'),
+    count(*) FILTER (WHERE logs.status = 'processing'),
+    count(*) FILTER (WHERE logs.status = 'pending'),
+    coalesce(sum(logs.duration_seconds) FILTER (WHERE logs.status = 'completed'), 0),
+    coalesce(sum(logs.estimated_cost) FILTER (WHERE logs.status = 'completed'), 0)
+  FROM public.transcription_logs AS logs;
+END;
+$$;
+
+-- Admin-only count of completed transcriptions per detected language
+CREATE FUNCTION public.get_transcription_usage_by_language()
+RETURNS TABLE (
+  language TEXT,
+  transcriptions BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view transcription usage';
+  END IF;
+
+  RETURN QUERY
+  SELECT logs.language, count(*)
+  FROM public.transcription_logs AS logs
+  WHERE logs.status = 'completed'
+  GROUP BY logs.language
+  ORDER BY count(*) DESC;
+END;
+$$;
+
+-- Admin-only completed transcriptions, minutes and spend for the heaviest users
+CREATE FUNCTION public.get_transcription_usage_by_user(_limit INTEGER DEFAULT 10)
+RETURNS TABLE (
+  user_id UUID,
+  user_email TEXT,
+  transcriptions BIGINT,
+  duration_seconds NUMERIC,
+  estimated_cost NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view transcription usage';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    logs.user_id,
+    profiles.email,
+    count(*),
+    coalesce(sum(logs.duration_seconds), 0),
+    coalesce(sum(logs.estimated_cost), 0)
+  FROM public.transcription_logs AS logs
+  LEFT JOIN public.profiles ON profiles.id = logs.user_id
+  WHERE logs.status = 'completed'
+    AND logs.user_id IS NOT NULL
+  GROUP BY logs.user_id, profiles.email
+  ORDER BY coalesce(sum(logs.estimated_cost), 0) DESC, coalesce(sum(logs.duration_seconds), 0) DESC
+  LIMIT _limit;
+END;
+$$;
+
+-- Admin-only most common failure messages, cut to 50 characters so variants of one error group together
+CREATE FUNCTION public.get_transcription_error_counts(_limit INTEGER DEFAULT 10)
+RETURNS TABLE (
+  error_message TEXT,
+  failures BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view transcription usage';
+  END IF;
+
+  RETURN QUERY
+  SELECT errors.message, count(*)
+  FROM (
+    SELECT
+      CASE
+        WHEN char_length(logs.error_message) > 50 THEN left(logs.error_message, 50) || '...'
+        ELSE logs.error_message
+      END AS message
+    FROM public.transcription_logs AS logs
+    WHERE logs.status = 'failed'
+      AND coalesce(logs.error_message, '') <> ''
+  ) AS errors
+  GROUP BY errors.message
+  ORDER BY count(*) DESC
+  LIMIT _limit;
+END;
+$$;
@@ -0,0 +1,12 @@
+-- Webhooks are sent from the server, so endpoints are limited to https and delivery no longer keeps
+-- what the endpoint sent back: the delivery log is readable by the user, and a response body could
+-- otherwise carry the content of a host only the server can reach
+
+-- Plain http endpoints can no longer be delivered to; they stay listed, disabled, until they're removed
+UPDATE public.webhook_endpoints SET enabled = false WHERE url !~* '^https://';
+
+ALTER TABLE public.webhook_endpoints DROP CONSTRAINT webhook_endpoints_url_check;
+ALTER TABLE public.webhook_endpoints
+  ADD CONSTRAINT webhook_endpoints_url_check CHECK (url ~* '^https://') NOT VALID;
+
+ALTER TABLE public.webhook_deliveries DROP COLUMN response_body;
@@ -0,0 +1,52 @@
+-- The HNSW index is shared by every user's passages, so an approximate scan returns the
+-- nearest candidates across all users before the user filter applies and can come back
+-- short or empty for a user with few passages. Rank the caller's own passages exactly instead:
+-- the materialized CTE keeps the planner from using the shared index for the ordering.
+CREATE OR REPLACE FUNCTION public.match_transcription_passages(
+  _query_embedding extensions.vector(1536),
+  _user_id UUID,
+  _model TEXT,
+  _match_count INTEGER DEFAULT 10,
+  _min_similarity DOUBLE PRECISION DEFAULT 0
+)
+RETURNS TABLE (
+  transcription_id UUID,
+  file_title TEXT,
+  chunk_index INTEGER,
+  content TEXT,
+  start_time NUMERIC,
+  end_time NUMERIC,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH user_passages AS MATERIALIZED (
+    SELECT
+      transcription_embeddings.transcription_id,
+      transcription_logs.file_title,
+      transcription_embeddings.chunk_index,
+      transcription_embeddings.content,
+      transcription_embeddings.start_time,
+      transcription_embeddings.end_time,
+      transcription_embeddings.embedding <=> _query_embedding AS distance
+    FROM public.transcription_embeddings
+    JOIN public.transcription_logs ON transcription_logs.id = transcription_embeddings.transcription_id
+    WHERE transcription_logs.user_id = _user_id
+      AND transcription_embeddings.model = _model
+  )
+  SELECT
+    user_passages.transcription_id,
+    user_passages.file_title,
+    user_passages.chunk_index,
+    user_passages.content,
+    user_passages.start_time,
+    user_passages.end_time,
+    1 - user_passages.distance AS similarity
+  FROM user_passages
+  WHERE 1 - user_passages.distance >= _min_similarity
+  ORDER BY user_passages.distance
+  LIMIT _match_count;
+$$;
+
@@ -0,0 +1,28 @@
+-- Completed transcriptions of a user that have text but no search passages yet, newest first,
+-- with the total number missing so the backfill can report how much is left
+CREATE OR REPLACE FUNCTION public.get_unindexed_transcriptions(
+  _user_id UUID,
+  _limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  transcription_id UUID,
+  total_missing BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    transcription_logs.id AS transcription_id,
+    count(*) OVER () AS total_missing
+  FROM public.transcription_logs
+  WHERE transcription_logs.user_id = _user_id
+    AND transcription_logs.status = 'completed'
+    AND btrim(coalesce(transcription_logs.transcription_text, '')) <> ''
+    AND NOT EXISTS (
+      SELECT 1 FROM public.transcription_embeddings
+      WHERE transcription_embeddings.transcription_id = transcription_logs.id
+    )
+  ORDER BY transcription_logs.created_at DESC
+  LIMIT _limit;
+$$;
@@ -0,0 +1,54 @@
+-- Deliveries being sent are marked delivering so overlapping retry runs never send one twice.
+-- next_attempt_at doubles as the lease: a delivery whose run died is picked up again once it passes
+ALTER TABLE public.webhook_deliveries DROP CONSTRAINT webhook_deliveries_status_check;
+ALTER TABLE public.webhook_deliveries ADD CONSTRAINT webhook_deliveries_status_check
+  CHECK (status IN ('pending', 'delivering', 'succeeded', 'failed'));
+
+DROP INDEX IF EXISTS public.idx_webhook_deliveries_due;
+CREATE INDEX idx_webhook_deliveries_due ON public.webhook_deliveries(next_attempt_at)
+WHERE status IN ('pending', 'delivering');
+
+-- Claim up to _limit due deliveries for one retry run, skipping rows another run has locked
+CREATE OR REPLACE FUNCTION public.claim_due_webhook_deliveries(
+  _limit INTEGER,
+  _lease_seconds INTEGER
+)
+RETURNS SETOF public.webhook_deliveries
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.webhook_deliveries
+  SET status = 'delivering',
+      next_attempt_at = timezone('utc'::text, now()) + make_interval(secs => _lease_seconds)
+  WHERE id IN (
+    SELECT id
+    FROM public.webhook_deliveries
+    WHERE status IN ('pending', 'delivering')
+      AND next_attempt_at <= timezone('utc'::text, now())
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_due_webhook_deliveries(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- The retry run now requires the shared cron secret, kept in the vault as `cron_secret`
+-- (the same value as the functions' CRON_SECRET)
+SELECT cron.unschedule('deliver-webhooks');
+
+SELECT cron.schedule(
+  'deliver-webhooks',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://okspcuzngoublrmtjreh.supabase.co/functions/v1/deliver-webhooks',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'X-Cron-Secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,17 @@
+-- The weekly summary now requires the shared cron secret, kept in the vault as `cron_secret`
+SELECT cron.unschedule('weekly-summary');
+
+SELECT cron.schedule(
+  'weekly-summary',
+  '0 8 * * 1',
+  $$
+  SELECT net.http_post(
+    url := 'https://okspcuzngoublrmtjreh.supabase.co/functions/v1/weekly-summary',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'X-Cron-Secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,17 @@
+-- The scheduled queue run now requires the shared cron secret, kept in the vault as `cron_secret`
+SELECT cron.unschedule('process-transcription-queue');
+
+SELECT cron.schedule(
+  'process-transcription-queue',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://okspcuzngoublrmtjreh.supabase.co/functions/v1/process-transcription-queue',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'X-Cron-Secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
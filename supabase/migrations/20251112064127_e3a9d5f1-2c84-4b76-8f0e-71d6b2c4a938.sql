@@ -0,0 +1,17 @@
+-- The channel watcher now requires the shared cron secret, kept in the vault as `cron_secret`
+SELECT cron.unschedule('watch-youtube-channels');
+
+SELECT cron.schedule(
+  'watch-youtube-channels',
+  '*/30 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://okspcuzngoublrmtjreh.supabase.co/functions/v1/watch-youtube-channels',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'X-Cron-Secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,52 @@
+-- Users may only pause, resume and retry their queue items and change when and in what order they
+-- run. Everything else, in particular marking items processing (which takes worker slots from every
+-- user), is left to the worker running with the service role.
+CREATE OR REPLACE FUNCTION public.restrict_user_queue_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _editable TEXT[] := ARRAY['status', 'priority', 'queue_position', 'not_before', 'updated_at'];
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' THEN
+      RAISE EXCEPTION 'New queue items must be pending';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+    (OLD.status = 'pending' AND NEW.status = 'paused')
+    OR (OLD.status = 'paused' AND NEW.status = 'pending')
+    OR (OLD.status IN ('failed', 'dead_letter') AND NEW.status = 'pending')
+  ) THEN
+    RAISE EXCEPTION 'Queue items cannot be moved from % to %', OLD.status, NEW.status;
+  END IF;
+
+  -- A retry starts the item over with a fresh set of attempts
+  IF OLD.status IN ('failed', 'dead_letter') AND NEW.status = 'pending' THEN
+    NEW.progress := 0;
+    NEW.error_message := NULL;
+    NEW.attempt_count := 0;
+    NEW.next_attempt_at := NULL;
+    NEW.last_error_class := NULL;
+    _editable := _editable || ARRAY['progress', 'error_message', 'attempt_count', 'next_attempt_at', 'last_error_class'];
+  END IF;
+
+  IF (to_jsonb(NEW) - _editable) IS DISTINCT FROM (to_jsonb(OLD) - _editable) THEN
+    RAISE EXCEPTION 'Only the status, priority, position and schedule of a queue item can be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER restrict_user_queue_changes_trigger
+BEFORE INSERT OR UPDATE ON public.transcription_queue
+FOR EACH ROW
+EXECUTE FUNCTION public.restrict_user_queue_changes();
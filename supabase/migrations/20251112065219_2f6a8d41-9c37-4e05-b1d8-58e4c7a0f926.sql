@@ -0,0 +1,82 @@
+-- Priority is only chosen from the levels the queue manager offers
+UPDATE public.transcription_queue
+SET priority = CASE
+  WHEN priority >= 10 THEN 10
+  WHEN priority >= 5 THEN 5
+  WHEN priority >= 0 THEN 0
+  ELSE -5
+END
+WHERE priority NOT IN (-5, 0, 5, 10);
+
+ALTER TABLE public.transcription_queue
+  ADD CONSTRAINT transcription_queue_priority_check CHECK (priority IN (-5, 0, 5, 10));
+
+-- Users take turns: whoever has the fewest items running or ahead of this one goes first, oldest
+-- item first on a tie. Priority and queue position only order a user's own items, so raising them
+-- can't push anyone else back
+CREATE OR REPLACE FUNCTION public.claim_transcription_queue_items(
+  _max_concurrency INTEGER,
+  _max_per_user INTEGER DEFAULT 2
+)
+RETURNS SETOF public.transcription_queue
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _available INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('claim_transcription_queue_items'));
+
+  SELECT _max_concurrency - count(*)
+  INTO _available
+  FROM public.transcription_queue
+  WHERE status = 'processing';
+
+  IF _available <= 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH running AS (
+    SELECT user_id, count(*) AS processing
+    FROM public.transcription_queue
+    WHERE status = 'processing'
+    GROUP BY user_id
+  ),
+  candidates AS (
+    SELECT
+      q.id,
+      q.created_at,
+      row_number() OVER (PARTITION BY q.user_id ORDER BY q.priority DESC, q.queue_position) AS user_rank,
+      COALESCE(running.processing, 0) AS processing
+    FROM public.transcription_queue AS q
+    LEFT JOIN running ON running.user_id = q.user_id
+    WHERE q.status = 'pending'
+      AND (q.next_attempt_at IS NULL OR q.next_attempt_at <= now())
+      AND (q.not_before IS NULL OR q.not_before <= now())
+  ),
+  chosen AS (
+    SELECT id
+    FROM candidates
+    WHERE user_rank + processing <= _max_per_user
+    ORDER BY user_rank + processing, created_at
+    LIMIT _available
+  ),
+  locked AS (
+    SELECT q.id
+    FROM public.transcription_queue AS q
+    WHERE q.id IN (SELECT id FROM chosen)
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.transcription_queue AS queue
+  SET status = 'processing',
+      progress = 5,
+      started_at = now(),
+      error_message = NULL,
+      attempt_count = queue.attempt_count + 1
+  WHERE queue.id IN (SELECT id FROM locked)
+  RETURNING queue.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_transcription_queue_items(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;